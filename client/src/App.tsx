@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { NotificationBell } from "@/components/notification-bell";
 import { useAuth } from "@/hooks/useAuth";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
@@ -12,10 +13,17 @@ import Login from "@/pages/login";
 import Register from "@/pages/register";
 import Dashboard from "@/pages/dashboard";
 import Transactions from "@/pages/transactions";
+import Accounts from "@/pages/accounts";
 import WeeklyView from "@/pages/weekly-view";
 import Reports from "@/pages/reports";
 import Categories from "@/pages/categories";
 import Settings from "@/pages/settings";
+import Consolidated from "@/pages/consolidated";
+import Trash from "@/pages/trash";
+import AcceptInvite from "@/pages/accept-invite";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
 
 function AuthenticatedRouter() {
   return (
@@ -23,11 +31,17 @@ function AuthenticatedRouter() {
       <Route path="/" component={Dashboard} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/transactions" component={Transactions} />
+      <Route path="/accounts" component={Accounts} />
       <Route path="/weekly-view" component={WeeklyView} />
       <Route path="/weekly" component={WeeklyView} />
       <Route path="/reports" component={Reports} />
       <Route path="/categories" component={Categories} />
+      <Route path="/consolidated" component={Consolidated} />
+      <Route path="/trash" component={Trash} />
       <Route path="/settings" component={Settings} />
+      <Route path="/invite/:token" component={AcceptInvite} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -39,6 +53,10 @@ function UnauthenticatedRouter() {
       <Route path="/" component={Landing} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/invite/:token" component={AcceptInvite} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       {/* Redirect all other routes (protected routes) to login */}
       <Route path="/dashboard">
         <Redirect to="/login" />
@@ -46,6 +64,9 @@ function UnauthenticatedRouter() {
       <Route path="/transactions">
         <Redirect to="/login" />
       </Route>
+      <Route path="/accounts">
+        <Redirect to="/login" />
+      </Route>
       <Route path="/weekly-view">
         <Redirect to="/login" />
       </Route>
@@ -58,6 +79,12 @@ function UnauthenticatedRouter() {
       <Route path="/categories">
         <Redirect to="/login" />
       </Route>
+      <Route path="/consolidated">
+        <Redirect to="/login" />
+      </Route>
+      <Route path="/trash">
+        <Redirect to="/login" />
+      </Route>
       <Route path="/settings">
         <Redirect to="/login" />
       </Route>
@@ -96,6 +123,7 @@ function AppContent() {
             <div className="flex flex-col flex-1 overflow-hidden">
               <header className="flex items-center justify-between p-3 border-b bg-card">
                 <SidebarTrigger data-testid="button-sidebar-toggle" />
+                <NotificationBell />
               </header>
               <main className="flex-1 overflow-y-auto bg-background">
                 <AuthenticatedRouter />
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, Mail, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+const EMPTY_PASSWORDS = { currentPassword: "", newPassword: "", confirmPassword: "" };
+
+export function AccountSecurityCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [passwords, setPasswords] = useState(EMPTY_PASSWORDS);
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/resend-verification");
+    },
+    onSuccess: () => {
+      toast({ title: "Email enviado", description: `Enviamos um novo link de confirmação para ${user?.email}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível enviar o email."), variant: "destructive" });
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/change-password", {
+        currentPassword: passwords.currentPassword,
+        newPassword: passwords.newPassword,
+      });
+    },
+    onSuccess: () => {
+      setPasswords(EMPTY_PASSWORDS);
+      toast({ title: "Sucesso!", description: "Sua senha foi alterada." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível alterar a senha."), variant: "destructive" });
+    },
+  });
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      toast({ title: "Erro", description: "As senhas não coincidem.", variant: "destructive" });
+      return;
+    }
+    if (passwords.newPassword.length < 6) {
+      toast({ title: "Erro", description: "A senha deve ter no mínimo 6 caracteres.", variant: "destructive" });
+      return;
+    }
+
+    changePasswordMutation.mutate();
+  };
+
+  return (
+    <Card className="p-6" data-testid="card-account-security">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-semibold">Segurança</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg bg-muted/50">
+          <div className="flex items-center gap-3">
+            <Mail className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <p className="text-sm text-muted-foreground">Confirmação de email</p>
+              <p className="font-medium">{user?.email}</p>
+            </div>
+          </div>
+          {user?.emailVerifiedAt ? (
+            <Badge variant="secondary" data-testid="badge-email-verified">Confirmado</Badge>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" data-testid="badge-email-unverified">Não confirmado</Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resendMutation.mutate()}
+                disabled={resendMutation.isPending}
+                data-testid="button-resend-verification"
+              >
+                Reenviar link
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <form onSubmit={handleChangePassword} className="space-y-4">
+          <h3 className="font-semibold">Alterar senha</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Senha atual</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+                required
+                data-testid="input-current-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Nova senha</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+                required
+                data-testid="input-new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-new-password">Confirmar nova senha</Label>
+              <Input
+                id="confirm-new-password"
+                type="password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords({ ...passwords, confirmPassword: e.target.value })}
+                required
+                data-testid="input-confirm-new-password"
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={changePasswordMutation.isPending} data-testid="button-change-password">
+            {changePasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Alterar senha
+          </Button>
+        </form>
+      </div>
+    </Card>
+  );
+}
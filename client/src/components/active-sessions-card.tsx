@@ -0,0 +1,110 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+import type { UserSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { describeUserAgent } from "@/lib/userAgent";
+import { useToast } from "@/hooks/use-toast";
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString("pt-BR") : "-";
+}
+
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    retry: false,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Sessão encerrada", description: "O dispositivo precisará entrar novamente." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível encerrar a sessão."), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/sessions/revoke-others");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Sessões encerradas", description: "Todos os outros dispositivos foram desconectados." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível encerrar as sessões."), variant: "destructive" });
+    },
+  });
+
+  const hasOthers = (sessions ?? []).some((session) => !session.current);
+
+  return (
+    <Card className="p-6" data-testid="card-active-sessions">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Dispositivos conectados</h2>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={!hasOthers || revokeOthersMutation.isPending}
+          data-testid="button-revoke-other-sessions"
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Sair de todos os outros
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32" />
+      ) : (
+        <div className="space-y-3">
+          {(sessions ?? []).map((session) => (
+            <div
+              key={session.id}
+              className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+              data-testid={`row-session-${session.id}`}
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{describeUserAgent(session.userAgent)}</p>
+                  {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {session.ipAddress || "Endereço desconhecido"} · Último acesso {formatDateTime(session.lastSeenAt)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Conectado em {formatDateTime(session.createdAt)} · Expira em {formatDateTime(session.expiresAt)}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  Encerrar
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
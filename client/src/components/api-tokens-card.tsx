@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Code2, Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  API_TOKEN_RESOURCES,
+  type ApiTokenAccess,
+  type ApiTokenResource,
+  type ApiTokenScopes,
+  type ApiTokenSummary,
+  type CreatedApiToken,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+
+const resourceLabels: Record<ApiTokenResource, string> = {
+  transactions: "Transações",
+  categories: "Categorias",
+  accounts: "Contas e transferências",
+  budgets: "Orçamentos",
+  reports: "Relatórios",
+};
+
+const accessLabels: Record<ApiTokenAccess, string> = {
+  read: "Leitura",
+  write: "Leitura e escrita",
+};
+
+// "none" leaves the resource out of the token
+type AccessChoice = ApiTokenAccess | "none";
+
+const expirationOptions = [
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "365", label: "1 ano" },
+  { value: "never", label: "Nunca expira" },
+];
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString("pt-BR") : "-";
+}
+
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const { activeOrganization, canEdit } = useOrganization();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [expiration, setExpiration] = useState("90");
+  const [scopes, setScopes] = useState<ApiTokenScopes>({});
+  // Shown once after creation; the server only keeps a hash
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/api-tokens"],
+    retry: false,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setName("");
+    setExpiration("90");
+    setScopes({});
+    setCreatedToken(null);
+  };
+
+  const setResourceAccess = (resource: ApiTokenResource, choice: AccessChoice) => {
+    setScopes((current) => {
+      const { [resource]: _removed, ...rest } = current;
+      return choice === "none" ? rest : { ...rest, [resource]: choice };
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiration === "never" ? null : Number(expiration),
+      });
+      return res.json() as Promise<CreatedApiToken>;
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível criar o token."), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({ title: "Token revogado", description: "Os scripts que usavam este token perderam o acesso." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: apiErrorMessage(error, "Não foi possível revogar o token."), variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Token copiado", description: "Guarde-o em um lugar seguro." });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card className="p-6" data-testid="card-api-tokens">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-1">
+        <div className="flex items-center gap-2">
+          <Code2 className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Tokens de API</h2>
+        </div>
+        <Button onClick={() => setDialogOpen(true)} data-testid="button-new-api-token">
+          <Plus className="w-4 h-4 mr-2" />
+          Novo token
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Envie dados de scripts ou leve-os para ferramentas de BI pela API em <span className="font-mono">/api/v1</span>.
+        Envie o token no cabeçalho <span className="font-mono">Authorization: Bearer</span>.{" "}
+        <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline" data-testid="link-openapi">
+          Documentação (OpenAPI)
+        </a>
+      </p>
+
+      {isLoading ? (
+        <Skeleton className="h-24" />
+      ) : !tokens || tokens.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-api-tokens-empty">
+          Nenhum token criado.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+              data-testid={`row-api-token-${token.id}`}
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{token.name}</p>
+                  <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {API_TOKEN_RESOURCES.filter((resource) => token.scopes[resource]).map((resource) => (
+                    <Badge key={resource} variant={token.scopes[resource] === "write" ? "default" : "secondary"}>
+                      {resourceLabels[resource]}: {token.scopes[resource] === "write" ? "escrita" : "leitura"}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {token.organizationName} · Criado em {formatDate(token.createdAt)} · Último uso {formatDate(token.lastUsedAt)} ·{" "}
+                  {token.expiresAt ? `Expira em ${formatDate(token.expiresAt)}` : "Não expira"}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => revokeMutation.mutate(token.id)}
+                disabled={revokeMutation.isPending}
+                data-testid={`button-revoke-api-token-${token.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent data-testid="dialog-api-token">
+          <DialogHeader>
+            <DialogTitle>Novo token de API</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? "Copie o token agora. Ele não será mostrado de novo."
+                : `O token acessa a organização ${activeOrganization?.name ?? "ativa"} com as suas permissões, limitado aos recursos escolhidos.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdToken ? (
+            <>
+              <div className="rounded-lg bg-muted/50 p-4 font-mono text-sm break-all" data-testid="text-created-api-token">
+                {createdToken}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={copyToken} data-testid="button-copy-api-token">
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copiar
+                </Button>
+                <Button onClick={closeDialog} data-testid="button-close-api-token">
+                  Concluir
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Nome</Label>
+                <Input
+                  id="api-token-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Ex.: Script de despesas, Power BI"
+                  required
+                  data-testid="input-api-token-name"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Acesso</Label>
+                {API_TOKEN_RESOURCES.map((resource) => (
+                  <div key={resource} className="flex items-center justify-between gap-4">
+                    <span className="text-sm">{resourceLabels[resource]}</span>
+                    <Select
+                      value={scopes[resource] ?? "none"}
+                      onValueChange={(value) => setResourceAccess(resource, value as AccessChoice)}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-api-token-scope-${resource}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sem acesso</SelectItem>
+                        <SelectItem value="read">{accessLabels.read}</SelectItem>
+                        {canEdit && <SelectItem value="write">{accessLabels.write}</SelectItem>}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Validade</Label>
+                <Select value={expiration} onValueChange={setExpiration}>
+                  <SelectTrigger data-testid="select-api-token-expiration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expirationOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog} data-testid="button-cancel-api-token">
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || !name.trim() || Object.keys(scopes).length === 0}
+                  data-testid="button-create-api-token"
+                >
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Criar token
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
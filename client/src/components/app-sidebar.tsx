@@ -5,6 +5,9 @@ import {
   FolderKanban,
   Settings,
   Calendar,
+  Wallet,
+  Layers,
+  Trash2,
   LogOut
 } from "lucide-react";
 import {
@@ -20,8 +23,13 @@ import {
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization, workspaceKindLabels } from "@/hooks/useOrganization";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { FinancialAccountWithBalance } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+import { OrganizationSwitcher } from "@/components/organization-switcher";
 
 const menuItems = [
   {
@@ -36,6 +44,12 @@ const menuItems = [
     icon: Receipt,
     testId: "nav-transactions",
   },
+  {
+    title: "Contas",
+    url: "/accounts",
+    icon: Wallet,
+    testId: "nav-accounts",
+  },
   {
     title: "Visualização Semanal",
     url: "/weekly-view",
@@ -54,6 +68,18 @@ const menuItems = [
     icon: FolderKanban,
     testId: "nav-categories",
   },
+  {
+    title: "Visão Consolidada",
+    url: "/consolidated",
+    icon: Layers,
+    testId: "nav-consolidated",
+  },
+  {
+    title: "Lixeira",
+    url: "/trash",
+    icon: Trash2,
+    testId: "nav-trash",
+  },
   {
     title: "Configurações",
     url: "/settings",
@@ -64,8 +90,15 @@ const menuItems = [
 
 export function AppSidebar() {
   const { user } = useAuth();
+  const { activeOrganization } = useOrganization();
   const [location] = useLocation();
 
+  const { data: accounts } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+    retry: false,
+  });
+  const activeAccounts = accounts?.filter((a) => !a.isArchived) || [];
+
   const getInitials = () => {
     if (user?.firstName && user?.lastName) {
       return `${user.firstName[0]}${user.lastName[0]}`.toUpperCase();
@@ -88,6 +121,7 @@ export function AppSidebar() {
               </div>
             </div>
           </div>
+          <OrganizationSwitcher />
           
           <SidebarGroupLabel>Navegação</SidebarGroupLabel>
           <SidebarGroupContent>
@@ -109,6 +143,40 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {activeAccounts.length > 0 && (
+          <SidebarGroup data-testid="sidebar-accounts">
+            <SidebarGroupLabel>Saldos</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <div className="px-2 space-y-1">
+                {activeAccounts.map((account) => (
+                  <Link
+                    key={account.id}
+                    href="/accounts"
+                    className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-sm hover-elevate"
+                    data-testid={`sidebar-account-${account.id}`}
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: account.color || "#3B82F6" }} />
+                      <span className="truncate">{account.name}</span>
+                    </span>
+                    <span className={`font-medium tabular-nums ${account.currentBalance < 0 ? "text-destructive" : ""}`}>
+                      {formatCurrencyDisplay(account.currentBalance)}
+                    </span>
+                  </Link>
+                ))}
+                {activeAccounts.length > 1 && (
+                  <div className="flex items-center justify-between px-2 pt-2 border-t text-sm font-semibold" data-testid="sidebar-accounts-total">
+                    <span>Total</span>
+                    <span className="tabular-nums">
+                      {formatCurrencyDisplay(activeAccounts.reduce((sum, a) => sum + a.currentBalance, 0))}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter>
@@ -125,7 +193,7 @@ export function AppSidebar() {
                 {user?.firstName || user?.email || "Usuário"}
               </p>
               <p className="text-xs text-muted-foreground truncate" data-testid="text-account-type">
-                {user?.accountType === "business" ? "Empresarial" : "Pessoal"}
+                {activeOrganization ? workspaceKindLabels[activeOrganization.kind] : ""}
               </p>
             </div>
           </div>
@@ -0,0 +1,145 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History } from "lucide-react";
+import type { AuditLogWithUser, AuditAction, Category, FinancialAccountWithBalance } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+interface AuditHistorySheetProps {
+  // The transaction whose history is shown; closed when null
+  transactionId: string | null;
+  onClose: () => void;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Criada",
+  update: "Alterada",
+  delete: "Excluída",
+  restore: "Restaurada",
+};
+
+const fieldLabels: Record<string, string> = {
+  title: "Descrição",
+  amount: "Valor",
+  type: "Tipo",
+  status: "Status",
+  date: "Data",
+  categoryId: "Categoria",
+  accountId: "Conta",
+  notes: "Observações",
+};
+
+const valueLabels: Record<string, Record<string, string>> = {
+  type: { income: "Receita", expense: "Despesa" },
+  status: { paid: "Pago", unpaid: "Pendente" },
+};
+
+function userName(log: AuditLogWithUser): string {
+  if (!log.user) return log.route?.startsWith("job:") ? "Sistema" : "Usuário removido";
+  return [log.user.firstName, log.user.lastName].filter(Boolean).join(" ") || log.user.email;
+}
+
+export function AuditHistorySheet({ transactionId, onClose }: AuditHistorySheetProps) {
+  const { data: logs, isLoading } = useQuery<AuditLogWithUser[]>({
+    queryKey: [`/api/audit?entityType=transaction&entityId=${transactionId}`],
+    enabled: transactionId !== null,
+    retry: false,
+  });
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: transactionId !== null,
+    retry: false,
+  });
+
+  const { data: accounts } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+    enabled: transactionId !== null,
+    retry: false,
+  });
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    switch (field) {
+      case "amount":
+        return formatCurrencyDisplay(Number(value));
+      case "date":
+        return new Date(String(value)).toLocaleDateString("pt-BR");
+      case "categoryId":
+        return categories?.find(c => c.id === value)?.name || "Categoria removida";
+      case "accountId":
+        return accounts?.find(a => a.id === value)?.name || "Conta removida";
+      default:
+        return valueLabels[field]?.[String(value)] || String(value);
+    }
+  };
+
+  // Only the fields users edit; bookkeeping columns like updatedAt are left out
+  const changedFields = (log: AuditLogWithUser): string[] =>
+    Object.keys(fieldLabels).filter(field =>
+      JSON.stringify(log.before?.[field] ?? null) !== JSON.stringify(log.after?.[field] ?? null)
+    );
+
+  return (
+    <Sheet open={transactionId !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="overflow-y-auto" data-testid="sheet-audit-history">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Histórico
+          </SheetTitle>
+          <SheetDescription>Quem criou e alterou esta transação</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-20" />
+              <Skeleton className="h-20" />
+            </>
+          ) : !logs || logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-audit-empty">
+              Nenhuma alteração registrada
+            </p>
+          ) : (
+            logs.map((log) => {
+              const fields = log.action === "update" ? changedFields(log) : [];
+              return (
+                <div key={log.id} className="rounded-lg border p-3 space-y-2" data-testid={`audit-entry-${log.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant={log.action === "delete" ? "destructive" : "outline"}>
+                      {actionLabels[log.action]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(log.createdAt).toLocaleString("pt-BR")}
+                    </span>
+                  </div>
+                  <p className="text-sm">por <strong>{userName(log)}</strong></p>
+                  {fields.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {fields.map((field) => (
+                        <li key={field} data-testid={`audit-change-${log.id}-${field}`}>
+                          <span className="text-muted-foreground">{fieldLabels[field]}:</span>{" "}
+                          <span className="line-through text-muted-foreground">{formatValue(field, log.before?.[field])}</span>
+                          {" → "}
+                          <span>{formatValue(field, log.after?.[field])}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
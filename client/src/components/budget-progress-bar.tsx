@@ -0,0 +1,48 @@
+import { AlertTriangle } from "lucide-react";
+import type { BudgetProgress } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+interface BudgetProgressBarProps {
+  progress: BudgetProgress;
+  showLabel?: boolean;
+}
+
+export function BudgetProgressBar({ progress, showLabel = true }: BudgetProgressBarProps) {
+  const barColor = progress.isOverBudget
+    ? "bg-destructive"
+    : progress.isProjectedOverBudget
+      ? "bg-warning"
+      : "bg-primary";
+
+  return (
+    <div className="space-y-1" data-testid={`budget-progress-${progress.categoryId}`}>
+      {showLabel && (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">
+            {formatCurrencyDisplay(progress.spent)} de {formatCurrencyDisplay(progress.available)}
+          </span>
+          <span className={progress.isOverBudget ? "text-destructive font-semibold" : "text-muted-foreground"}>
+            {progress.usedPercent.toFixed(0)}%
+          </span>
+        </div>
+      )}
+      <div className="h-2 bg-muted rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${barColor}`}
+          style={{ width: `${Math.min(progress.usedPercent, 100)}%` }}
+        />
+      </div>
+      {progress.isOverBudget ? (
+        <p className="flex items-center gap-1 text-xs text-destructive" data-testid={`text-over-budget-${progress.categoryId}`}>
+          <AlertTriangle className="w-3 h-3" />
+          Orçamento estourado em {formatCurrencyDisplay(-progress.remaining)}
+        </p>
+      ) : progress.isProjectedOverBudget ? (
+        <p className="flex items-center gap-1 text-xs text-warning" data-testid={`text-projected-over-budget-${progress.categoryId}`}>
+          <AlertTriangle className="w-3 h-3" />
+          Projeção de {formatCurrencyDisplay(progress.projectedTotal)} até o fim do mês
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CheckCircle2, Circle, CalendarClock, Trash2, X } from "lucide-react";
+import type { BulkTransactionPatch, BulkTransactionResult, Category } from "@shared/schema";
+import { apiRequest, invalidateTransactionQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  categories: Category[];
+  onClear: () => void;
+}
+
+// Sentinel value of the "no category" entry in the select
+const NO_CATEGORY = "__none__";
+
+export function BulkActionBar({ selectedIds, categories, onClear }: BulkActionBarProps) {
+  const { toast } = useToast();
+  const [shiftOpen, setShiftOpen] = useState(false);
+  const [shiftDays, setShiftDays] = useState("1");
+
+  const bulkMutation = useMutation({
+    mutationFn: async (patch: Omit<BulkTransactionPatch, "ids">): Promise<BulkTransactionResult> => {
+      const res = await apiRequest("POST", "/api/transactions/bulk", { ...patch, ids: selectedIds });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      invalidateTransactionQueries();
+      toast({
+        title: "Sucesso!",
+        description: result.deleted > 0
+          ? `${result.deleted} transação(ões) movida(s) para a lixeira.`
+          : `${result.updated} transação(ões) atualizada(s).`,
+      });
+      setShiftOpen(false);
+      onClear();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível alterar as transações.", variant: "destructive" });
+    },
+  });
+
+  const handleShift = () => {
+    const days = parseInt(shiftDays);
+    if (!days) {
+      toast({ title: "Atenção", description: "Informe um número de dias diferente de zero.", variant: "destructive" });
+      return;
+    }
+    bulkMutation.mutate({ dateOffsetDays: days });
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Mover ${selectedIds.length} transação(ões) para a lixeira?`)) {
+      bulkMutation.mutate({ delete: true });
+    }
+  };
+
+  if (selectedIds.length === 0) return null;
+
+  return (
+    <Card className="p-3 flex flex-wrap items-center gap-2" data-testid="bulk-action-bar">
+      <span className="text-sm font-medium px-2" data-testid="text-selected-count">
+        {selectedIds.length} selecionada(s)
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => bulkMutation.mutate({ status: "paid" })}
+        disabled={bulkMutation.isPending}
+        data-testid="button-bulk-mark-paid"
+      >
+        <CheckCircle2 className="w-4 h-4 mr-2" />
+        Marcar como pago
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => bulkMutation.mutate({ status: "unpaid" })}
+        disabled={bulkMutation.isPending}
+        data-testid="button-bulk-mark-unpaid"
+      >
+        <Circle className="w-4 h-4 mr-2" />
+        Marcar como pendente
+      </Button>
+      <Select
+        value=""
+        onValueChange={(value) => bulkMutation.mutate({ categoryId: value === NO_CATEGORY ? null : value })}
+        disabled={bulkMutation.isPending}
+      >
+        <SelectTrigger className="w-[200px] h-9" data-testid="select-bulk-category">
+          <SelectValue placeholder="Alterar categoria" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.id} value={category.id}>
+              {category.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Popover open={shiftOpen} onOpenChange={setShiftOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" disabled={bulkMutation.isPending} data-testid="button-bulk-shift-date">
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Mover datas
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <p className="text-sm text-muted-foreground">Dias a somar (negativo para antecipar)</p>
+          <Input
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(e.target.value)}
+            data-testid="input-bulk-shift-days"
+          />
+          <Button size="sm" className="w-full" onClick={handleShift} disabled={bulkMutation.isPending} data-testid="button-bulk-shift-apply">
+            Aplicar
+          </Button>
+        </PopoverContent>
+      </Popover>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleDelete}
+        disabled={bulkMutation.isPending}
+        data-testid="button-bulk-delete"
+      >
+        <Trash2 className="w-4 h-4 mr-2 text-destructive" />
+        Excluir
+      </Button>
+      <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear} data-testid="button-bulk-clear">
+        <X className="w-4 h-4" />
+      </Button>
+    </Card>
+  );
+}
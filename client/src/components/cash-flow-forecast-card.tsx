@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ReferenceLine, ResponsiveContainer } from "recharts";
+import { AlertTriangle, TrendingUp } from "lucide-react";
+import type { CashFlowForecast } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+const HORIZONS = [3, 6, 12];
+
+// "2025-03-14" is a calendar day; parsed as local time so it does not shift a day back
+function parseDay(day: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function formatDay(day: string): string {
+  return parseDay(day).toLocaleDateString("pt-BR");
+}
+
+export function CashFlowForecastCard() {
+  const [months, setMonths] = useState(3);
+
+  const { data: forecast, isLoading } = useQuery<CashFlowForecast>({
+    queryKey: [`/api/reports/forecast?months=${months}`],
+    retry: false,
+  });
+
+  const chartData = forecast?.days.map((day) => ({
+    day: parseDay(day.date).toLocaleDateString("pt-BR", { day: "2-digit", month: "short" }),
+    balance: Number(day.balance.toFixed(2)),
+  })) || [];
+
+  return (
+    <Card className="p-6 space-y-4" data-testid="card-cash-flow-forecast">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Previsão de Saldo</h3>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={months.toString()}
+          onValueChange={(value) => value && setMonths(parseInt(value))}
+          data-testid="toggle-forecast-months"
+        >
+          {HORIZONS.map((horizon) => (
+            <ToggleGroupItem key={horizon} value={horizon.toString()} data-testid={`toggle-forecast-${horizon}`}>
+              {horizon} meses
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {isLoading || !forecast ? (
+        <Skeleton className="h-64" />
+      ) : (
+        <>
+          {forecast.firstNegativeDate && (
+            <Alert variant="destructive" data-testid="alert-forecast-negative">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Saldo negativo previsto</AlertTitle>
+              <AlertDescription>
+                O saldo deve ficar negativo em {formatDay(forecast.firstNegativeDate)} e chegar a{" "}
+                {formatCurrencyDisplay(forecast.lowestBalance)} em {formatDay(forecast.lowestBalanceDate)}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Saldo atual</p>
+              <h3 className="text-2xl font-bold mt-1" data-testid="text-forecast-start">
+                {formatCurrencyDisplay(forecast.startingBalance)}
+              </h3>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Saldo em {formatDay(forecast.endDate)}</p>
+              <h3
+                className={`text-2xl font-bold mt-1 ${forecast.endingBalance >= 0 ? "text-success" : "text-destructive"}`}
+                data-testid="text-forecast-end"
+              >
+                {formatCurrencyDisplay(forecast.endingBalance)}
+              </h3>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Menor saldo</p>
+              <h3 className="text-2xl font-bold mt-1" data-testid="text-forecast-lowest">
+                {formatCurrencyDisplay(forecast.lowestBalance)}
+              </h3>
+              <p className="text-xs text-muted-foreground">{formatDay(forecast.lowestBalanceDate)}</p>
+            </div>
+          </div>
+
+          <div className="h-64">
+            <ChartContainer config={{}}>
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
+                  <XAxis dataKey="day" fontSize={12} minTickGap={24} />
+                  <YAxis fontSize={12} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  <Area
+                    type="stepAfter"
+                    dataKey="balance"
+                    name="Saldo previsto"
+                    stroke="hsl(var(--primary))"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.15}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </div>
+
+          <p className="text-xs text-muted-foreground" data-testid="text-forecast-sources">
+            Considera contas a pagar e a receber ({formatCurrencyDisplay(forecast.sources.unpaidExpenses)} /{" "}
+            {formatCurrencyDisplay(forecast.sources.unpaidIncome)}), lançamentos recorrentes futuros (
+            {formatCurrencyDisplay(forecast.sources.recurringExpenses)} /{" "}
+            {formatCurrencyDisplay(forecast.sources.recurringIncome)}) e a receita prevista dos próximos meses (
+            {formatCurrencyDisplay(forecast.sources.expectedRevenue)}).
+          </p>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Pencil, Trash2, Wand2, ArrowRight } from "lucide-react";
+import type { Category, CategoryRule } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrencyInput, parseCurrencyInput, formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+interface CategoryRulesCardProps {
+  categories: Category[];
+}
+
+interface RuleFormState {
+  titleContains: string;
+  minAmount: string;
+  maxAmount: string;
+  type: "any" | "expense" | "income";
+  categoryId: string;
+  priority: string;
+}
+
+const emptyForm: RuleFormState = {
+  titleContains: "",
+  minAmount: "",
+  maxAmount: "",
+  type: "any",
+  categoryId: "",
+  priority: "0",
+};
+
+// The currency input works in whole reais ("1.500.00" is R$ 1.500)
+const toInputValue = (amount: string | null) =>
+  amount === null ? "" : formatCurrencyInput(Math.round(Number(amount)).toString());
+
+function describeRule(rule: CategoryRule): string {
+  const conditions: string[] = [];
+  if (rule.titleContains) conditions.push(`título contém "${rule.titleContains}"`);
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    conditions.push(`valor entre ${formatCurrencyDisplay(Number(rule.minAmount))} e ${formatCurrencyDisplay(Number(rule.maxAmount))}`);
+  } else if (rule.minAmount !== null) {
+    conditions.push(`valor a partir de ${formatCurrencyDisplay(Number(rule.minAmount))}`);
+  } else if (rule.maxAmount !== null) {
+    conditions.push(`valor até ${formatCurrencyDisplay(Number(rule.maxAmount))}`);
+  }
+  if (rule.type) conditions.push(rule.type === "income" ? "receitas" : "despesas");
+  return conditions.join(" e ");
+}
+
+export function CategoryRulesCard({ categories }: CategoryRulesCardProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategoryRule | null>(null);
+  const [formState, setFormState] = useState<RuleFormState>(emptyForm);
+
+  const { data: rules } = useQuery<CategoryRule[]>({
+    queryKey: ["/api/category-rules"],
+    retry: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) => {
+      if (id) {
+        await apiRequest("PATCH", `/api/category-rules/${id}`, data);
+      } else {
+        await apiRequest("POST", "/api/category-rules", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+      toast({ title: "Sucesso!", description: "Regra salva com sucesso." });
+      handleClose();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar a regra.", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/category-rules/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível atualizar a regra.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/category-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+      toast({ title: "Sucesso!", description: "Regra excluída com sucesso." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível excluir a regra.", variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    setOpen(false);
+    setEditingRule(null);
+    setFormState(emptyForm);
+  };
+
+  const handleNew = () => {
+    setEditingRule(null);
+    setFormState(emptyForm);
+    setOpen(true);
+  };
+
+  const handleEdit = (rule: CategoryRule) => {
+    setEditingRule(rule);
+    setFormState({
+      titleContains: rule.titleContains || "",
+      minAmount: toInputValue(rule.minAmount),
+      maxAmount: toInputValue(rule.maxAmount),
+      type: rule.type || "any",
+      categoryId: rule.categoryId,
+      priority: rule.priority.toString(),
+    });
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    const minAmount = formState.minAmount ? parseCurrencyInput(formState.minAmount) : null;
+    const maxAmount = formState.maxAmount ? parseCurrencyInput(formState.maxAmount) : null;
+
+    if (!formState.categoryId) {
+      toast({ title: "Atenção", description: "Selecione a categoria da regra.", variant: "destructive" });
+      return;
+    }
+    if (!formState.titleContains.trim() && minAmount === null && maxAmount === null) {
+      toast({ title: "Atenção", description: "Informe um texto ou uma faixa de valor.", variant: "destructive" });
+      return;
+    }
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      toast({ title: "Atenção", description: "O valor mínimo deve ser menor que o máximo.", variant: "destructive" });
+      return;
+    }
+
+    saveMutation.mutate({
+      id: editingRule?.id,
+      data: {
+        titleContains: formState.titleContains.trim() || null,
+        minAmount,
+        maxAmount,
+        type: formState.type === "any" ? null : formState.type,
+        categoryId: formState.categoryId,
+        priority: parseInt(formState.priority) || 0,
+      },
+    });
+  };
+
+  const categoryById = (id: string) => categories.find((c) => c.id === id);
+
+  return (
+    <Card className="p-6" data-testid="card-category-rules">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold">Regras de Categorização</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Transações sem categoria recebem a primeira regra que combinar; sem regra, usamos seu histórico
+          </p>
+        </div>
+        <Button size="sm" onClick={handleNew} data-testid="button-add-rule">
+          <Plus className="w-4 h-4 mr-2" />
+          Nova Regra
+        </Button>
+      </div>
+
+      {!rules || rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6" data-testid="text-no-rules">
+          Nenhuma regra criada. Ex: título contém "UBER" → Transporte
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => {
+            const category = categoryById(rule.categoryId);
+            return (
+              <div
+                key={rule.id}
+                className={`flex items-center gap-3 rounded-lg border p-3 ${rule.isActive ? "" : "opacity-60"}`}
+                data-testid={`row-rule-${rule.id}`}
+              >
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                  data-testid={`switch-rule-active-${rule.id}`}
+                />
+                <div className="flex-1 min-w-0 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="truncate">{describeRule(rule)}</span>
+                  <ArrowRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <Badge
+                    variant="outline"
+                    style={{ borderColor: category?.color || undefined, color: category?.color || undefined }}
+                  >
+                    {category?.name || "Categoria removida"}
+                  </Badge>
+                  {rule.priority !== 0 && (
+                    <span className="text-xs text-muted-foreground">prioridade {rule.priority}</span>
+                  )}
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleEdit(rule)} data-testid={`button-edit-rule-${rule.id}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm("Tem certeza que deseja excluir esta regra?")) {
+                      deleteMutation.mutate(rule.id);
+                    }
+                  }}
+                  data-testid={`button-delete-rule-${rule.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-rule">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Editar" : "Nova"} Regra</DialogTitle>
+            <DialogDescription>
+              Preencha uma ou mais condições; todas precisam combinar
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-title">Título contém</Label>
+              <Input
+                id="rule-title"
+                placeholder="Ex: UBER, NETFLIX, POSTO"
+                value={formState.titleContains}
+                onChange={(e) => setFormState({ ...formState, titleContains: e.target.value })}
+                data-testid="input-rule-title"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Valor mínimo (R$)</Label>
+                <Input
+                  id="rule-min"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Opcional"
+                  value={formState.minAmount}
+                  onChange={(e) => setFormState({ ...formState, minAmount: formatCurrencyInput(e.target.value) })}
+                  data-testid="input-rule-min-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Valor máximo (R$)</Label>
+                <Input
+                  id="rule-max"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Opcional"
+                  value={formState.maxAmount}
+                  onChange={(e) => setFormState({ ...formState, maxAmount: formatCurrencyInput(e.target.value) })}
+                  data-testid="input-rule-max-amount"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Aplicar a</Label>
+                <Select
+                  value={formState.type}
+                  onValueChange={(type) => setFormState({ ...formState, type: type as RuleFormState["type"] })}
+                >
+                  <SelectTrigger data-testid="select-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Despesas e receitas</SelectItem>
+                    <SelectItem value="expense">Despesas</SelectItem>
+                    <SelectItem value="income">Receitas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Prioridade</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={formState.priority}
+                  onChange={(e) => setFormState({ ...formState, priority: e.target.value })}
+                  data-testid="input-rule-priority"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select
+                value={formState.categoryId}
+                onValueChange={(categoryId) => setFormState({ ...formState, categoryId })}
+              >
+                <SelectTrigger data-testid="select-rule-category">
+                  <SelectValue placeholder="Selecione uma categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Regras com prioridade menor são testadas primeiro</p>
+            </div>
+            <div className="flex justify-end gap-3 pt-2">
+              <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel-rule">
+                Cancelar
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-rule">
+                {saveMutation.isPending ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
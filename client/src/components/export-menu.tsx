@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileSpreadsheet, FileText, FileDown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const FORMATS = [
+  { value: "csv", label: "CSV", icon: FileDown },
+  { value: "xlsx", label: "Excel (XLSX)", icon: FileSpreadsheet },
+  { value: "pdf", label: "PDF para impressão", icon: FileText },
+] as const;
+
+interface ExportMenuProps {
+  // Export endpoint including its query string, e.g. /api/exports/transactions?status=paid
+  url: string;
+}
+
+function filenameFromResponse(res: Response, fallback: string): string {
+  const disposition = res.headers.get("Content-Disposition") || "";
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+export function ExportMenu({ url }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: string) => {
+    setIsExporting(true);
+    try {
+      const separator = url.includes("?") ? "&" : "?";
+      const res = await fetch(`${url}${separator}format=${format}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+
+      const blob = await res.blob();
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = filenameFromResponse(res, `exportacao.${format}`);
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({ title: "Erro", description: "Não foi possível gerar o arquivo.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting} data-testid="button-export">
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? "Gerando..." : "Exportar"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ value, label, icon: Icon }) => (
+          <DropdownMenuItem
+            key={value}
+            onClick={() => handleExport(value)}
+            data-testid={`button-export-${value}`}
+          >
+            <Icon className="w-4 h-4 mr-2" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,510 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload, Save, ArrowLeft } from "lucide-react";
+import type {
+  Category,
+  CsvMapping,
+  FinancialAccountWithBalance,
+  ImportMapping,
+  ImportPreview,
+  ParsedStatementRow,
+} from "@shared/schema";
+import { apiRequest, queryClient, invalidateTransactionQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+// Common layouts of Brazilian bank exports; users can tweak and save their own
+const BANK_PRESETS: { id: string; name: string; mapping: CsvMapping }[] = [
+  {
+    id: "nubank-card",
+    name: "Nubank - Cartão",
+    mapping: { delimiter: ",", hasHeader: true, dateColumn: 0, titleColumn: 1, amountColumn: 2, dateFormat: "yyyy-MM-dd", decimalSeparator: ".", amountSign: "positive_is_expense" },
+  },
+  {
+    id: "nubank-account",
+    name: "Nubank - Conta",
+    mapping: { delimiter: ",", hasHeader: true, dateColumn: 0, titleColumn: 3, amountColumn: 1, dateFormat: "dd/MM/yyyy", decimalSeparator: ".", amountSign: "negative_is_expense" },
+  },
+  {
+    id: "itau",
+    name: "Itaú",
+    mapping: { delimiter: ";", hasHeader: false, dateColumn: 0, titleColumn: 1, amountColumn: 2, dateFormat: "dd/MM/yyyy", decimalSeparator: ",", amountSign: "negative_is_expense" },
+  },
+  {
+    id: "bradesco",
+    name: "Bradesco",
+    mapping: { delimiter: ";", hasHeader: true, dateColumn: 0, titleColumn: 1, amountColumn: 3, dateFormat: "dd/MM/yyyy", decimalSeparator: ",", amountSign: "negative_is_expense" },
+  },
+];
+
+interface ImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface RowSelection {
+  selected: boolean;
+  categoryId: string;
+}
+
+export function ImportWizard({ open, onClose }: ImportWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<"upload" | "preview">("upload");
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [format, setFormat] = useState<"ofx" | "csv">("csv");
+  const [mappingSource, setMappingSource] = useState<string>(BANK_PRESETS[0].id);
+  const [mapping, setMapping] = useState<CsvMapping>(BANK_PRESETS[0].mapping);
+  const [mappingName, setMappingName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selection, setSelection] = useState<Record<number, RowSelection>>({});
+  const [accountId, setAccountId] = useState("");
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    retry: false,
+  });
+
+  const { data: accounts } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+    retry: false,
+  });
+  const activeAccounts = accounts?.filter((a) => !a.isArchived) || [];
+  // Statements usually come from one account; the first one is preselected
+  const selectedAccountId = accountId || activeAccounts[0]?.id || "";
+
+  const { data: savedMappings } = useQuery<ImportMapping[]>({
+    queryKey: ["/api/imports/mappings"],
+    retry: false,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/imports/preview", {
+        format,
+        content,
+        mapping: format === "csv" ? mapping : undefined,
+      });
+      return (await res.json()) as ImportPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setSelection(Object.fromEntries(
+        data.rows.map((row) => [row.index, { selected: !row.duplicateOfId, categoryId: "" }])
+      ));
+      setStep("preview");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível ler o extrato.", variant: "destructive" });
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/imports/mappings", { ...mapping, name: mappingName });
+      return (await res.json()) as ImportMapping;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports/mappings"] });
+      setMappingSource(saved.id);
+      setMappingName("");
+      toast({ title: "Sucesso!", description: "Mapeamento salvo para as próximas importações." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar o mapeamento.", variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async (rows: ParsedStatementRow[]) => {
+      const res = await apiRequest("POST", "/api/imports/commit", {
+        accountId: selectedAccountId,
+        rows: rows.map((row) => ({
+          date: row.date,
+          title: row.title,
+          amount: row.amount,
+          type: row.type,
+          categoryId: selection[row.index]?.categoryId || null,
+          status: "paid",
+        })),
+      });
+      return (await res.json()) as { createdCount: number };
+    },
+    onSuccess: (result) => {
+      invalidateTransactionQueries();
+      toast({ title: "Sucesso!", description: `${result.createdCount} transação(ões) importada(s).` });
+      handleClose();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível importar as transações.", variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    setStep("upload");
+    setFileName("");
+    setContent("");
+    setPreview(null);
+    setSelection({});
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".ofx") ? "ofx" : "csv");
+    setContent(await file.text());
+  };
+
+  const handleMappingSource = (value: string) => {
+    setMappingSource(value);
+    const preset = BANK_PRESETS.find((p) => p.id === value);
+    const saved = savedMappings?.find((m) => m.id === value);
+    if (preset) {
+      setMapping(preset.mapping);
+    } else if (saved) {
+      const { id: _, userId: __, name: ___, createdAt: ____, ...savedMapping } = saved;
+      setMapping(savedMapping);
+    }
+  };
+
+  const updateMapping = (patch: Partial<CsvMapping>) => {
+    setMapping({ ...mapping, ...patch });
+    setMappingSource("custom");
+  };
+
+  const updateRow = (index: number, patch: Partial<RowSelection>) => {
+    setSelection({ ...selection, [index]: { ...selection[index], ...patch } });
+  };
+
+  // First line of the file, to help the user pick column numbers
+  const detectedColumns = format === "csv" && content
+    ? content.split(/\r?\n/)[0].split(mapping.delimiter).map((c) => c.replace(/"/g, "").trim())
+    : [];
+
+  const selectedRows = preview?.rows.filter((row) => selection[row.index]?.selected) || [];
+  const duplicateCount = preview?.rows.filter((row) => row.duplicateOfId).length || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-import">
+        <DialogHeader>
+          <DialogTitle>Importar Extrato</DialogTitle>
+          <DialogDescription>
+            {step === "upload"
+              ? "Envie um arquivo OFX ou CSV exportado do seu banco"
+              : "Revise as transações encontradas antes de importar"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" ? (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Arquivo</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".ofx,.csv,.txt"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                data-testid="input-import-file"
+              />
+              {fileName && (
+                <p className="text-sm text-muted-foreground">
+                  {fileName} · formato {format.toUpperCase()}
+                </p>
+              )}
+            </div>
+
+            {format === "csv" && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="space-y-2">
+                  <Label>Layout do banco</Label>
+                  <Select value={mappingSource} onValueChange={handleMappingSource}>
+                    <SelectTrigger data-testid="select-import-mapping">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BANK_PRESETS.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                      ))}
+                      {savedMappings?.map((saved) => (
+                        <SelectItem key={saved.id} value={saved.id}>{saved.name} (salvo)</SelectItem>
+                      ))}
+                      <SelectItem value="custom">Personalizado</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {detectedColumns.length > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-detected-columns">
+                    Colunas na primeira linha: {detectedColumns.map((c, i) => `${i}: ${c}`).join(" · ")}
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label>Coluna da data</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={mapping.dateColumn}
+                      onChange={(e) => updateMapping({ dateColumn: Number(e.target.value) })}
+                      data-testid="input-date-column"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Coluna da descrição</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={mapping.titleColumn}
+                      onChange={(e) => updateMapping({ titleColumn: Number(e.target.value) })}
+                      data-testid="input-title-column"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Coluna do valor</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={mapping.amountColumn}
+                      onChange={(e) => updateMapping({ amountColumn: Number(e.target.value) })}
+                      data-testid="input-amount-column"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Separador</Label>
+                    <Select value={mapping.delimiter} onValueChange={(delimiter) => updateMapping({ delimiter })}>
+                      <SelectTrigger data-testid="select-delimiter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=",">Vírgula (,)</SelectItem>
+                        <SelectItem value=";">Ponto e vírgula (;)</SelectItem>
+                        <SelectItem value={"\t"}>Tabulação</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Formato da data</Label>
+                    <Select
+                      value={mapping.dateFormat}
+                      onValueChange={(dateFormat) => updateMapping({ dateFormat: dateFormat as CsvMapping["dateFormat"] })}
+                    >
+                      <SelectTrigger data-testid="select-date-format">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="dd/MM/yyyy">dd/mm/aaaa</SelectItem>
+                        <SelectItem value="yyyy-MM-dd">aaaa-mm-dd</SelectItem>
+                        <SelectItem value="MM/dd/yyyy">mm/dd/aaaa</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Decimal</Label>
+                    <Select
+                      value={mapping.decimalSeparator}
+                      onValueChange={(decimalSeparator) => updateMapping({ decimalSeparator: decimalSeparator as CsvMapping["decimalSeparator"] })}
+                    >
+                      <SelectTrigger data-testid="select-decimal-separator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=",">1.234,56</SelectItem>
+                        <SelectItem value=".">1,234.56</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label>Sinal dos valores</Label>
+                    <Select
+                      value={mapping.amountSign}
+                      onValueChange={(amountSign) => updateMapping({ amountSign: amountSign as CsvMapping["amountSign"] })}
+                    >
+                      <SelectTrigger data-testid="select-amount-sign">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="negative_is_expense">Negativo é despesa (conta corrente)</SelectItem>
+                        <SelectItem value="positive_is_expense">Positivo é despesa (fatura de cartão)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="import-has-header"
+                    checked={mapping.hasHeader}
+                    onCheckedChange={(hasHeader) => updateMapping({ hasHeader })}
+                    data-testid="switch-has-header"
+                  />
+                  <Label htmlFor="import-has-header">Primeira linha é cabeçalho</Label>
+                </div>
+
+                {mappingSource === "custom" && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Nome do mapeamento (ex: Banco X - Conta)"
+                      value={mappingName}
+                      onChange={(e) => setMappingName(e.target.value)}
+                      data-testid="input-mapping-name"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={!mappingName.trim() || saveMappingMutation.isPending}
+                      onClick={() => saveMappingMutation.mutate()}
+                      data-testid="button-save-mapping"
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      Salvar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel-import">
+                Cancelar
+              </Button>
+              <Button
+                type="button"
+                disabled={!content || previewMutation.isPending}
+                onClick={() => previewMutation.mutate()}
+                data-testid="button-preview-import"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {previewMutation.isPending ? "Lendo..." : "Pré-visualizar"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Label htmlFor="import-account">Conta</Label>
+              <Select value={selectedAccountId} onValueChange={setAccountId}>
+                <SelectTrigger id="import-account" className="w-60" data-testid="select-import-account">
+                  <SelectValue placeholder="Selecione uma conta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview?.rows.length || 0} encontradas</Badge>
+              {duplicateCount > 0 && (
+                <Badge variant="secondary" data-testid="badge-duplicates">{duplicateCount} possíveis duplicadas</Badge>
+              )}
+              {(preview?.skippedLines || 0) > 0 && (
+                <Badge variant="secondary">{preview?.skippedLines} linhas ignoradas</Badge>
+              )}
+            </div>
+
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Valor</TableHead>
+                    <TableHead>Categoria</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview?.rows.map((row) => (
+                    <TableRow key={row.index} data-testid={`row-import-${row.index}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selection[row.index]?.selected ?? false}
+                          onCheckedChange={(checked) => updateRow(row.index, { selected: checked === true })}
+                          data-testid={`checkbox-import-${row.index}`}
+                        />
+                      </TableCell>
+                      <TableCell>{row.date.split("-").reverse().join("/")}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="truncate max-w-[220px]">{row.title}</span>
+                          {row.duplicateOfId && <Badge variant="secondary">Duplicada</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className={row.type === "income" ? "text-success font-medium" : "font-medium"}>
+                        {row.type === "income" ? "+ " : "- "}
+                        {formatCurrencyDisplay(row.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={selection[row.index]?.categoryId || ""}
+                          onValueChange={(categoryId) => updateRow(row.index, { categoryId })}
+                        >
+                          <SelectTrigger className="h-8 w-40" data-testid={`select-import-category-${row.index}`}>
+                            <SelectValue placeholder="Automática" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories?.map((cat) => (
+                              <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between gap-3">
+              <Button type="button" variant="outline" onClick={() => setStep("upload")} data-testid="button-back-import">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Voltar
+              </Button>
+              <Button
+                type="button"
+                disabled={selectedRows.length === 0 || !selectedAccountId || commitMutation.isPending}
+                onClick={() => commitMutation.mutate(selectedRows)}
+                data-testid="button-commit-import"
+              >
+                {commitMutation.isPending ? "Importando..." : `Importar ${selectedRows.length} transação(ões)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
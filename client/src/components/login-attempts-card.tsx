@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History } from "lucide-react";
+import type { LoginAttempt, LoginAttemptResult } from "@shared/schema";
+import { describeUserAgent } from "@/lib/userAgent";
+
+const resultLabels: Record<LoginAttemptResult, string> = {
+  success: "Entrou",
+  invalid_password: "Senha incorreta",
+  invalid_code: "Código incorreto",
+  blocked: "Bloqueada",
+};
+
+export function LoginAttemptsCard() {
+  const { data: attempts, isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/auth/login-attempts"],
+    retry: false,
+  });
+
+  return (
+    <Card className="p-6" data-testid="card-login-attempts">
+      <div className="flex items-center gap-2 mb-1">
+        <History className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-semibold">Tentativas de login</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Últimas tentativas de entrar na sua conta. Se alguma não foi você, altere sua senha e ative a autenticação em dois fatores.
+      </p>
+
+      {isLoading ? (
+        <Skeleton className="h-40" />
+      ) : !attempts || attempts.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-login-attempts-empty">
+          Nenhuma tentativa registrada.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Resultado</TableHead>
+              <TableHead>Endereço IP</TableHead>
+              <TableHead>Dispositivo</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {attempts.map((attempt) => (
+              <TableRow key={attempt.id} data-testid={`row-login-attempt-${attempt.id}`}>
+                <TableCell>{new Date(attempt.createdAt).toLocaleString("pt-BR")}</TableCell>
+                <TableCell>
+                  <Badge variant={attempt.result === "success" ? "secondary" : "destructive"}>
+                    {resultLabels[attempt.result]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{attempt.ipAddress || "-"}</TableCell>
+                <TableCell className="text-muted-foreground">{describeUserAgent(attempt.userAgent)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
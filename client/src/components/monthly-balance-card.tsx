@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Landmark, Pencil } from "lucide-react";
+import type { MonthlyFinancialSummary } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrencyInput, parseCurrencyInput, formatCurrencyDisplay } from "@/lib/formatCurrency";
+import { z } from "zod";
+
+const formSchema = z.object({
+  monthlyRevenue: z.string(),
+  openingBalance: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface MonthlyBalanceCardProps {
+  year: number;
+  month: number;
+}
+
+export function MonthlyBalanceCard({ year, month }: MonthlyBalanceCardProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const { data: summary, isLoading } = useQuery<MonthlyFinancialSummary>({
+    queryKey: [`/api/monthly-financials/${year}/${month}`],
+    retry: false,
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      monthlyRevenue: "",
+      openingBalance: "",
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("PUT", `/api/monthly-financials/${year}/${month}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/monthly-financials'))
+      });
+      toast({ title: "Sucesso!", description: "Dados do mês atualizados com sucesso." });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível atualizar os dados do mês.", variant: "destructive" });
+    },
+  });
+
+  const toInputValue = (value: number) => formatCurrencyInput(Math.round(value * 100).toString());
+
+  const handleOpen = () => {
+    form.reset({
+      monthlyRevenue: summary?.monthlyRevenue ? toInputValue(summary.monthlyRevenue) : "",
+      openingBalance: summary?.isBalanceManual ? toInputValue(summary.openingBalance) : "",
+    });
+    setOpen(true);
+  };
+
+  const handleSubmit = (values: FormValues) => {
+    updateMutation.mutate({
+      monthlyRevenue: values.monthlyRevenue ? parseCurrencyInput(values.monthlyRevenue) : 0,
+      accumulatedBalance: values.openingBalance ? parseCurrencyInput(values.openingBalance) : null,
+    });
+  };
+
+  if (isLoading || !summary) {
+    return <Skeleton className="h-40" />;
+  }
+
+  return (
+    <Card className="p-6" data-testid="card-monthly-balance">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Landmark className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Saldo do Mês</h3>
+          {summary.isBalanceManual && (
+            <Badge variant="outline" className="text-xs">Saldo inicial manual</Badge>
+          )}
+        </div>
+        <Button size="sm" variant="ghost" onClick={handleOpen} data-testid="button-edit-monthly-balance">
+          <Pencil className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div>
+          <p className="text-sm text-muted-foreground">Saldo inicial</p>
+          <p className="text-xl font-bold mt-1" data-testid="text-opening-balance">
+            {formatCurrencyDisplay(summary.openingBalance)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Receita</p>
+          <p className="text-xl font-bold mt-1 text-success" data-testid="text-monthly-revenue">
+            {formatCurrencyDisplay(summary.totalRevenue)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Gastos</p>
+          <p className="text-xl font-bold mt-1 text-destructive" data-testid="text-monthly-spend">
+            {formatCurrencyDisplay(summary.totalExpenses)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Saldo final</p>
+          <p
+            className={`text-xl font-bold mt-1 ${summary.closingBalance >= 0 ? "text-success" : "text-destructive"}`}
+            data-testid="text-closing-balance"
+          >
+            {formatCurrencyDisplay(summary.closingBalance)}
+          </p>
+        </div>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-monthly-balance">
+          <DialogHeader>
+            <DialogTitle>Dados do Mês</DialogTitle>
+            <DialogDescription>
+              Informe a receita prevista e, se necessário, corrija o saldo inicial do mês
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="monthlyRevenue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Receita do mês (R$)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        placeholder="46.000.00"
+                        value={field.value}
+                        onChange={(e) => field.onChange(formatCurrencyInput(e.target.value))}
+                        data-testid="input-monthly-revenue"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Somada às receitas lançadas como transações
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="openingBalance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Saldo inicial (R$)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        placeholder="Automático"
+                        value={field.value}
+                        onChange={(e) => field.onChange(formatCurrencyInput(e.target.value))}
+                        data-testid="input-opening-balance"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Deixe vazio para transportar o saldo do mês anterior
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={() => setOpen(false)} data-testid="button-cancel">
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-monthly-balance">
+                  {updateMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
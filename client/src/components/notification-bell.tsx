@@ -0,0 +1,197 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bell, AlertTriangle, CalendarClock, CheckCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+import {
+  DEFAULT_REMINDER_DAYS,
+  type NotificationList,
+  type NotificationPreferences,
+  type NotificationWithBill,
+  type UpdateNotificationPreferences,
+} from "@shared/schema";
+
+// New bills are picked up by the server on every check
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+const REMINDER_DAY_OPTIONS = [0, 1, 3, 5, 7, 15, 30];
+
+function reminderDaysLabel(days: number): string {
+  if (days === 0) return "No dia do vencimento";
+  return days === 1 ? "1 dia antes" : `${days} dias antes`;
+}
+
+function invalidateNotifications() {
+  return queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+}
+
+function NotificationItem({ notification, onRead }: { notification: NotificationWithBill; onRead: (id: string) => void }) {
+  const isOverdue = notification.kind === "bill_overdue";
+  const dueDate = new Date(notification.dueDate).toLocaleDateString("pt-BR");
+  const Icon = isOverdue ? AlertTriangle : CalendarClock;
+
+  return (
+    <button
+      type="button"
+      className={`flex w-full gap-3 rounded-md p-2 text-left hover-elevate ${notification.readAt ? "opacity-60" : ""}`}
+      onClick={() => !notification.readAt && onRead(notification.id)}
+      data-testid={`notification-${notification.id}`}
+    >
+      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${isOverdue ? "text-destructive" : "text-warning"}`} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{notification.transaction.title}</p>
+        <p className={`text-xs ${isOverdue ? "text-destructive" : "text-muted-foreground"}`}>
+          {isOverdue ? `Venceu em ${dueDate}` : `Vence em ${dueDate}`} ·{" "}
+          {formatCurrencyDisplay(parseFloat(notification.transaction.amount) || 0)}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{notification.organization.name}</p>
+      </div>
+      {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+    </button>
+  );
+}
+
+export function NotificationBell() {
+  const { toast } = useToast();
+
+  const { data: notifications } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => invalidateNotifications(),
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => invalidateNotifications(),
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível marcar as notificações como lidas.", variant: "destructive" });
+    },
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (data: UpdateNotificationPreferences) => {
+      const res = await apiRequest("PUT", "/api/notifications/preferences", data);
+      return res.json();
+    },
+    onSuccess: (updated: NotificationPreferences) => {
+      queryClient.setQueryData(["/api/notifications/preferences"], updated);
+      // A longer reminder window can bring in bills right away
+      invalidateNotifications();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar as preferências.", variant: "destructive" });
+    },
+  });
+
+  const unreadCount = notifications?.unreadCount ?? 0;
+  const items = notifications?.items ?? [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-5 min-w-5 px-1 justify-center text-xs"
+              data-testid="badge-notifications-unread"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between gap-2 p-3">
+          <h4 className="font-semibold">Contas a vencer</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadCount === 0 || readAllMutation.isPending}
+            onClick={() => readAllMutation.mutate()}
+            data-testid="button-notifications-read-all"
+          >
+            <CheckCheck className="w-4 h-4 mr-2" />
+            Marcar todas como lidas
+          </Button>
+        </div>
+        <Separator />
+
+        {items.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground" data-testid="text-notifications-empty">
+            Nenhuma conta vencida ou a vencer.
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto p-1">
+            {items.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onRead={(id) => readMutation.mutate(id)}
+              />
+            ))}
+          </div>
+        )}
+
+        <Separator />
+        <div className="space-y-3 p-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="select-reminder-days" className="text-sm">Avisar</Label>
+            <Select
+              value={(preferences?.reminderDays ?? DEFAULT_REMINDER_DAYS).toString()}
+              onValueChange={(value) => preferencesMutation.mutate({ reminderDays: parseInt(value) })}
+              disabled={!preferences || preferencesMutation.isPending}
+            >
+              <SelectTrigger id="select-reminder-days" className="w-48" data-testid="select-reminder-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_DAY_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={days.toString()}>
+                    {reminderDaysLabel(days)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="switch-email-digest" className="text-sm">Resumo diário por email</Label>
+            <Switch
+              id="switch-email-digest"
+              checked={preferences?.emailDigest ?? true}
+              onCheckedChange={(checked) => preferencesMutation.mutate({ emailDigest: checked })}
+              disabled={!preferences || preferencesMutation.isPending}
+              data-testid="switch-email-digest"
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Building2, User } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization, organizationRoleLabels, workspaceKindLabels } from "@/hooks/useOrganization";
+import { WorkspaceFormDialog } from "@/components/workspace-form-dialog";
+
+// Sentinel value of the "new organization" entry in the select
+const NEW_ORGANIZATION = "__new__";
+
+export function OrganizationSwitcher() {
+  const { toast } = useToast();
+  const { organizations, activeOrganization } = useOrganization();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const switchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/organizations/${id}/switch`);
+    },
+    onSuccess: () => {
+      // Every cached query belongs to the previous organization
+      queryClient.invalidateQueries();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível trocar de organização.", variant: "destructive" });
+    },
+  });
+
+  const handleChange = (value: string) => {
+    if (value === NEW_ORGANIZATION) {
+      setCreateOpen(true);
+    } else if (value !== activeOrganization?.id) {
+      switchMutation.mutate(value);
+    }
+  };
+
+  if (!activeOrganization) return null;
+
+  return (
+    <div className="px-4 pb-4" data-testid="organization-switcher">
+      <Select value={activeOrganization.id} onValueChange={handleChange} disabled={switchMutation.isPending}>
+        <SelectTrigger data-testid="select-organization">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map((organization) => {
+            const KindIcon = organization.kind === "business" ? Building2 : User;
+            return (
+              <SelectItem key={organization.id} value={organization.id} data-testid={`option-organization-${organization.id}`}>
+                <span className="flex items-center gap-2">
+                  <KindIcon className="w-4 h-4 text-muted-foreground" />
+                  {organization.name}
+                </span>
+              </SelectItem>
+            );
+          })}
+          <SelectSeparator />
+          <SelectItem value={NEW_ORGANIZATION} data-testid="option-new-organization">
+            <span className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Nova organização
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground mt-1 px-1" data-testid="text-organization-role">
+        {workspaceKindLabels[activeOrganization.kind]} · {organizationRoleLabels[activeOrganization.role]}
+        {activeOrganization.role === "viewer" && " · somente leitura"}
+      </p>
+
+      <WorkspaceFormDialog open={createOpen} onClose={() => setCreateOpen(false)} />
+    </div>
+  );
+}
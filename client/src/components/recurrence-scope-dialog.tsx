@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import type { RecurrenceScope } from "@shared/schema";
+
+const SCOPE_OPTIONS: { value: RecurrenceScope; label: string }[] = [
+  { value: "this", label: "Somente esta ocorrência" },
+  { value: "following", label: "Esta e as seguintes" },
+  { value: "all", label: "Todas as ocorrências" },
+];
+
+interface RecurrenceScopeDialogProps {
+  open: boolean;
+  mode: "edit" | "delete";
+  onConfirm: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+export function RecurrenceScopeDialog({ open, mode, onConfirm, onCancel }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceScope>("this");
+
+  useEffect(() => {
+    if (open) setScope("this");
+  }, [open]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <AlertDialogContent data-testid="dialog-recurrence-scope">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {mode === "edit" ? "Editar transação recorrente" : "Excluir transação recorrente"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {mode === "edit"
+              ? "Esta transação faz parte de uma série. A alteração vale para:"
+              : "Esta transação faz parte de uma série. Excluir:"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as RecurrenceScope)} className="py-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-3">
+              <RadioGroupItem
+                value={option.value}
+                id={`recurrence-scope-${option.value}`}
+                data-testid={`radio-scope-${option.value}`}
+              />
+              <Label htmlFor={`recurrence-scope-${option.value}`}>{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-cancel-scope">Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onConfirm(scope)}
+            className={mode === "delete" ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+            data-testid="button-confirm-scope"
+          >
+            {mode === "edit" ? "Salvar" : "Excluir"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
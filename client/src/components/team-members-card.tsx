@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users, Trash2, Copy, Mail, LogOut } from "lucide-react";
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+  type InvitationSummary,
+  type CreatedInvitation,
+  type OrganizationMemberWithUser,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganization, organizationRoleLabels } from "@/hooks/useOrganization";
+
+const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export function TeamMembersCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { activeOrganization, role, canManage } = useOrganization();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("viewer");
+  // Link of the invitation just created; the server only keeps a hash of it
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  const { data: members } = useQuery<OrganizationMemberWithUser[]>({
+    queryKey: ["/api/organizations/current/members"],
+    retry: false,
+  });
+
+  const { data: invitations } = useQuery<InvitationSummary[]>({
+    queryKey: ["/api/organizations/current/invitations"],
+    enabled: canManage,
+    retry: false,
+  });
+
+  // Only owners hand out ownership, so admins don't see that option
+  const assignableRoles = ORGANIZATION_ROLES.filter((r) => r !== "owner" || role === "owner");
+
+  const copyLink = async (link: string) => {
+    await navigator.clipboard.writeText(link);
+    toast({ title: "Link copiado", description: "Envie o link para a pessoa convidada." });
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: OrganizationRole }) => {
+      await apiRequest("PATCH", `/api/organizations/current/members/${id}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/members"] });
+      toast({ title: "Sucesso!", description: "Papel atualizado com sucesso." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível atualizar o papel.", variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/organizations/current/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/members"] });
+      toast({ title: "Sucesso!", description: "Membro removido com sucesso." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível remover o membro.", variant: "destructive" });
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/organizations/current/invitations", { email, role: inviteRole });
+      return (await res.json()) as CreatedInvitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/invitations"] });
+      setEmail("");
+      setInviteRole("viewer");
+      const link = inviteLink(invitation.token);
+      setCreatedLink(link);
+      if (invitation.emailSent) {
+        toast({ title: "Convite enviado", description: `Enviamos o link para ${invitation.invitation.email}.` });
+        return;
+      }
+      // Without the email, the link has to reach the invitee some other way
+      copyLink(link).catch(() => {
+        toast({ title: "Sucesso!", description: "Convite criado. Copie o link abaixo." });
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível criar o convite.", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/organizations/current/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/invitations"] });
+      toast({ title: "Sucesso!", description: "Convite cancelado." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível cancelar o convite.", variant: "destructive" });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/organizations/${activeOrganization!.id}/leave`);
+    },
+    onSuccess: () => {
+      // The session falls back to another organization
+      queryClient.invalidateQueries();
+      toast({ title: "Sucesso!", description: "Você saiu da organização." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível sair da organização.", variant: "destructive" });
+    },
+  });
+
+  const handleRemove = (member: OrganizationMemberWithUser) => {
+    if (confirm(`Remover ${member.user.email} da organização?`)) {
+      removeMemberMutation.mutate(member.id);
+    }
+  };
+
+  const handleLeave = () => {
+    if (confirm(`Sair da organização "${activeOrganization?.name}"? Você perderá o acesso aos dados dela.`)) {
+      leaveMutation.mutate();
+    }
+  };
+
+  const getInitials = (member: OrganizationMemberWithUser) => {
+    if (member.user.firstName && member.user.lastName) {
+      return `${member.user.firstName[0]}${member.user.lastName[0]}`.toUpperCase();
+    }
+    return member.user.email[0]?.toUpperCase() || "U";
+  };
+
+  // Owners can only be changed by owners; the server enforces the same rule
+  const canEditMember = (member: OrganizationMemberWithUser) =>
+    canManage && member.userId !== user?.id && (member.role !== "owner" || role === "owner");
+
+  if (!activeOrganization) return null;
+
+  return (
+    <Card className="p-6" data-testid="card-team-members">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            <h2 className="text-xl font-semibold">Equipe</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Pessoas com acesso a "{activeOrganization.name}"
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleLeave} disabled={leaveMutation.isPending} data-testid="button-leave-organization">
+          <LogOut className="w-4 h-4 mr-2" />
+          Sair
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {members?.map((member) => (
+          <div
+            key={member.id}
+            className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50"
+            data-testid={`member-${member.id}`}
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={member.user.profileImageUrl || undefined} />
+                <AvatarFallback className="bg-primary/10 text-primary text-xs">{getInitials(member)}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {[member.user.firstName, member.user.lastName].filter(Boolean).join(" ") || member.user.email}
+                  {member.userId === user?.id && <span className="text-muted-foreground font-normal"> (você)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{member.user.email}</p>
+              </div>
+            </div>
+            {canEditMember(member) ? (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => updateRoleMutation.mutate({ id: member.id, role: value as OrganizationRole })}
+                >
+                  <SelectTrigger className="w-40" data-testid={`select-member-role-${member.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((r) => (
+                      <SelectItem key={r} value={r}>{organizationRoleLabels[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(member)}
+                  data-testid={`button-remove-member-${member.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <Badge variant="outline">{organizationRoleLabels[member.role]}</Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canManage && (
+        <div className="mt-6 space-y-3">
+          <h3 className="font-semibold">Convidar</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              placeholder="email@exemplo.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              data-testid="input-invite-email"
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+              <SelectTrigger className="sm:w-44" data-testid="select-invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {assignableRoles.map((r) => (
+                  <SelectItem key={r} value={r}>{organizationRoleLabels[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!email.trim() || inviteMutation.isPending}
+              data-testid="button-send-invite"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Convidar
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            O link do convite é enviado por email e vale por 7 dias
+          </p>
+
+          {createdLink && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/50" data-testid="created-invite-link">
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-muted-foreground">Link do convite (não será mostrado de novo)</p>
+                <p className="font-mono text-sm truncate">{createdLink}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => copyLink(createdLink)}
+                data-testid="button-copy-created-invite"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {invitations && invitations.length > 0 && (
+            <div className="space-y-2">
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border"
+                  data-testid={`invitation-${invitation.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{invitation.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {organizationRoleLabels[invitation.role]} · expira em {new Date(invitation.expiresAt).toLocaleDateString("pt-BR")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    data-testid={`button-revoke-invite-${invitation.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,334 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { AreaChart, Area, Line, ComposedChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
+import { AlertCircle, CalendarRange } from "lucide-react";
+import { REPORT_RANGE_MAX_YEARS, type RangeReport, type RangeReportPeriod, type ReportDateBasis, type ReportGroupBy } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+// Categories beyond these are stacked together as "Outras"
+const STACKED_CATEGORIES = 6;
+const OTHER_KEY = "other";
+
+const groupByLabels: Record<ReportGroupBy, string> = {
+  month: "Mês",
+  quarter: "Trimestre",
+  year: "Ano",
+};
+
+function toDateInput(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function periodLabel(period: RangeReportPeriod, groupBy: ReportGroupBy): string {
+  if (groupBy === "year") return `${period.year}`;
+  if (groupBy === "quarter") return `${Math.floor((period.month - 1) / 3) + 1}º tri ${period.year}`;
+  return new Date(period.year, period.month - 1, 1).toLocaleDateString("pt-BR", { month: "short", year: "2-digit" });
+}
+
+// Growing expenses are flagged red; for income it is the other way around
+function ChangeBadge({ percent, higherIsBetter = false }: { percent: number; higherIsBetter?: boolean }) {
+  const worse = higherIsBetter ? percent < 0 : percent > 0;
+  return (
+    <Badge variant={worse ? "destructive" : "default"} className="min-w-[60px] justify-center">
+      {percent >= 0 ? "+" : ""}
+      {percent.toFixed(1)}%
+    </Badge>
+  );
+}
+
+interface TrendReportCardProps {
+  dateBasis: ReportDateBasis;
+}
+
+export function TrendReportCard({ dateBasis }: TrendReportCardProps) {
+  const today = new Date();
+  // The last twelve full months plus the current one
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear() - 1, today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth() + 1, 0)));
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>("month");
+
+  const validRange = !!from && !!to && from <= to;
+  const { data: report, isLoading, isError } = useQuery<RangeReport>({
+    queryKey: [`/api/reports/range?from=${from}&to=${to}&groupBy=${groupBy}${dateBasis === "due" ? "&basis=due" : ""}`],
+    enabled: validRange,
+    retry: false,
+  });
+
+  const charts = useMemo(() => {
+    if (!report) return null;
+
+    const expenseCategories = report.categories.filter((c) => c.kind === "expense");
+    const stacked = expenseCategories.slice(0, STACKED_CATEGORIES);
+    const categoryKey = (categoryId: string | null) => categoryId || "uncategorized";
+    const stackedKeys = new Set(stacked.map((c) => categoryKey(c.categoryId)));
+
+    const byCategory = report.periods.map((period) => {
+      const point: Record<string, string | number> = { period: periodLabel(period, report.groupBy) };
+      for (const category of stacked) point[categoryKey(category.categoryId)] = 0;
+      if (expenseCategories.length > STACKED_CATEGORIES) point[OTHER_KEY] = 0;
+      for (const row of period.byCategory) {
+        if (row.kind !== "expense") continue;
+        const key = stackedKeys.has(categoryKey(row.categoryId)) ? categoryKey(row.categoryId) : OTHER_KEY;
+        point[key] = Number(point[key] || 0) + row.total;
+      }
+      return point;
+    });
+
+    const series = stacked.map((category) => ({
+      key: categoryKey(category.categoryId),
+      name: category.categoryName,
+      color: category.categoryColor,
+    }));
+    if (expenseCategories.length > STACKED_CATEGORIES) {
+      series.push({ key: OTHER_KEY, name: "Outras", color: "#94A3B8" });
+    }
+
+    const cashFlow = report.periods.map((period) => ({
+      period: periodLabel(period, report.groupBy),
+      income: period.income,
+      expenses: period.expenses,
+      averageExpenses: period.rollingAverage.expenses,
+      previousExpenses: period.previousYear.expenses,
+    }));
+
+    return { byCategory, series, cashFlow };
+  }, [report]);
+
+  const expensesYoy = report && report.previousYearTotals.expenses > 0
+    ? ((report.totals.expenses - report.previousYearTotals.expenses) / report.previousYearTotals.expenses) * 100
+    : 0;
+  const incomeYoy = report && report.previousYearTotals.income > 0
+    ? ((report.totals.income - report.previousYearTotals.income) / report.previousYearTotals.income) * 100
+    : 0;
+
+  return (
+    <Card className="p-6 space-y-6" data-testid="card-trend-report">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Tendências do Período</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            type="date"
+            className="w-40"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            data-testid="input-range-from"
+          />
+          <span className="text-sm text-muted-foreground">até</span>
+          <Input
+            type="date"
+            className="w-40"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            data-testid="input-range-to"
+          />
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={groupBy}
+            onValueChange={(value) => value && setGroupBy(value as ReportGroupBy)}
+            data-testid="toggle-range-group"
+          >
+            {(Object.keys(groupByLabels) as ReportGroupBy[]).map((key) => (
+              <ToggleGroupItem key={key} value={key} data-testid={`toggle-group-${key}`}>
+                {groupByLabels[key]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {!validRange ? (
+        <p className="text-sm text-destructive" data-testid="text-range-invalid">
+          A data inicial deve ser anterior à final
+        </p>
+      ) : isError ? (
+        <p className="text-sm text-destructive" data-testid="text-range-error">
+          Não foi possível gerar o relatório do período (máximo de {REPORT_RANGE_MAX_YEARS} anos)
+        </p>
+      ) : isLoading || !report || !charts ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Skeleton className="h-80" />
+          <Skeleton className="h-80" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Despesas no período</p>
+              <div className="flex items-center gap-2 mt-1">
+                <h3 className="text-2xl font-bold" data-testid="text-range-expenses">
+                  {formatCurrencyDisplay(report.totals.expenses)}
+                </h3>
+                <ChangeBadge percent={expensesYoy} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Ano anterior: {formatCurrencyDisplay(report.previousYearTotals.expenses)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Receitas no período</p>
+              <div className="flex items-center gap-2 mt-1">
+                <h3 className="text-2xl font-bold text-success" data-testid="text-range-income">
+                  {formatCurrencyDisplay(report.totals.income)}
+                </h3>
+                <ChangeBadge percent={incomeYoy} higherIsBetter />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Ano anterior: {formatCurrencyDisplay(report.previousYearTotals.income)}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Resultado</p>
+              <h3
+                className={`text-2xl font-bold mt-1 ${report.totals.netResult >= 0 ? "text-success" : "text-destructive"}`}
+                data-testid="text-range-net"
+              >
+                {formatCurrencyDisplay(report.totals.netResult)}
+              </h3>
+              <p className="text-xs text-muted-foreground">
+                Ano anterior: {formatCurrencyDisplay(report.previousYearTotals.netResult)}
+              </p>
+            </div>
+          </div>
+
+          {report.periods.every((p) => p.income === 0 && p.expenses === 0) ? (
+            <div className="h-40 flex flex-col items-center justify-center text-muted-foreground">
+              <AlertCircle className="w-12 h-12 mb-2" />
+              <p>Sem movimentações no período</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="font-medium mb-2">Despesas por Categoria</h4>
+                <div className="h-80">
+                  <ChartContainer config={{}}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={charts.byCategory}>
+                        <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
+                        <XAxis dataKey="period" fontSize={12} />
+                        <YAxis fontSize={12} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        {charts.series.map((series) => (
+                          <Area
+                            key={series.key}
+                            type="monotone"
+                            dataKey={series.key}
+                            name={series.name}
+                            stackId="expenses"
+                            stroke={series.color}
+                            fill={series.color}
+                            fillOpacity={0.6}
+                          />
+                        ))}
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </ChartContainer>
+                </div>
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">Receitas x Despesas</h4>
+                <div className="h-80">
+                  <ChartContainer config={{}}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={charts.cashFlow}>
+                        <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
+                        <XAxis dataKey="period" fontSize={12} />
+                        <YAxis fontSize={12} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Area
+                          type="monotone"
+                          dataKey="income"
+                          name="Receitas"
+                          stroke="hsl(var(--success))"
+                          fill="hsl(var(--success))"
+                          fillOpacity={0.2}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="expenses"
+                          name="Despesas"
+                          stroke="hsl(var(--primary))"
+                          fill="hsl(var(--primary))"
+                          fillOpacity={0.2}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="averageExpenses"
+                          name="Média móvel das despesas"
+                          stroke="hsl(var(--primary))"
+                          strokeDasharray="4 4"
+                          dot={false}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="previousExpenses"
+                          name="Despesas no ano anterior"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeDasharray="2 2"
+                          dot={false}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </ChartContainer>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Período</TableHead>
+                <TableHead className="text-right">Receitas</TableHead>
+                <TableHead className="text-right">Despesas</TableHead>
+                <TableHead className="text-right">Média móvel</TableHead>
+                <TableHead className="text-right">Ano anterior</TableHead>
+                <TableHead className="text-right">Variação</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.periods.map((period) => (
+                <TableRow key={period.key} data-testid={`row-range-period-${period.key}`}>
+                  <TableCell className="font-medium">{periodLabel(period, report.groupBy)}</TableCell>
+                  <TableCell className="text-right text-success">{formatCurrencyDisplay(period.income)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyDisplay(period.expenses)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyDisplay(period.rollingAverage.expenses)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatCurrencyDisplay(period.previousYear.expenses)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ChangeBadge percent={period.expensesChangePercent} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Card>
+  );
+}
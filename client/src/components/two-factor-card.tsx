@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound, Copy, Loader2 } from "lucide-react";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+
+type DialogMode = "setup" | "disable" | "regenerate";
+
+const dialogTitles: Record<DialogMode, string> = {
+  setup: "Ativar autenticação em dois fatores",
+  disable: "Desativar autenticação em dois fatores",
+  regenerate: "Gerar novos códigos de recuperação",
+};
+
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  // Shown once after enabling or regenerating; the server only keeps hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    retry: false,
+  });
+
+  const closeDialog = () => {
+    setMode(null);
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    setCode("");
+    toast({ title: "Erro", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setMode("setup");
+    },
+    onError: showError("Não foi possível iniciar a configuração."),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: showError("Código inválido."),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: showError("Código inválido."),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      closeDialog();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: "Sucesso!", description: "Autenticação em dois fatores desativada." });
+    },
+    onError: showError("Não foi possível desativar."),
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Códigos copiados", description: "Guarde-os em um lugar seguro." });
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "setup") enableMutation.mutate();
+    else if (mode === "regenerate") regenerateMutation.mutate();
+    else if (mode === "disable") disableMutation.mutate();
+  };
+
+  const isSubmitting = enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card className="p-6" data-testid="card-two-factor">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <KeyRound className="w-5 h-5 text-primary mt-1" />
+          <div>
+            <div className="flex items-center gap-2">
+              <h2 className="text-xl font-semibold">Autenticação em dois fatores</h2>
+              {status?.enabled && (
+                <Badge variant="secondary" data-testid="badge-two-factor-enabled">Ativa</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {status?.enabled
+                ? `Além da senha, o login pede um código do aplicativo autenticador. ${status.recoveryCodesRemaining} código(s) de recuperação restante(s).`
+                : "Peça um código do aplicativo autenticador (Google Authenticator, Authy, 1Password...) além da senha ao entrar."}
+            </p>
+          </div>
+        </div>
+        {!isLoading && status && (
+          <div className="flex gap-2">
+            {status.enabled ? (
+              <>
+                <Button variant="outline" onClick={() => setMode("regenerate")} data-testid="button-regenerate-recovery-codes">
+                  Novos códigos de recuperação
+                </Button>
+                <Button variant="destructive" onClick={() => setMode("disable")} data-testid="button-disable-two-factor">
+                  Desativar
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-enable-two-factor">
+                {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ativar
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent data-testid="dialog-two-factor">
+          <DialogHeader>
+            <DialogTitle>{mode && dialogTitles[mode]}</DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? "Guarde estes códigos de recuperação em um lugar seguro. Cada um entra uma única vez caso você perca o aplicativo autenticador, e eles não serão mostrados de novo."
+                : mode === "setup"
+                  ? "Escaneie o QR code com o aplicativo autenticador e digite o código gerado para confirmar."
+                  : mode === "disable"
+                    ? "Confirme sua senha e um código do aplicativo (ou um código de recuperação)."
+                    : "Os códigos atuais deixarão de funcionar. Digite um código do aplicativo para continuar."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {recoveryCodes ? (
+            <>
+              <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/50 p-4 font-mono text-sm" data-testid="list-recovery-codes">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copiar
+                </Button>
+                <Button onClick={closeDialog} data-testid="button-close-recovery-codes">
+                  Concluir
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              {mode === "setup" && setup && (
+                <div className="flex flex-col items-center gap-2">
+                  <img src={setup.qrCodeDataUrl} alt="QR code do autenticador" className="w-48 h-48" data-testid="img-two-factor-qr" />
+                  <p className="text-xs text-muted-foreground text-center">
+                    Sem câmera? Digite a chave no aplicativo:
+                    <br />
+                    <span className="font-mono break-all" data-testid="text-two-factor-secret">{setup.secret}</span>
+                  </p>
+                </div>
+              )}
+
+              {mode === "disable" && (
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-password">Senha</Label>
+                  <Input
+                    id="two-factor-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-two-factor-password"
+                  />
+                </div>
+              )}
+
+              {mode === "disable" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code">Código</Label>
+                  <Input
+                    id="two-factor-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    required
+                    data-testid="input-two-factor-code"
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <TwoFactorCodeInput value={code} onChange={setCode} disabled={isSubmitting} data-testid="input-two-factor-totp" />
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog} data-testid="button-cancel-two-factor">
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  variant={mode === "disable" ? "destructive" : "default"}
+                  disabled={isSubmitting || (mode !== "disable" && code.length < 6)}
+                  data-testid="button-confirm-two-factor"
+                >
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {mode === "disable" ? "Desativar" : "Confirmar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
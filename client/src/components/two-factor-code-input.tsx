@@ -0,0 +1,30 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  "data-testid"?: string;
+}
+
+// The 6-digit code shown by the authenticator app
+export function TwoFactorCodeInput({ value, onChange, disabled, "data-testid": testId }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^[0-9]*$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+      data-testid={testId}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Building2, User, CheckCircle2 } from "lucide-react";
+import type { Organization, WorkspaceKind } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCnpj } from "@/lib/formatCnpj";
+
+interface WorkspaceFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // Edits the active workspace when given, otherwise creates a new one
+  workspace?: Organization;
+}
+
+const kindOptions: { value: WorkspaceKind; title: string; description: string; icon: typeof User }[] = [
+  { value: "personal", title: "Pessoal", description: "Suas finanças pessoais", icon: User },
+  { value: "business", title: "Empresa (PJ)", description: "Receitas e custos da empresa", icon: Building2 },
+];
+
+export function WorkspaceFormDialog({ open, onClose, workspace }: WorkspaceFormDialogProps) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<WorkspaceKind>("personal");
+  const [name, setName] = useState("");
+  const [companyName, setCompanyName] = useState("");
+  const [cnpj, setCnpj] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setKind(workspace?.kind || "personal");
+    setName(workspace?.name || "");
+    setCompanyName(workspace?.companyName || "");
+    setCnpj(workspace?.cnpj ? formatCnpj(workspace.cnpj) : "");
+  }, [open, workspace]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: any) => {
+      if (workspace) {
+        await apiRequest("PATCH", "/api/organizations/current", data);
+      } else {
+        await apiRequest("POST", "/api/organizations", data);
+      }
+    },
+    onSuccess: () => {
+      // A new workspace becomes the active one, so everything is refetched
+      queryClient.invalidateQueries();
+      toast({
+        title: "Sucesso!",
+        description: workspace ? "Organização atualizada com sucesso." : "Organização criada com sucesso.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível salvar a organização.", variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const isBusiness = kind === "business";
+    const cnpjDigits = cnpj.replace(/\D/g, "");
+
+    if (isBusiness && cnpjDigits && cnpjDigits.length !== 14) {
+      toast({ title: "Atenção", description: "O CNPJ deve ter 14 dígitos.", variant: "destructive" });
+      return;
+    }
+
+    saveMutation.mutate({
+      name: name.trim() || companyName.trim(),
+      kind,
+      companyName: isBusiness ? companyName.trim() || null : null,
+      cnpj: isBusiness && cnpjDigits ? cnpjDigits : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg" data-testid="dialog-workspace">
+        <DialogHeader>
+          <DialogTitle>{workspace ? "Editar organização" : "Nova organização"}</DialogTitle>
+          <DialogDescription>
+            Cada organização tem suas próprias transações, contas e categorias
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {kindOptions.map((option) => (
+              <Card
+                key={option.value}
+                className={`p-4 cursor-pointer hover-elevate ${kind === option.value ? "border-primary" : ""}`}
+                onClick={() => setKind(option.value)}
+                data-testid={`card-workspace-kind-${option.value}`}
+              >
+                <div className="flex items-start justify-between">
+                  <option.icon className="w-5 h-5 text-primary" />
+                  {kind === option.value && <CheckCircle2 className="w-4 h-4 text-primary" />}
+                </div>
+                <p className="font-medium mt-2">{option.title}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Nome</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={kind === "business" ? "Ex: Minha Empresa" : "Ex: Finanças pessoais"}
+              data-testid="input-workspace-name"
+            />
+          </div>
+
+          {kind === "business" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="workspace-company-name">Razão social</Label>
+                <Input
+                  id="workspace-company-name"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
+                  placeholder="Minha Empresa LTDA"
+                  data-testid="input-workspace-company-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workspace-cnpj">CNPJ</Label>
+                <Input
+                  id="workspace-cnpj"
+                  value={cnpj}
+                  onChange={(e) => setCnpj(formatCnpj(e.target.value))}
+                  placeholder="00.000.000/0000-00"
+                  data-testid="input-workspace-cnpj"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-workspace">
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!(name.trim() || companyName.trim()) || saveMutation.isPending}
+            data-testid="button-save-workspace"
+          >
+            {workspace ? "Salvar" : "Criar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
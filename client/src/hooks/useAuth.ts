@@ -1,9 +1,9 @@
 // Hybrid auth hook - supports both local auth and Replit Auth
 import { useQuery } from "@tanstack/react-query";
-import type { User } from "@shared/schema";
+import type { PublicUser } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<PublicUser>({
     queryKey: ["/api/auth/me"],
     retry: false,
   });
@@ -0,0 +1,34 @@
+// Active organization (workspace) of the session and the user's role in it
+import { useQuery } from "@tanstack/react-query";
+import { hasOrganizationRole, type OrganizationRole, type OrganizationWithRole, type WorkspaceKind } from "@shared/schema";
+
+export function useOrganization() {
+  const { data: organizations, isLoading } = useQuery<OrganizationWithRole[]>({
+    queryKey: ["/api/organizations"],
+    retry: false,
+  });
+
+  const activeOrganization = organizations?.find((o) => o.isActive);
+  const role = activeOrganization?.role;
+
+  return {
+    organizations: organizations || [],
+    activeOrganization,
+    role,
+    isLoading,
+    canEdit: !!role && hasOrganizationRole(role, "bookkeeper"),
+    canManage: !!role && hasOrganizationRole(role, "admin"),
+  };
+}
+
+export const organizationRoleLabels: Record<OrganizationRole, string> = {
+  viewer: "Leitor",
+  bookkeeper: "Contador",
+  admin: "Administrador",
+  owner: "Proprietário",
+};
+
+export const workspaceKindLabels: Record<WorkspaceKind, string> = {
+  personal: "Pessoal",
+  business: "Empresarial (PJ)",
+};
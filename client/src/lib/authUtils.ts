@@ -2,3 +2,15 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
 }
+
+// apiRequest errors read "400: {"message":"..."}"; returns the server's message
+export function apiErrorMessage(error: Error, fallback: string): string {
+  const match = error.message.match(/^\d+: (.*)$/);
+  if (!match) return fallback;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.message || body.error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
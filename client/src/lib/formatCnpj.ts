@@ -0,0 +1,14 @@
+/**
+ * Formata CNPJ no padrão: 00.000.000/0000-00
+ * Aceita entrada parcial, útil para máscara de input
+ * Exemplo: "12345678000190" → "12.345.678/0001-90"
+ */
+export function formatCnpj(value: string): string {
+  const digits = value.replace(/\D/g, '').slice(0, 14);
+
+  return digits
+    .replace(/^(\d{2})(\d)/, '$1.$2')
+    .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d)/, '.$1/$2')
+    .replace(/(\d{4})(\d)/, '$1-$2');
+}
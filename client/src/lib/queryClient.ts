@@ -55,3 +55,44 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Queries derived from transactions (lists, reports, balances) that must be
+// refetched after any transaction write
+const TRANSACTION_DERIVED_PREFIXES = [
+  "/api/transactions",
+  "/api/reports",
+  "/api/monthly-financials",
+  "/api/recurring-series",
+  "/api/accounts",
+  "/api/installment-purchases",
+  "/api/audit",
+  "/api/trash",
+  "/api/notifications",
+];
+
+// Trashing or restoring a category hides or brings back its budgets and rules
+// and changes how transactions are grouped in reports
+const CATEGORY_DERIVED_PREFIXES = [
+  "/api/categories",
+  "/api/budgets",
+  "/api/category-rules",
+  "/api/reports",
+  "/api/trash",
+];
+
+function invalidatePrefixes(prefixes: string[]) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0]?.toString() || "";
+      return prefixes.some((prefix) => key.startsWith(prefix));
+    },
+  });
+}
+
+export function invalidateTransactionQueries() {
+  return invalidatePrefixes(TRANSACTION_DERIVED_PREFIXES);
+}
+
+export function invalidateCategoryQueries() {
+  return invalidatePrefixes(CATEGORY_DERIVED_PREFIXES);
+}
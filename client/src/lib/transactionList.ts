@@ -0,0 +1,25 @@
+import type { TransactionListQuery } from "@shared/schema";
+
+type TransactionListParams = {
+  [K in keyof TransactionListQuery]?: string | number;
+};
+
+// URL of GET /api/transactions, also used as the query key so each
+// combination of filters and page is cached on its own
+export function transactionListUrl(params: TransactionListParams): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `/api/transactions?${query}` : "/api/transactions";
+}
+
+// First and last instant of a month. Dates are stored as UTC midnight of
+// the chosen day, so the bounds are taken in UTC as well.
+export function monthRange(year: number, month: number): { startDate: string; endDate: string } {
+  return {
+    startDate: new Date(Date.UTC(year, month - 1, 1)).toISOString(),
+    endDate: new Date(Date.UTC(year, month, 0, 23, 59, 59, 999)).toISOString(),
+  };
+}
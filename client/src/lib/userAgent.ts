@@ -0,0 +1,27 @@
+// Short "Chrome no Windows" description of a User-Agent header for lists of
+// sign-ins and devices. Order matters: Edge and Opera also claim to be Chrome,
+// and Chrome also claims to be Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} no ${system}`;
+  return browser || system || userAgent.slice(0, 40);
+}
@@ -0,0 +1,109 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Users } from "lucide-react";
+import type { InvitationPreview } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { organizationRoleLabels } from "@/hooks/useOrganization";
+
+// Reachable signed in or out: the preview is public, accepting needs the
+// invited email's account
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const [_, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user, isAuthenticated } = useAuth();
+
+  const { data: invitation, isLoading, isError } = useQuery<InvitationPreview>({
+    queryKey: ["/api/invitations", token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/invitations/${token}/accept`);
+    },
+    onSuccess: () => {
+      // The accepted organization is now the active one
+      queryClient.invalidateQueries();
+      toast({ title: "Sucesso!", description: `Você entrou em ${invitation?.organizationName}.` });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message || "Não foi possível aceitar o convite.", variant: "destructive" });
+    },
+  });
+
+  const isUsable = invitation && !invitation.isExpired && !invitation.isAccepted;
+  const isOtherAccount = isAuthenticated && invitation && user?.email.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="flex min-h-full items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md" data-testid="card-accept-invite">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-4">
+            <Users className="w-8 h-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl text-center">Convite</CardTitle>
+          {isLoading ? (
+            <Skeleton className="h-5 w-64 mx-auto" />
+          ) : isError || !invitation ? (
+            <CardDescription className="text-center" data-testid="text-invite-not-found">
+              Convite não encontrado
+            </CardDescription>
+          ) : (
+            <CardDescription className="text-center" data-testid="text-invite-description">
+              Você foi convidado para <strong>{invitation.organizationName}</strong> como{" "}
+              {organizationRoleLabels[invitation.role].toLowerCase()}
+            </CardDescription>
+          )}
+        </CardHeader>
+
+        {invitation && (
+          <>
+            <CardContent className="text-sm text-muted-foreground text-center space-y-2">
+              {invitation.isAccepted ? (
+                <p data-testid="text-invite-accepted">Este convite já foi utilizado.</p>
+              ) : invitation.isExpired ? (
+                <p data-testid="text-invite-expired">Este convite expirou. Peça um novo ao administrador.</p>
+              ) : !isAuthenticated ? (
+                <p>Entre ou crie sua conta com <strong>{invitation.email}</strong> e abra este link novamente.</p>
+              ) : isOtherAccount ? (
+                <p data-testid="text-invite-other-account">
+                  Este convite é para <strong>{invitation.email}</strong>, mas você entrou como {user?.email}.
+                </p>
+              ) : null}
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-2">
+              {isUsable && isAuthenticated && !isOtherAccount && (
+                <Button
+                  className="w-full"
+                  onClick={() => acceptMutation.mutate()}
+                  disabled={acceptMutation.isPending}
+                  data-testid="button-accept-invite"
+                >
+                  {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Aceitar convite
+                </Button>
+              )}
+              {isUsable && !isAuthenticated && (
+                <>
+                  <Button className="w-full" onClick={() => setLocation("/login")} data-testid="button-invite-login">
+                    Entrar
+                  </Button>
+                  <Button variant="outline" className="w-full" onClick={() => setLocation("/register")} data-testid="button-invite-register">
+                    Criar conta
+                  </Button>
+                </>
+              )}
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
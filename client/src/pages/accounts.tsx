@@ -0,0 +1,598 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, ArrowLeftRight, Landmark, PiggyBank, CreditCard, Banknote } from "lucide-react";
+import type { FinancialAccount, FinancialAccountWithBalance } from "@shared/schema";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, invalidateTransactionQueries } from "@/lib/queryClient";
+import { z } from "zod";
+
+const accountTypeLabels: Record<FinancialAccount["type"], string> = {
+  checking: "Conta Corrente",
+  savings: "Poupança",
+  credit_card: "Cartão de Crédito",
+  cash: "Dinheiro",
+};
+
+const accountTypeIcons = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Banknote,
+};
+
+const colorOptions = ["#3B82F6", "#10B981", "#8B5CF6", "#EC4899", "#F59E0B", "#EF4444", "#64748B"];
+
+const accountFormSchema = z.object({
+  name: z.string().min(1, "Digite o nome da conta"),
+  type: z.enum(["checking", "savings", "credit_card", "cash"]),
+  openingBalance: z.string().refine((value) => !isNaN(Number(value)), "Valor inválido"),
+  color: z.string(),
+  isArchived: z.boolean(),
+  closingDay: z.string().optional(),
+  dueDay: z.string().optional(),
+}).refine((data) => data.type !== "credit_card" || (!!data.closingDay && !!data.dueDay), {
+  message: "Informe os dias de fechamento e vencimento",
+  path: ["dueDay"],
+});
+
+const transferFormSchema = z.object({
+  fromAccountId: z.string().min(1, "Selecione a conta de origem"),
+  toAccountId: z.string().min(1, "Selecione a conta de destino"),
+  amount: z.string().refine((value) => Number(value) > 0, "Digite um valor maior que zero"),
+  date: z.string().min(1, "Selecione uma data"),
+  title: z.string().min(1, "Digite uma descrição"),
+  notes: z.string().optional(),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+  message: "Escolha uma conta diferente da origem",
+  path: ["toAccountId"],
+});
+
+type AccountFormValues = z.infer<typeof accountFormSchema>;
+type TransferFormValues = z.infer<typeof transferFormSchema>;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function Accounts() {
+  const { toast } = useToast();
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<FinancialAccount | null>(null);
+
+  const accountForm = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: {
+      name: "",
+      type: "checking",
+      openingBalance: "0",
+      color: colorOptions[0],
+      isArchived: false,
+      closingDay: "",
+      dueDay: "",
+    },
+  });
+
+  const transferForm = useForm<TransferFormValues>({
+    resolver: zodResolver(transferFormSchema),
+    defaultValues: {
+      fromAccountId: "",
+      toAccountId: "",
+      amount: "",
+      date: today(),
+      title: "Transferência",
+      notes: "",
+    },
+  });
+
+  const { data: accounts, isLoading } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+    retry: false,
+  });
+
+  const activeAccounts = accounts?.filter((a) => !a.isArchived) || [];
+  const totalBalance = activeAccounts.reduce((sum, a) => sum + a.currentBalance, 0);
+
+  const saveAccountMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) => {
+      if (id) {
+        await apiRequest("PATCH", `/api/accounts/${id}`, data);
+      } else {
+        await apiRequest("POST", "/api/accounts", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({ title: "Sucesso!", description: "Conta salva com sucesso." });
+      handleCloseAccount();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar a conta.", variant: "destructive" });
+    },
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({ title: "Sucesso!", description: "Conta excluída com sucesso." });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a conta. Contas com transações podem ser arquivadas.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("POST", "/api/transfers", data);
+    },
+    onSuccess: () => {
+      invalidateTransactionQueries();
+      toast({ title: "Sucesso!", description: "Transferência registrada." });
+      setTransferDialogOpen(false);
+      transferForm.reset();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível registrar a transferência.", variant: "destructive" });
+    },
+  });
+
+  const handleCloseAccount = () => {
+    setAccountDialogOpen(false);
+    setEditingAccount(null);
+    accountForm.reset();
+  };
+
+  const handleNewAccount = () => {
+    setEditingAccount(null);
+    accountForm.reset();
+    setAccountDialogOpen(true);
+  };
+
+  const handleEditAccount = (account: FinancialAccount) => {
+    setEditingAccount(account);
+    accountForm.reset({
+      name: account.name,
+      type: account.type,
+      openingBalance: Number(account.openingBalance).toString(),
+      color: account.color || colorOptions[0],
+      isArchived: account.isArchived,
+      closingDay: account.closingDay?.toString() || "",
+      dueDay: account.dueDay?.toString() || "",
+    });
+    setAccountDialogOpen(true);
+  };
+
+  const handleDeleteAccount = (account: FinancialAccount) => {
+    if (confirm(`Tem certeza que deseja excluir a conta "${account.name}"?`)) {
+      deleteAccountMutation.mutate(account.id);
+    }
+  };
+
+  const handleSubmitAccount = (values: AccountFormValues) => {
+    const isCard = values.type === "credit_card";
+    saveAccountMutation.mutate({
+      id: editingAccount?.id,
+      data: {
+        ...values,
+        openingBalance: Number(values.openingBalance),
+        closingDay: isCard && values.closingDay ? parseInt(values.closingDay) : null,
+        dueDay: isCard && values.dueDay ? parseInt(values.dueDay) : null,
+      },
+    });
+  };
+
+  const handleSubmitTransfer = (values: TransferFormValues) => {
+    transferMutation.mutate({
+      ...values,
+      amount: Number(values.amount),
+      date: `${values.date}T12:00:00`,
+      notes: values.notes || null,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" data-testid="skeleton-loading" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight" data-testid="heading-accounts">Contas</h1>
+          <p className="text-muted-foreground">
+            Saldo total: <span className="font-semibold" data-testid="text-total-balance">{formatCurrencyDisplay(totalBalance)}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setTransferDialogOpen(true)}
+            disabled={activeAccounts.length < 2}
+            data-testid="button-new-transfer"
+          >
+            <ArrowLeftRight className="w-4 h-4 mr-2" />
+            Transferir
+          </Button>
+          <Button onClick={handleNewAccount} data-testid="button-add-account">
+            <Plus className="w-4 h-4 mr-2" />
+            Nova Conta
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {accounts?.map((account) => {
+          const Icon = accountTypeIcons[account.type];
+          return (
+            <Card
+              key={account.id}
+              className={`p-4 ${account.isArchived ? "opacity-60" : "hover-elevate"}`}
+              data-testid={`card-account-${account.id}`}
+            >
+              <div className="flex items-start gap-3">
+                <div
+                  className="w-12 h-12 rounded-lg flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: `${account.color || "#3B82F6"}20` }}
+                >
+                  <Icon className="w-6 h-6" style={{ color: account.color || "#3B82F6" }} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold truncate" data-testid={`text-account-name-${account.id}`}>{account.name}</h3>
+                    {account.isArchived && <Badge variant="outline">Arquivada</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {accountTypeLabels[account.type]}
+                    {account.type === "credit_card" && account.closingDay && account.dueDay && (
+                      <span data-testid={`text-account-cycle-${account.id}`}>
+                        {" "}· fecha dia {account.closingDay}, vence dia {account.dueDay}
+                      </span>
+                    )}
+                  </p>
+                  <p
+                    className={`text-xl font-bold mt-2 ${account.currentBalance < 0 ? "text-destructive" : ""}`}
+                    data-testid={`text-account-balance-${account.id}`}
+                  >
+                    {formatCurrencyDisplay(account.currentBalance)}
+                  </p>
+                  {account.pendingBalance !== 0 && (
+                    <p className="text-xs text-muted-foreground" data-testid={`text-account-pending-${account.id}`}>
+                      {account.pendingBalance > 0 ? "+" : ""}
+                      {formatCurrencyDisplay(account.pendingBalance)} pendente
+                    </p>
+                  )}
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEditAccount(account)}
+                      data-testid={`button-edit-account-${account.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteAccount(account)}
+                      data-testid={`button-delete-account-${account.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={accountDialogOpen} onOpenChange={(isOpen) => !isOpen && handleCloseAccount()}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-account">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Editar" : "Nova"} Conta</DialogTitle>
+            <DialogDescription>Contas bancárias, cartões e dinheiro em espécie</DialogDescription>
+          </DialogHeader>
+          <Form {...accountForm}>
+            <form onSubmit={accountForm.handleSubmit(handleSubmitAccount)} className="space-y-4">
+              <FormField
+                control={accountForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Itaú PJ, Nubank..." {...field} data-testid="input-account-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={accountForm.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-account-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(accountTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {accountForm.watch("type") === "credit_card" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={accountForm.control}
+                    name="closingDay"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dia de fechamento</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={31} {...field} data-testid="input-closing-day" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={accountForm.control}
+                    name="dueDay"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dia de vencimento</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={31} {...field} data-testid="input-due-day" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+              <FormField
+                control={accountForm.control}
+                name="openingBalance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Saldo inicial (R$)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} data-testid="input-opening-balance" />
+                    </FormControl>
+                    <FormDescription>Use um valor negativo para a fatura em aberto de um cartão</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={accountForm.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cor</FormLabel>
+                    <FormControl>
+                      <div className="flex gap-2">
+                        {colorOptions.map((color) => (
+                          <button
+                            key={color}
+                            type="button"
+                            className={`w-8 h-8 rounded-full border-2 ${field.value === color ? "ring-2 ring-primary ring-offset-2" : ""}`}
+                            style={{ backgroundColor: color }}
+                            onClick={() => field.onChange(color)}
+                            data-testid={`color-account-${color.slice(1)}`}
+                          />
+                        ))}
+                      </div>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {editingAccount && (
+                <FormField
+                  control={accountForm.control}
+                  name="isArchived"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Arquivada</FormLabel>
+                        <FormDescription>Some das listas, mas o histórico é mantido</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-account-archived" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={handleCloseAccount} data-testid="button-cancel-account">
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveAccountMutation.isPending} data-testid="button-save-account">
+                  {saveAccountMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-transfer">
+          <DialogHeader>
+            <DialogTitle>Nova Transferência</DialogTitle>
+            <DialogDescription>Movimenta dinheiro entre suas contas sem contar como despesa ou receita</DialogDescription>
+          </DialogHeader>
+          <Form {...transferForm}>
+            <form onSubmit={transferForm.handleSubmit(handleSubmitTransfer)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={transferForm.control}
+                  name="fromAccountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>De</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-transfer-from">
+                            <SelectValue placeholder="Origem" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {activeAccounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={transferForm.control}
+                  name="toAccountId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Para</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-transfer-to">
+                            <SelectValue placeholder="Destino" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {activeAccounts.map((account) => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={transferForm.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valor (R$)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} data-testid="input-transfer-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={transferForm.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-transfer-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={transferForm.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descrição</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-transfer-title" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={transferForm.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} data-testid="input-transfer-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-3 pt-4">
+                <Button type="button" variant="outline" onClick={() => setTransferDialogOpen(false)} data-testid="button-cancel-transfer">
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={transferMutation.isPending} data-testid="button-save-transfer">
+                  {transferMutation.isPending ? "Salvando..." : "Transferir"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -22,11 +22,17 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Pencil, Trash2, FolderKanban } from "lucide-react";
-import type { Category } from "@shared/schema";
+import { ToastAction } from "@/components/ui/toast";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Plus, Pencil, Trash2, FolderKanban, PiggyBank } from "lucide-react";
+import type { AdvancedReport, Budget, Category } from "@shared/schema";
 import { insertCategorySchema } from "@shared/schema";
+import { BudgetProgressBar } from "@/components/budget-progress-bar";
+import { CategoryRulesCard } from "@/components/category-rules-card";
+import { formatCurrencyInput, parseCurrencyInput } from "@/lib/formatCurrency";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, invalidateCategoryQueries } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
 import { z } from "zod";
@@ -55,6 +61,12 @@ export default function Categories() {
   const { user } = useAuth();
   const [open, setOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [budgetCategory, setBudgetCategory] = useState<Category | null>(null);
+  const [budgetAmount, setBudgetAmount] = useState("");
+  const [budgetRollover, setBudgetRollover] = useState(false);
+
+  const currentMonth = new Date().getMonth() + 1;
+  const currentYear = new Date().getFullYear();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -71,6 +83,55 @@ export default function Categories() {
     retry: false,
   });
 
+  const { data: budgets } = useQuery<Budget[]>({
+    queryKey: ["/api/budgets"],
+    retry: false,
+  });
+
+  const { data: advancedReport } = useQuery<AdvancedReport>({
+    queryKey: [`/api/reports/advanced?year=${currentYear}&month=${currentMonth}`],
+    retry: false,
+  });
+
+  const invalidateBudgets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/reports'))
+    });
+  };
+
+  const saveBudgetMutation = useMutation({
+    mutationFn: async ({ budget, data }: { budget?: Budget; data: any }) => {
+      if (budget) {
+        await apiRequest("PATCH", `/api/budgets/${budget.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/budgets", data);
+      }
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+      toast({ title: "Sucesso!", description: "Orçamento salvo com sucesso." });
+      setBudgetCategory(null);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar o orçamento.", variant: "destructive" });
+    },
+  });
+
+  const deleteBudgetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/budgets/${id}`);
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+      toast({ title: "Sucesso!", description: "Orçamento removido." });
+      setBudgetCategory(null);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível remover o orçamento.", variant: "destructive" });
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       await apiRequest("POST", "/api/categories", data);
@@ -103,15 +164,36 @@ export default function Categories() {
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/categories/${id}`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
-      toast({ title: "Sucesso!", description: "Categoria excluída com sucesso." });
+    onSuccess: (_, id) => {
+      invalidateCategoryQueries();
+      toast({
+        title: "Sucesso!",
+        description: "Categoria movida para a lixeira.",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreMutation.mutate(id)} data-testid="button-undo-delete">
+            Desfazer
+          </ToastAction>
+        ),
+      });
     },
     onError: () => {
       toast({ title: "Erro", description: "Não foi possível excluir a categoria.", variant: "destructive" });
     },
   });
 
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/trash/categories/${id}/restore`);
+    },
+    onSuccess: () => {
+      invalidateCategoryQueries();
+      toast({ title: "Sucesso!", description: "Categoria restaurada." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível restaurar a categoria.", variant: "destructive" });
+    },
+  });
+
   const handleClose = () => {
     setOpen(false);
     setEditingCategory(null);
@@ -157,6 +239,56 @@ export default function Categories() {
     }
   };
 
+  const getBudget = (categoryId: string) => budgets?.find((b) => b.categoryId === categoryId);
+  const getBudgetProgress = (categoryId: string) =>
+    advancedReport?.budgets.find((b) => b.categoryId === categoryId);
+
+  const handleOpenBudget = (category: Category) => {
+    const budget = getBudget(category.id);
+    setBudgetCategory(category);
+    setBudgetAmount(budget ? formatCurrencyInput(Math.round(Number(budget.amount) * 100).toString()) : "");
+    setBudgetRollover(budget?.rollover ?? false);
+  };
+
+  const handleSaveBudget = () => {
+    if (!budgetCategory) return;
+    const amount = parseCurrencyInput(budgetAmount);
+    if (amount <= 0) {
+      toast({ title: "Atenção", description: "Informe um valor maior que zero.", variant: "destructive" });
+      return;
+    }
+
+    const budget = getBudget(budgetCategory.id);
+    saveBudgetMutation.mutate({
+      budget,
+      data: budget
+        ? { amount, rollover: budgetRollover }
+        : { categoryId: budgetCategory.id, amount, rollover: budgetRollover },
+    });
+  };
+
+  const renderBudget = (category: Category) => {
+    const progress = getBudgetProgress(category.id);
+    if (!progress) return null;
+    return (
+      <div className="mt-3">
+        <BudgetProgressBar progress={progress} />
+      </div>
+    );
+  };
+
+  const renderBudgetButton = (category: Category) => (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => handleOpenBudget(category)}
+      title={getBudget(category.id) ? "Editar orçamento" : "Definir orçamento"}
+      data-testid={`button-budget-${category.id}`}
+    >
+      <PiggyBank className="w-4 h-4" />
+    </Button>
+  );
+
   const defaultCategories = categories?.filter((c) => c.isDefault) || [];
   const customCategories = categories?.filter((c) => !c.isDefault) || [];
 
@@ -270,7 +402,11 @@ export default function Categories() {
                   </div>
                   <div className="flex-1 min-w-0">
                     <h3 className="font-semibold truncate" data-testid={`text-name-${category.id}`}>{category.name}</h3>
-                    <Badge variant="outline" className="mt-2" data-testid={`badge-default-${category.id}`}>Padrão</Badge>
+                    <div className="flex items-center gap-2 mt-2">
+                      <Badge variant="outline" data-testid={`badge-default-${category.id}`}>Padrão</Badge>
+                      {renderBudgetButton(category)}
+                    </div>
+                    {renderBudget(category)}
                   </div>
                 </div>
               </Card>
@@ -302,6 +438,7 @@ export default function Categories() {
                   <div className="flex-1 min-w-0">
                     <h3 className="font-semibold truncate" data-testid={`text-name-${category.id}`}>{category.name}</h3>
                     <div className="flex gap-2 mt-3">
+                      {renderBudgetButton(category)}
                       <Button
                         size="sm"
                         variant="outline"
@@ -319,6 +456,7 @@ export default function Categories() {
                         <Trash2 className="w-4 h-4 text-destructive" />
                       </Button>
                     </div>
+                    {renderBudget(category)}
                   </div>
                 </div>
               </Card>
@@ -326,6 +464,76 @@ export default function Categories() {
           </div>
         )}
       </div>
+
+      <CategoryRulesCard categories={categories || []} />
+
+      <Dialog open={!!budgetCategory} onOpenChange={(isOpen) => !isOpen && setBudgetCategory(null)}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-budget">
+          <DialogHeader>
+            <DialogTitle>Orçamento - {budgetCategory?.name}</DialogTitle>
+            <DialogDescription>
+              Defina quanto você pretende gastar por mês nesta categoria
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Valor mensal (R$)</Label>
+              <Input
+                id="budget-amount"
+                type="text"
+                inputMode="numeric"
+                placeholder="1.500.00"
+                value={budgetAmount}
+                onChange={(e) => setBudgetAmount(formatCurrencyInput(e.target.value))}
+                data-testid="input-budget-amount"
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-lg bg-muted/50 p-4">
+              <div>
+                <Label htmlFor="budget-rollover">Acumular saldo não usado</Label>
+                <p className="text-xs text-muted-foreground">
+                  O que sobrar do mês anterior é somado ao orçamento
+                </p>
+              </div>
+              <Switch
+                id="budget-rollover"
+                checked={budgetRollover}
+                onCheckedChange={setBudgetRollover}
+                data-testid="switch-budget-rollover"
+              />
+            </div>
+            <div className="flex justify-between gap-3 pt-2">
+              {budgetCategory && getBudget(budgetCategory.id) ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => deleteBudgetMutation.mutate(getBudget(budgetCategory.id)!.id)}
+                  disabled={deleteBudgetMutation.isPending}
+                  data-testid="button-delete-budget"
+                >
+                  <Trash2 className="w-4 h-4 mr-2 text-destructive" />
+                  Remover
+                </Button>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-3">
+                <Button type="button" variant="outline" onClick={() => setBudgetCategory(null)} data-testid="button-cancel-budget">
+                  Cancelar
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSaveBudget}
+                  disabled={saveBudgetMutation.isPending}
+                  data-testid="button-save-budget"
+                >
+                  {saveBudgetMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
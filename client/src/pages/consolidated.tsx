@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Calendar as CalendarIcon,
+  TrendingUp,
+  TrendingDown,
+  Wallet,
+  Building2,
+  User,
+  Layers,
+} from "lucide-react";
+import type { ConsolidatedReport } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { workspaceKindLabels } from "@/hooks/useOrganization";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+const monthNames = [
+  "Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho",
+  "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro"
+];
+
+export default function Consolidated() {
+  const [_, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+
+  const { data: report, isLoading } = useQuery<ConsolidatedReport>({
+    queryKey: [`/api/organizations/consolidated?year=${selectedYear}&month=${selectedMonth}`],
+    retry: false,
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/organizations/${id}/switch`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      setLocation("/");
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível trocar de organização.", variant: "destructive" });
+    },
+  });
+
+  const handlePreviousMonth = () => {
+    if (selectedMonth === 1) {
+      setSelectedMonth(12);
+      setSelectedYear(selectedYear - 1);
+    } else {
+      setSelectedMonth(selectedMonth - 1);
+    }
+  };
+
+  const handleNextMonth = () => {
+    if (selectedMonth === 12) {
+      setSelectedMonth(1);
+      setSelectedYear(selectedYear + 1);
+    } else {
+      setSelectedMonth(selectedMonth + 1);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Visão Consolidada</h1>
+          <p className="text-muted-foreground">
+            Todas as suas organizações lado a lado, cada uma com seu próprio caixa
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handlePreviousMonth} data-testid="button-prev-month">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div className="flex items-center gap-2 min-w-[200px] justify-center">
+            <CalendarIcon className="w-5 h-5 text-muted-foreground" />
+            <span className="font-semibold" data-testid="text-selected-month">
+              {monthNames[selectedMonth - 1]} {selectedYear}
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleNextMonth} data-testid="button-next-month">
+            <ArrowRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <Skeleton className="h-28" />
+            <Skeleton className="h-28" />
+            <Skeleton className="h-28" />
+            <Skeleton className="h-28" />
+          </div>
+          <Skeleton className="h-64" />
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <Card className="p-6" data-testid="card-total-income">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Receitas</p>
+                  <h3 className="text-2xl font-bold mt-1 text-success">{formatCurrencyDisplay(report.totals.income)}</h3>
+                </div>
+                <TrendingUp className="w-6 h-6 text-success" />
+              </div>
+            </Card>
+            <Card className="p-6" data-testid="card-total-expenses">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Despesas</p>
+                  <h3 className="text-2xl font-bold mt-1 text-destructive">{formatCurrencyDisplay(report.totals.expenses)}</h3>
+                </div>
+                <TrendingDown className="w-6 h-6 text-destructive" />
+              </div>
+            </Card>
+            <Card className="p-6" data-testid="card-total-net">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Resultado</p>
+                  <h3 className={`text-2xl font-bold mt-1 ${report.totals.netResult < 0 ? "text-destructive" : ""}`}>
+                    {formatCurrencyDisplay(report.totals.netResult)}
+                  </h3>
+                </div>
+                <Layers className="w-6 h-6 text-primary" />
+              </div>
+            </Card>
+            <Card className="p-6" data-testid="card-total-balance">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Saldo em contas</p>
+                  <h3 className={`text-2xl font-bold mt-1 ${report.totals.accountsBalance < 0 ? "text-destructive" : ""}`}>
+                    {formatCurrencyDisplay(report.totals.accountsBalance)}
+                  </h3>
+                </div>
+                <Wallet className="w-6 h-6 text-primary" />
+              </div>
+            </Card>
+          </div>
+
+          {/* Per workspace */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-1">Por organização</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Pró-labore e outras retiradas aparecem como despesa na empresa e receita no pessoal
+            </p>
+            <div className="space-y-3">
+              {report.workspaces.map((workspace) => {
+                const KindIcon = workspace.kind === "business" ? Building2 : User;
+                return (
+                  <div
+                    key={workspace.organizationId}
+                    className="grid grid-cols-2 md:grid-cols-6 items-center gap-3 p-4 rounded-lg bg-muted/50"
+                    data-testid={`row-workspace-${workspace.organizationId}`}
+                  >
+                    <div className="col-span-2 flex items-center gap-3 min-w-0">
+                      <KindIcon className="w-5 h-5 text-primary flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{workspace.name}</p>
+                        <Badge variant="outline" className="text-xs mt-1">{workspaceKindLabels[workspace.kind]}</Badge>
+                      </div>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Receitas</p>
+                      <p className="font-medium tabular-nums text-success">{formatCurrencyDisplay(workspace.income)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Despesas</p>
+                      <p className="font-medium tabular-nums text-destructive">{formatCurrencyDisplay(workspace.expenses)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Saldo em contas</p>
+                      <p className={`font-medium tabular-nums ${workspace.accountsBalance < 0 ? "text-destructive" : ""}`}>
+                        {formatCurrencyDisplay(workspace.accountsBalance)}
+                      </p>
+                    </div>
+                    <div className="flex justify-end">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openMutation.mutate(workspace.organizationId)}
+                        disabled={openMutation.isPending}
+                        data-testid={`button-open-workspace-${workspace.organizationId}`}
+                      >
+                        Abrir
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
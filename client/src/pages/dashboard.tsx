@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -9,9 +9,12 @@ import {
   Receipt,
   Calendar,
   AlertCircle,
+  Wallet,
+  PiggyBank,
 } from "lucide-react";
-import type { AdvancedReport, Transaction, Category } from "@shared/schema";
+import type { AdvancedReport, TransactionPage, Category } from "@shared/schema";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization, workspaceKindLabels } from "@/hooks/useOrganization";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import {
@@ -21,12 +24,15 @@ import {
 } from "@/components/ui/chart";
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis } from "recharts";
 import { Badge } from "@/components/ui/badge";
-import { AccountModeModal } from "@/components/account-mode-modal";
+import { MonthlyBalanceCard } from "@/components/monthly-balance-card";
+import { CashFlowForecastCard } from "@/components/cash-flow-forecast-card";
+import { BudgetProgressBar } from "@/components/budget-progress-bar";
+import { transactionListUrl, monthRange } from "@/lib/transactionList";
 
 export default function Dashboard() {
   const { user, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
-  const [showAccountModal, setShowAccountModal] = useState(false);
+  const { activeOrganization } = useOrganization();
 
   const currentMonth = new Date().getMonth() + 1;
   const currentYear = new Date().getFullYear();
@@ -36,8 +42,9 @@ export default function Dashboard() {
     retry: false,
   });
 
-  const { data: transactions } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  // Latest rows of the month; the totals carry the month's paid/pending counts
+  const { data: monthPage } = useQuery<TransactionPage>({
+    queryKey: [transactionListUrl({ ...monthRange(currentYear, currentMonth), pageSize: 5 })],
     retry: false,
   });
 
@@ -46,13 +53,6 @@ export default function Dashboard() {
     retry: false,
   });
 
-  // Show account mode selection modal if user hasn't chosen yet
-  useEffect(() => {
-    if (user && !user.accountType) {
-      setShowAccountModal(true);
-    }
-  }, [user]);
-
   useEffect(() => {
     const checkAuth = () => {
       if (!authLoading && !user) {
@@ -69,14 +69,7 @@ export default function Dashboard() {
     checkAuth();
   }, [user, authLoading, toast]);
 
-  // Get recent transactions for display
-  const recentTransactions = transactions
-    ?.filter((t) => {
-      const date = new Date(t.date);
-      return date.getMonth() === currentMonth - 1 && date.getFullYear() === currentYear;
-    })
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    .slice(0, 5) || [];
+  const recentTransactions = monthPage?.items || [];
 
   if (authLoading || reportLoading || !advancedReport) {
     return (
@@ -98,15 +91,11 @@ export default function Dashboard() {
   // Extract data from advancedReport
   const totalThisMonth = advancedReport.overview.totalExpenses;
   const monthlyChange = advancedReport.trends.monthOverMonthChangePercent;
+  const { totalIncome, netResult, savingsRate } = advancedReport.cashFlow;
+  const budgetAlerts = advancedReport.budgets.filter((b) => b.isOverBudget || b.isProjectedOverBudget);
   
-  // Calculate paid/unpaid counts from transactions
-  const thisMonthTransactions = transactions?.filter((t) => {
-    const date = new Date(t.date);
-    return date.getMonth() === currentMonth - 1 && date.getFullYear() === currentYear;
-  }) || [];
-  
-  const paidThisMonth = thisMonthTransactions.filter((t) => t.status === "paid").length;
-  const unpaidThisMonth = thisMonthTransactions.filter((t) => t.status === "unpaid").length;
+  const paidThisMonth = monthPage?.totals.paidCount ?? 0;
+  const unpaidThisMonth = monthPage?.totals.unpaidCount ?? 0;
   
   const categoryData = advancedReport.categoryRankings.slice(0, 5).map(cat => ({
     name: cat.categoryName,
@@ -116,22 +105,18 @@ export default function Dashboard() {
 
   return (
     <div className="p-6 space-y-6 animate-fade-in">
-      <AccountModeModal
-        open={showAccountModal}
-        onClose={() => setShowAccountModal(false)}
-        currentAccountType={user?.accountType}
-      />
-
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground">
-            Visão geral das suas finanças
+            Visão geral das suas finanças{activeOrganization && ` em ${activeOrganization.name}`}
           </p>
         </div>
-        <Badge variant="outline" className="text-sm">
-          {user?.accountType === "business" ? "Modo Empresarial" : "Modo Pessoal"}
-        </Badge>
+        {activeOrganization && (
+          <Badge variant="outline" className="text-sm" data-testid="badge-workspace-kind">
+            {workspaceKindLabels[activeOrganization.kind]}
+          </Badge>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -195,6 +180,90 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <MonthlyBalanceCard year={currentYear} month={currentMonth} />
+
+      <CashFlowForecastCard />
+
+      {/* Cash Flow */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-6 lg:col-span-2" data-testid="card-cash-flow">
+          <h3 className="text-lg font-semibold mb-4">Fluxo de Caixa</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Receitas</p>
+              <h3 className="text-2xl font-bold mt-1 text-success" data-testid="text-total-income">
+                R$ {totalIncome.toFixed(2)}
+              </h3>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Resultado líquido</p>
+              <div className="flex items-center gap-2 mt-1">
+                <Wallet className={`w-5 h-5 ${netResult >= 0 ? "text-success" : "text-destructive"}`} />
+                <h3
+                  className={`text-2xl font-bold ${netResult >= 0 ? "text-success" : "text-destructive"}`}
+                  data-testid="text-net-result"
+                >
+                  R$ {netResult.toFixed(2)}
+                </h3>
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Taxa de poupança</p>
+              <div className="flex items-center gap-2 mt-1">
+                <PiggyBank className="w-5 h-5 text-primary" />
+                <h3 className="text-2xl font-bold" data-testid="text-savings-rate">
+                  {totalIncome > 0 ? `${savingsRate.toFixed(1)}%` : "—"}
+                </h3>
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6" data-testid="card-income-by-category">
+          <h3 className="text-lg font-semibold mb-4">Receitas por Categoria</h3>
+          {advancedReport.incomeByCategory.length > 0 ? (
+            <div className="space-y-2">
+              {advancedReport.incomeByCategory.slice(0, 5).map((cat) => (
+                <div key={cat.categoryId || "uncategorized"} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: cat.categoryColor }} />
+                    <span>{cat.categoryName}</span>
+                  </div>
+                  <span className="font-medium">R$ {cat.total.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nenhuma receita registrada este mês</p>
+          )}
+        </Card>
+      </div>
+
+      {/* Budgets */}
+      {advancedReport.budgets.length > 0 && (
+        <Card className="p-6" data-testid="card-budgets">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Orçamentos do Mês</h3>
+            {budgetAlerts.length > 0 && (
+              <Badge variant="destructive" data-testid="badge-budget-alerts">
+                {budgetAlerts.length} em risco
+              </Badge>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {advancedReport.budgets.map((budget) => (
+              <div key={budget.budgetId}>
+                <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: budget.categoryColor }} />
+                  {budget.categoryName}
+                </div>
+                <BudgetProgressBar progress={budget} />
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Charts Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Category Breakdown */}
@@ -276,7 +345,9 @@ export default function Dashboard() {
                       </div>
                     </div>
                     <div className="text-right">
-                      <p className="font-semibold">R$ {Number(transaction.amount).toFixed(2)}</p>
+                      <p className={`font-semibold ${transaction.type === "income" ? "text-success" : ""}`}>
+                        {transaction.type === "income" ? "+ " : ""}R$ {Number(transaction.amount).toFixed(2)}
+                      </p>
                       <Badge
                         variant={transaction.status === "paid" ? "default" : "secondary"}
                         className="text-xs mt-1"
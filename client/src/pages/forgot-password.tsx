@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { Loader2, MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const [_, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", { email });
+      setSent(true);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: apiErrorMessage(error, "Não foi possível enviar o link. Tente novamente."),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-4">
+            <div className="text-primary font-bold text-2xl">FinanceFlow</div>
+          </div>
+          <CardTitle className="text-2xl text-center">Esqueci minha senha</CardTitle>
+          <CardDescription className="text-center">
+            Informe o email da sua conta e enviaremos um link para criar uma nova senha
+          </CardDescription>
+        </CardHeader>
+        {sent ? (
+          <>
+            <CardContent className="flex flex-col items-center gap-3 text-center" data-testid="text-forgot-password-sent">
+              <MailCheck className="w-10 h-10 text-primary" />
+              <p className="text-sm text-muted-foreground">
+                Se <strong>{email}</strong> estiver cadastrado, você receberá em instantes um email com o link.
+                Ele vale por 1 hora.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" variant="outline" onClick={() => setLocation("/login")} data-testid="button-back-to-login">
+                Voltar para o login
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="seu@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-forgot-password-email"
+                  disabled={isLoading}
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-forgot-password-submit">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Enviando...
+                  </>
+                ) : (
+                  "Enviar link"
+                )}
+              </Button>
+              <button
+                type="button"
+                className="p-0 text-sm text-primary hover:underline"
+                onClick={() => setLocation("/login")}
+                data-testid="link-login"
+              >
+                Voltar para o login
+              </button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
 import { Loader2 } from "lucide-react";
 
 export default function Login() {
@@ -16,29 +18,131 @@ export default function Login() {
     email: "",
     password: "",
   });
+  // Second step, once the password is accepted for an account with two-factor on
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const signedIn = () => {
+    toast({
+      title: "Sucesso!",
+      description: "Login realizado com sucesso.",
+    });
+    setLocation("/");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await apiRequest("POST", "/api/auth/login", formData);
+      const res = await apiRequest("POST", "/api/auth/login", formData);
+      const body = await res.json();
+      if (body.twoFactorRequired) {
+        setTwoFactorRequired(true);
+      } else {
+        signedIn();
+      }
+    } catch (error: any) {
       toast({
-        title: "Sucesso!",
-        description: "Login realizado com sucesso.",
+        variant: "destructive",
+        title: "Erro no login",
+        description: apiErrorMessage(error, "Email ou senha incorretos."),
       });
-      setLocation("/");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/login/2fa", { code });
+      signedIn();
     } catch (error: any) {
+      const message = apiErrorMessage(error, "Código inválido.");
       toast({
         variant: "destructive",
         title: "Erro no login",
-        description: error.message || "Email ou senha incorretos.",
+        description: message,
       });
+      setCode("");
+      // The server drops the pending login after too many attempts or when it expires
+      if (message !== "Código inválido") {
+        setTwoFactorRequired(false);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (twoFactorRequired) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <div className="flex items-center justify-center mb-4">
+              <div className="text-primary font-bold text-2xl">FinanceFlow</div>
+            </div>
+            <CardTitle className="text-2xl text-center">Verificação em dois fatores</CardTitle>
+            <CardDescription className="text-center">
+              {useRecoveryCode
+                ? "Digite um dos seus códigos de recuperação"
+                : "Digite o código de 6 dígitos do seu aplicativo autenticador"}
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleCodeSubmit}>
+            <CardContent className="flex justify-center">
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="off"
+                  required
+                  data-testid="input-login-recovery-code"
+                  disabled={isLoading}
+                />
+              ) : (
+                <TwoFactorCodeInput value={code} onChange={setCode} disabled={isLoading} data-testid="input-login-totp" />
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (!useRecoveryCode && code.length < 6)}
+                data-testid="button-login-2fa-submit"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verificando...
+                  </>
+                ) : (
+                  "Verificar"
+                )}
+              </Button>
+              <button
+                type="button"
+                className="p-0 text-sm text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                }}
+                data-testid="button-toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Usar o aplicativo autenticador" : "Perdeu o acesso ao aplicativo? Use um código de recuperação"}
+              </button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -67,7 +171,17 @@ export default function Login() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Senha</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Senha</Label>
+                <button
+                  type="button"
+                  className="p-0 text-sm text-primary hover:underline"
+                  onClick={() => setLocation("/forgot-password")}
+                  data-testid="link-forgot-password"
+                >
+                  Esqueci minha senha
+                </button>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCnpj } from "@/lib/formatCnpj";
 import { Loader2 } from "lucide-react";
 
 export default function Register() {
@@ -163,9 +164,14 @@ export default function Register() {
                 </SelectTrigger>
                 <SelectContent className="z-[100]">
                   <SelectItem value="personal" data-testid="account-type-personal">Pessoal</SelectItem>
-                  <SelectItem value="business" data-testid="account-type-business">Empresa (PJ)</SelectItem>
+                  <SelectItem value="business" data-testid="account-type-business">Pessoal + Empresa (PJ)</SelectItem>
                 </SelectContent>
               </Select>
+              {formData.accountType === "business" && (
+                <p className="text-xs text-muted-foreground">
+                  Suas finanças pessoais e as da empresa ficam separadas; você alterna entre elas no menu lateral.
+                </p>
+              )}
             </div>
 
             {formData.accountType === "business" && (
@@ -189,7 +195,7 @@ export default function Register() {
                     type="text"
                     placeholder="00.000.000/0000-00"
                     value={formData.cnpj}
-                    onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
+                    onChange={(e) => setFormData({ ...formData, cnpj: formatCnpj(e.target.value) })}
                     data-testid="input-register-cnpj"
                     disabled={isLoading}
                   />
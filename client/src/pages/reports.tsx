@@ -4,7 +4,10 @@ import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, TrendingDown, AlertCircle, Lightbulb } from "lucide-react";
-import type { AdvancedReport, Transaction } from "@shared/schema";
+import type { AdvancedReport, MonthlySeriesPoint, ReportDateBasis } from "@shared/schema";
+import { ExportMenu } from "@/components/export-menu";
+import { TrendReportCard } from "@/components/trend-report-card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   ChartContainer,
   ChartTooltip,
@@ -24,19 +27,23 @@ import {
 export default function Reports() {
   const [selectedMonth] = useState(new Date().getMonth() + 1);
   const [selectedYear] = useState(new Date().getFullYear());
+  // Card purchases count in the month they were made or the month their statement is due
+  const [dateBasis, setDateBasis] = useState<ReportDateBasis>("purchase");
+  const reportParams = `year=${selectedYear}&month=${selectedMonth}${dateBasis === "due" ? "&basis=due" : ""}`;
 
   const { data: advancedReport, isLoading } = useQuery<AdvancedReport>({
-    queryKey: [`/api/reports/advanced?year=${selectedYear}&month=${selectedMonth}`],
+    queryKey: [`/api/reports/advanced?${reportParams}`],
     retry: false,
   });
 
-  const { data: transactions } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  // Totals of the six months shown in the evolution chart
+  const { data: series } = useQuery<MonthlySeriesPoint[]>({
+    queryKey: [`/api/reports/series?${reportParams}&months=6`],
     retry: false,
   });
 
   const reportData = useMemo(() => {
-    if (!advancedReport || !transactions) return null;
+    if (!advancedReport || !series) return null;
 
     // Use data from advancedReport
     const currentTotal = advancedReport.overview.totalExpenses;
@@ -61,28 +68,14 @@ export default function Reports() {
       color: cat.categoryColor,
     }));
 
-    // Monthly evolution (last 6 months)
-    const monthlyEvolution = [];
-    for (let i = 5; i >= 0; i--) {
-      // Create a Date object for the target month (i months before selectedMonth)
-      const targetDate = new Date(selectedYear, selectedMonth - 1 - i, 1);
-      const targetMonth = targetDate.getMonth();
-      const targetYear = targetDate.getFullYear();
-
-      const monthTx = transactions.filter((t) => {
-        const date = new Date(t.date);
-        return date.getMonth() === targetMonth && date.getFullYear() === targetYear;
-      });
-
-      const total = monthTx.reduce((sum, t) => sum + Number(t.amount), 0);
-
-      monthlyEvolution.push({
-        month: targetDate.toLocaleDateString("pt-BR", {
-          month: "short",
-        }),
-        value: total,
-      });
-    }
+    // Monthly evolution (last 6 months), summed by the server
+    const monthlyEvolution = series.map((point) => ({
+      month: new Date(point.year, point.month - 1, 1).toLocaleDateString("pt-BR", {
+        month: "short",
+      }),
+      value: point.expenses,
+      income: point.income,
+    }));
 
     // Recommendations - top 3 increased categories
     const increased = categoryComparison
@@ -108,7 +101,7 @@ export default function Reports() {
       monthlyEvolution,
       recommendations,
     };
-  }, [advancedReport, transactions, selectedMonth, selectedYear]);
+  }, [advancedReport, series]);
 
   if (isLoading || !reportData) {
     return (
@@ -128,9 +121,25 @@ export default function Reports() {
 
   return (
     <div className="p-6 space-y-6 animate-fade-in">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Relatórios</h1>
-        <p className="text-muted-foreground">Análise comparativa e insights sobre seus gastos</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Relatórios</h1>
+          <p className="text-muted-foreground">Análise comparativa e insights sobre seus gastos</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={dateBasis}
+            onValueChange={(value) => value && setDateBasis(value as ReportDateBasis)}
+            data-testid="toggle-report-basis"
+          >
+            <ToggleGroupItem value="purchase" data-testid="toggle-basis-purchase">Data da compra</ToggleGroupItem>
+            <ToggleGroupItem value="due" data-testid="toggle-basis-due">Vencimento da fatura</ToggleGroupItem>
+          </ToggleGroup>
+          <ExportMenu url={`/api/exports/reports/advanced?${reportParams}`} />
+        </div>
       </div>
 
       {/* Comparison Header */}
@@ -207,6 +216,15 @@ export default function Reports() {
                       stroke="hsl(var(--primary))"
                       strokeWidth={2}
                       dot={{ fill: "hsl(var(--primary))", r: 4 }}
+                      name="Despesas"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="income"
+                      stroke="hsl(var(--success))"
+                      strokeWidth={2}
+                      dot={{ fill: "hsl(var(--success))", r: 4 }}
+                      name="Receitas"
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -221,6 +239,9 @@ export default function Reports() {
         </Card>
       </div>
 
+      {/* Custom range with year-over-year comparison */}
+      <TrendReportCard dateBasis={dateBasis} />
+
       {/* Ranking */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4">Top 5 Categorias - {currentMonthName}</h3>
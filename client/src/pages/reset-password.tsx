@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { Loader2 } from "lucide-react";
+
+// Opened from the link in the reset email: /reset-password?token=...
+export default function ResetPassword() {
+  const [_, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.password !== formData.confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: "As senhas não coincidem.",
+      });
+      return;
+    }
+
+    if (formData.password.length < 6) {
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: "A senha deve ter no mínimo 6 caracteres.",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: formData.password });
+      toast({
+        title: "Senha redefinida!",
+        description: "Entre com sua nova senha.",
+      });
+      setLocation("/login");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: apiErrorMessage(error, "Não foi possível redefinir a senha."),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center mb-4">
+            <div className="text-primary font-bold text-2xl">FinanceFlow</div>
+          </div>
+          <CardTitle className="text-2xl text-center">Nova senha</CardTitle>
+          <CardDescription className="text-center">
+            {token ? "Escolha a nova senha da sua conta" : "Link inválido. Solicite um novo link de redefinição."}
+          </CardDescription>
+        </CardHeader>
+        {token ? (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">Nova senha</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  required
+                  data-testid="input-reset-password"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirmar nova senha</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                  required
+                  data-testid="input-reset-password-confirm"
+                  disabled={isLoading}
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-reset-password-submit">
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Salvando...
+                  </>
+                ) : (
+                  "Redefinir senha"
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        ) : (
+          <CardFooter>
+            <Button className="w-full" onClick={() => setLocation("/forgot-password")} data-testid="button-request-new-link">
+              Solicitar novo link
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -4,12 +4,21 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Building2, User, Settings as SettingsIcon } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization, workspaceKindLabels } from "@/hooks/useOrganization";
+import { formatCnpj } from "@/lib/formatCnpj";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AccountModeModal } from "@/components/account-mode-modal";
+import { WorkspaceFormDialog } from "@/components/workspace-form-dialog";
+import { TeamMembersCard } from "@/components/team-members-card";
+import { AccountSecurityCard } from "@/components/account-security-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
+import { LoginAttemptsCard } from "@/components/login-attempts-card";
+import { ActiveSessionsCard } from "@/components/active-sessions-card";
+import { ApiTokensCard } from "@/components/api-tokens-card";
 
 export default function Settings() {
   const { user, isLoading } = useAuth();
-  const [showAccountModal, setShowAccountModal] = useState(false);
+  const { activeOrganization, canManage } = useOrganization();
+  const [showWorkspaceDialog, setShowWorkspaceDialog] = useState(false);
 
   if (isLoading) {
     return (
@@ -22,10 +31,10 @@ export default function Settings() {
 
   return (
     <div className="p-6 space-y-6 animate-fade-in">
-      <AccountModeModal
-        open={showAccountModal}
-        onClose={() => setShowAccountModal(false)}
-        currentAccountType={user?.accountType}
+      <WorkspaceFormDialog
+        open={showWorkspaceDialog}
+        onClose={() => setShowWorkspaceDialog(false)}
+        workspace={activeOrganization}
       />
 
       <div>
@@ -54,54 +63,79 @@ export default function Settings() {
               </p>
             </div>
           </div>
+        </div>
+      </Card>
 
-          <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
-            <div className="flex items-center gap-3">
+      <AccountSecurityCard />
+      <TwoFactorCard />
+      <ActiveSessionsCard />
+      <LoginAttemptsCard />
+
+      {/* Active Workspace */}
+      {activeOrganization && (
+        <Card className="p-6" data-testid="card-workspace">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Organização Ativa</h2>
+            {canManage && (
+              <Button
+                variant="outline"
+                onClick={() => setShowWorkspaceDialog(true)}
+                data-testid="button-edit-workspace"
+              >
+                Editar
+              </Button>
+            )}
+          </div>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+              <div>
+                <p className="text-sm text-muted-foreground">Nome</p>
+                <p className="font-medium" data-testid="text-workspace-name">{activeOrganization.name}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
               <div>
-                <p className="text-sm text-muted-foreground">Modo da Conta</p>
+                <p className="text-sm text-muted-foreground">Tipo</p>
                 <div className="flex items-center gap-2 mt-1">
-                  {user?.accountType === "business" ? (
+                  {activeOrganization.kind === "business" ? (
                     <Building2 className="w-4 h-4" />
                   ) : (
                     <User className="w-4 h-4" />
                   )}
-                  <p className="font-medium">
-                    {user?.accountType === "business" ? "Empresarial (PJ)" : "Pessoal"}
+                  <p className="font-medium" data-testid="text-workspace-kind">
+                    {workspaceKindLabels[activeOrganization.kind]}
                   </p>
                 </div>
               </div>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => setShowAccountModal(true)}
-              data-testid="button-change-account-mode"
-            >
-              Alterar
-            </Button>
-          </div>
 
-          {user?.accountType === "business" && (
-            <>
-              {user.companyName && (
-                <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Nome da Empresa</p>
-                    <p className="font-medium">{user.companyName}</p>
+            {activeOrganization.kind === "business" && (
+              <>
+                {activeOrganization.companyName && (
+                  <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Razão Social</p>
+                      <p className="font-medium">{activeOrganization.companyName}</p>
+                    </div>
                   </div>
-                </div>
-              )}
-              {user.cnpj && (
-                <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
-                  <div>
-                    <p className="text-sm text-muted-foreground">CNPJ</p>
-                    <p className="font-medium">{user.cnpj}</p>
+                )}
+                {activeOrganization.cnpj && (
+                  <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+                    <div>
+                      <p className="text-sm text-muted-foreground">CNPJ</p>
+                      <p className="font-medium">{formatCnpj(activeOrganization.cnpj)}</p>
+                    </div>
                   </div>
-                </div>
-              )}
-            </>
-          )}
-        </div>
-      </Card>
+                )}
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+
+      <TeamMembersCard />
+      <ApiTokensCard />
 
       {/* Application Info */}
       <Card className="p-6">
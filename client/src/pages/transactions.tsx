@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -38,49 +39,124 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Pencil, Trash2, Search } from "lucide-react";
-import type { Transaction, Category } from "@shared/schema";
+import { ToastAction } from "@/components/ui/toast";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Pencil, Trash2, Search, Upload, Repeat, ArrowLeftRight, CreditCard, History, ChevronLeft, ChevronRight } from "lucide-react";
+import type {
+  Transaction,
+  Category,
+  CategorySuggestion,
+  RecurringSeries,
+  RecurrenceScope,
+  FinancialAccountWithBalance,
+  TransactionPage,
+  TransactionSortField,
+} from "@shared/schema";
 import { insertTransactionSchema } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, invalidateTransactionQueries } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { z } from "zod";
 import { formatCurrencyInput, parseCurrencyInput, formatCurrencyDisplay } from "@/lib/formatCurrency";
+import { ImportWizard } from "@/components/import-wizard";
+import { ExportMenu } from "@/components/export-menu";
+import { RecurrenceScopeDialog } from "@/components/recurrence-scope-dialog";
+import { AuditHistorySheet } from "@/components/audit-history-sheet";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { transactionListUrl } from "@/lib/transactionList";
 
-const formSchema = insertTransactionSchema.extend({
-  categoryId: z.string().min(1, "Selecione uma categoria"),
+const formSchema = insertTransactionSchema.omit({ userId: true, organizationId: true }).extend({
+  // Left empty, the server picks one from the categorization rules or history
+  categoryId: z.string().optional(),
   amount: z.string().min(1, "Digite um valor"),
+  // When a recurring series stops - both optional
+  endDate: z.string().optional(),
+  maxOccurrences: z.string().optional(),
+  // More than one splits a credit card purchase across statements
+  installmentCount: z.string().optional(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+const PAGE_SIZE = 50;
+
+// Typing in the search box only hits the server once the user pauses
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function Transactions() {
   const { toast } = useToast();
   const { user } = useAuth();
+  // The change history comes from the audit log, which only admins can read
+  const { canManage } = useOrganization();
   const [open, setOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
+  const [filterAccount, setFilterAccount] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [filterType, setFilterType] = useState<string>("all");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [sort, setSort] = useState<TransactionSortField>("date");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  const [suggestionUrl, setSuggestionUrl] = useState<string | null>(null);
+  // Series occurrences ask which occurrences an edit or delete applies to
+  const [pendingUpdate, setPendingUpdate] = useState<any | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Transaction | null>(null);
+  const [historyTransactionId, setHistoryTransactionId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: "",
       amount: "",
+      type: "expense",
       date: new Date().toISOString().split("T")[0],
       categoryId: "",
+      accountId: "",
       status: "unpaid",
       notes: "",
       recurrenceType: "none",
       recurrenceDay: null,
+      endDate: "",
+      maxOccurrences: "",
+      installmentCount: "",
     },
   });
 
-  const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Filters, search and sorting are applied by the server; "all" means no filter
+  const listFilters = {
+    search: debouncedSearch,
+    categoryId: filterCategory !== "all" ? filterCategory : undefined,
+    accountId: filterAccount !== "all" ? filterAccount : undefined,
+    status: filterStatus !== "all" ? filterStatus : undefined,
+    type: filterType !== "all" ? filterType : undefined,
+    minAmount: minAmount ? parseCurrencyInput(minAmount) : undefined,
+    maxAmount: maxAmount ? parseCurrencyInput(maxAmount) : undefined,
+  };
+
+  // Any change to what is listed starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, filterCategory, filterAccount, filterStatus, filterType, minAmount, maxAmount, sort, order]);
+
+  const { data: transactionPage, isLoading: transactionsLoading } = useQuery<TransactionPage>({
+    queryKey: [transactionListUrl({ ...listFilters, sort, order, page, pageSize: PAGE_SIZE })],
     retry: false,
+    // Keeps the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
   });
 
   const { data: categories } = useQuery<Category[]>({
@@ -88,15 +164,70 @@ export default function Transactions() {
     retry: false,
   });
 
+  const { data: accounts } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+    retry: false,
+  });
+
+  // New transactions start on the first active account
+  useEffect(() => {
+    const firstAccount = accounts?.find((a) => !a.isArchived);
+    if (open && !editingTransaction && !form.getValues("accountId") && firstAccount) {
+      form.setValue("accountId", firstAccount.id);
+    }
+  }, [open, editingTransaction, accounts, form]);
+
+  const { data: recurringSeries } = useQuery<RecurringSeries[]>({
+    queryKey: ["/api/recurring-series"],
+    retry: false,
+  });
+
+  const getSeries = (transaction: Transaction) =>
+    transaction.seriesId ? recurringSeries?.find((s) => s.id === transaction.seriesId) : undefined;
+
+  const watchedTitle = form.watch("title");
+  const watchedType = form.watch("type");
+  const watchedAmount = form.watch("amount");
+  const watchedAccount = accounts?.find((a) => a.id === form.watch("accountId"));
+  const canSplitInstallments =
+    !editingTransaction &&
+    watchedType === "expense" &&
+    watchedAccount?.type === "credit_card" &&
+    !!watchedAccount.closingDay &&
+    !!watchedAccount.dueDay;
+  const installmentCount = canSplitInstallments ? parseInt(form.watch("installmentCount") || "") || 1 : 1;
+
+  // Debounce the title so a suggestion is not requested on every keystroke
+  useEffect(() => {
+    if (editingTransaction || categoryTouched || watchedTitle.trim().length < 3) {
+      setSuggestionUrl(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      const params = new URLSearchParams({ title: watchedTitle.trim(), type: watchedType });
+      if (watchedAmount) params.set("amount", parseCurrencyInput(watchedAmount).toString());
+      setSuggestionUrl(`/api/category-suggestions?${params.toString()}`);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [watchedTitle, watchedType, watchedAmount, editingTransaction, categoryTouched]);
+
+  const { data: suggestion } = useQuery<CategorySuggestion | null>({
+    queryKey: [suggestionUrl],
+    enabled: suggestionUrl !== null,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (categoryTouched || editingTransaction) return;
+    form.setValue("categoryId", suggestion?.categoryId || "");
+  }, [suggestion, categoryTouched, editingTransaction]);
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       await apiRequest("POST", "/api/transactions", data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-      queryClient.invalidateQueries({ 
-        predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/reports'))
-      });
+      invalidateTransactionQueries();
       toast({ title: "Sucesso!", description: "Transação criada com sucesso." });
       handleClose();
     },
@@ -105,15 +236,26 @@ export default function Transactions() {
     },
   });
 
+  const createInstallmentsMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("POST", "/api/installment-purchases", data);
+    },
+    onSuccess: () => {
+      invalidateTransactionQueries();
+      toast({ title: "Sucesso!", description: "Compra parcelada criada com sucesso." });
+      handleClose();
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível criar a compra parcelada.", variant: "destructive" });
+    },
+  });
+
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
       await apiRequest("PATCH", `/api/transactions/${id}`, data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-      queryClient.invalidateQueries({ 
-        predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/reports'))
-      });
+      invalidateTransactionQueries();
       toast({ title: "Sucesso!", description: "Transação atualizada com sucesso." });
       handleClose();
     },
@@ -123,35 +265,99 @@ export default function Transactions() {
   });
 
   const deleteMutation = useMutation({
+    mutationFn: async ({ id, scope }: { id: string; scope?: RecurrenceScope }) => {
+      await apiRequest("DELETE", `/api/transactions/${id}${scope ? `?scope=${scope}` : ""}`);
+    },
+    onSuccess: (_, { id, scope }) => {
+      invalidateTransactionQueries();
+      // Restoring the row also brings back the other occurrences trashed with it
+      const single = !scope || scope === "this";
+      toast({
+        title: "Sucesso!",
+        description: single ? "Transação movida para a lixeira." : "Ocorrências movidas para a lixeira.",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreMutation.mutate(id)} data-testid="button-undo-delete">
+            Desfazer
+          </ToastAction>
+        ),
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível excluir a transação.", variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/transactions/${id}`);
+      await apiRequest("POST", `/api/trash/transactions/${id}/restore`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-      queryClient.invalidateQueries({ 
-        predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/reports'))
+      invalidateTransactionQueries();
+      toast({ title: "Sucesso!", description: "Transação restaurada." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível restaurar a transação.", variant: "destructive" });
+    },
+  });
+
+  // Installments go to the trash together with the purchase they belong to;
+  // restoring the clicked one brings the others back
+  const deleteInstallmentsMutation = useMutation({
+    mutationFn: async ({ purchaseId }: { purchaseId: string; transactionId: string }) => {
+      await apiRequest("DELETE", `/api/installment-purchases/${purchaseId}`);
+    },
+    onSuccess: (_, { transactionId }) => {
+      invalidateTransactionQueries();
+      toast({
+        title: "Sucesso!",
+        description: "Compra parcelada movida para a lixeira.",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreMutation.mutate(transactionId)} data-testid="button-undo-delete-installments">
+            Desfazer
+          </ToastAction>
+        ),
       });
-      toast({ title: "Sucesso!", description: "Transação excluída com sucesso." });
     },
     onError: () => {
-      toast({ title: "Erro", description: "Não foi possível excluir a transação.", variant: "destructive" });
+      toast({ title: "Erro", description: "Não foi possível excluir a compra parcelada.", variant: "destructive" });
     },
   });
 
   const handleClose = () => {
     setOpen(false);
     setEditingTransaction(null);
+    setCategoryTouched(false);
+    setSuggestionUrl(null);
     form.reset();
   };
 
   const handleSubmit = (values: FormValues) => {
+    if (installmentCount > 1) {
+      createInstallmentsMutation.mutate({
+        accountId: values.accountId,
+        categoryId: values.categoryId || null,
+        title: values.title,
+        totalAmount: parseCurrencyInput(values.amount),
+        installmentCount,
+        purchaseDate: values.date,
+        notes: values.notes || null,
+      });
+      return;
+    }
+
+    const { maxOccurrences, endDate, installmentCount: _installments, ...fields } = values;
     const data = {
-      ...values,
+      ...fields,
       amount: parseCurrencyInput(values.amount),
+      categoryId: values.categoryId || null,
       isRecurring: values.recurrenceType !== "none",
+      endDate: endDate || null,
+      maxOccurrences: maxOccurrences ? parseInt(maxOccurrences) : null,
     };
 
-    if (editingTransaction) {
+    if (editingTransaction?.seriesId) {
+      setPendingUpdate(data);
+    } else if (editingTransaction) {
       updateMutation.mutate({ id: editingTransaction.id, data });
     } else {
       createMutation.mutate(data);
@@ -161,25 +367,51 @@ export default function Transactions() {
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
     const amountInCents = Math.round(Number(transaction.amount) * 100);
+    // Occurrences of a series show the series schedule
+    const series = getSeries(transaction);
     form.reset({
       title: transaction.title,
       amount: formatCurrencyInput(amountInCents.toString()),
+      type: transaction.type,
       date: new Date(transaction.date).toISOString().split("T")[0],
       categoryId: transaction.categoryId || "",
+      accountId: transaction.accountId || "",
       status: transaction.status as "paid" | "unpaid",
       notes: transaction.notes || "",
-      recurrenceType: transaction.recurrenceType as any,
-      recurrenceDay: transaction.recurrenceDay,
+      recurrenceType: (series?.recurrenceType ?? transaction.recurrenceType) as any,
+      recurrenceDay: series ? series.recurrenceDay : transaction.recurrenceDay,
+      endDate: series?.endDate ? new Date(series.endDate).toISOString().split("T")[0] : "",
+      maxOccurrences: series?.maxOccurrences ? series.maxOccurrences.toString() : "",
     });
     setOpen(true);
   };
 
-  const filteredTransactions = transactions?.filter((t) => {
-    const matchesSearch = t.title.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = filterCategory === "all" || t.categoryId === filterCategory;
-    const matchesStatus = filterStatus === "all" || t.status === filterStatus;
-    return matchesSearch && matchesCategory && matchesStatus;
-  }) || [];
+  const filteredTransactions = transactionPage?.items || [];
+  const totalPages = transactionPage ? Math.max(1, Math.ceil(transactionPage.total / transactionPage.pageSize)) : 1;
+
+  // Bulk actions apply to the selected rows still visible on the current page
+  const selectedVisibleIds = filteredTransactions.filter((t) => selectedIds.has(t.id)).map((t) => t.id);
+  const allVisibleSelected = filteredTransactions.length > 0 && selectedVisibleIds.length === filteredTransactions.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredTransactions.map((t) => t.id)) : new Set());
+  };
+
+  // Exports honor the same filters and search applied to the list, across all pages
+  const exportParams = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...listFilters, sort, order })) {
+    if (value !== undefined && value !== "") exportParams.set(key, String(value));
+  }
+  const exportUrl = `/api/exports/transactions?${exportParams.toString()}`;
 
   if (transactionsLoading) {
     return (
@@ -197,57 +429,37 @@ export default function Transactions() {
           <h1 className="text-3xl font-bold tracking-tight" data-testid="heading-transactions">Transações</h1>
           <p className="text-muted-foreground">Gerencie todas as suas transações financeiras</p>
         </div>
-        <Dialog open={open} onOpenChange={setOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-transaction">
-              <Plus className="w-4 h-4 mr-2" />
-              Nova Transação
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md" data-testid="dialog-transaction">
-            <DialogHeader>
-              <DialogTitle>{editingTransaction ? "Editar" : "Nova"} Transação</DialogTitle>
-              <DialogDescription>
-                {editingTransaction ? "Atualize" : "Adicione"} os detalhes da transação
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="title"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Título *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Ex: Aluguel, Conta de Luz..." {...field} data-testid="input-title" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="grid grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          <ExportMenu url={exportUrl} />
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-statement">
+            <Upload className="w-4 h-4 mr-2" />
+            Importar Extrato
+          </Button>
+          <ImportWizard open={importOpen} onClose={() => setImportOpen(false)} />
+          <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-transaction">
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Transação
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md" data-testid="dialog-transaction">
+              <DialogHeader>
+                <DialogTitle>{editingTransaction ? "Editar" : "Nova"} Transação</DialogTitle>
+                <DialogDescription>
+                  {editingTransaction ? "Atualize" : "Adicione"} os detalhes da transação
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
                   <FormField
                     control={form.control}
-                    name="amount"
+                    name="title"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Valor (R$) *</FormLabel>
+                        <FormLabel>Título *</FormLabel>
                         <FormControl>
-                          <Input
-                            type="text"
-                            inputMode="numeric"
-                            placeholder="46.000.00"
-                            value={field.value || ''}
-                            onChange={(e) => {
-                              const formatted = formatCurrencyInput(e.target.value);
-                              field.onChange(formatted);
-                            }}
-                            onBlur={field.onBlur}
-                            name={field.name}
-                            ref={field.ref}
-                            data-testid="input-amount"
-                          />
+                          <Input placeholder="Ex: Aluguel, Conta de Luz..." {...field} data-testid="input-title" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -255,121 +467,281 @@ export default function Transactions() {
                   />
                   <FormField
                     control={form.control}
-                    name="date"
+                    name="type"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Data *</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="date" 
-                            {...field}
-                            value={typeof field.value === 'string' ? field.value : new Date(field.value).toISOString().split('T')[0]}
-                            data-testid="input-date" 
-                          />
-                        </FormControl>
+                        <FormLabel>Tipo *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || "expense"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="expense">Despesa</SelectItem>
+                            <SelectItem value="income">Receita</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-                <FormField
-                  control={form.control}
-                  name="categoryId"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Categoria *</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
-                        <FormControl>
-                          <SelectTrigger data-testid="select-category">
-                            <SelectValue placeholder="Selecione uma categoria" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {categories?.map((cat) => (
-                            <SelectItem key={cat.id} value={cat.id}>
-                              {cat.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="amount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Valor (R$) *</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="text"
+                              inputMode="numeric"
+                              placeholder="46.000.00"
+                              value={field.value || ''}
+                              onChange={(e) => {
+                                const formatted = formatCurrencyInput(e.target.value);
+                                field.onChange(formatted);
+                              }}
+                              onBlur={field.onBlur}
+                              name={field.name}
+                              ref={field.ref}
+                              data-testid="input-amount"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Data *</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="date" 
+                              {...field}
+                              value={typeof field.value === 'string' ? field.value : new Date(field.value).toISOString().split('T')[0]}
+                              data-testid="input-date" 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="accountId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Conta *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || ""}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-account">
+                              <SelectValue placeholder="Selecione uma conta" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {accounts
+                              ?.filter((account) => !account.isArchived || account.id === field.value)
+                              .map((account) => (
+                                <SelectItem key={account.id} value={account.id}>
+                                  {account.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="categoryId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Categoria</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            setCategoryTouched(true);
+                            field.onChange(value);
+                          }}
+                          value={field.value || ""}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-category">
+                              <SelectValue placeholder="Automática" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {categories?.map((cat) => (
+                              <SelectItem key={cat.id} value={cat.id}>
+                                {cat.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {!categoryTouched && !editingTransaction && suggestion && field.value === suggestion.categoryId && (
+                          <FormDescription data-testid="text-category-suggestion">
+                            {suggestion.source === "rule" ? "Sugerida por uma regra" : "Sugerida pelo seu histórico"}
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field}) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || "unpaid"}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="unpaid">{form.watch("type") === "income" ? "A Receber" : "Não Pago"}</SelectItem>
+                            <SelectItem value="paid">{form.watch("type") === "income" ? "Recebido" : "Pago"}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {canSplitInstallments && (
+                    <FormField
+                      control={form.control}
+                      name="installmentCount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Parcelas</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={48}
+                              placeholder="À vista"
+                              {...field}
+                              value={field.value || ""}
+                              data-testid="input-installment-count"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            {installmentCount > 1
+                              ? `O valor total é dividido em ${installmentCount} faturas`
+                              : "Opcional"}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field}) => (
-                    <FormItem>
-                      <FormLabel>Status</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value || "unpaid"}>
-                        <FormControl>
-                          <SelectTrigger data-testid="select-status">
-                            <SelectValue />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="unpaid">Não Pago</SelectItem>
-                          <SelectItem value="paid">Pago</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+                  {installmentCount === 1 && (
+                    <FormField
+                      control={form.control}
+                      name="recurrenceType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Recorrência</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value || "none"}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-recurrence">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="none">Sem Recorrência</SelectItem>
+                              <SelectItem value="monthly">Mensal</SelectItem>
+                              <SelectItem value="weekly">Semanal</SelectItem>
+                              <SelectItem value="biweekly">Quinzenal</SelectItem>
+                              <SelectItem value="monthly_variable">Mensal (Valor Variável)</SelectItem>
+                              <SelectItem value="quarterly">Trimestral</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
-                <FormField
-                  control={form.control}
-                  name="recurrenceType"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Recorrência</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value || "none"}>
+                  {installmentCount === 1 && form.watch("recurrenceType") && form.watch("recurrenceType") !== "none" && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="endDate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Termina em</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} value={field.value || ""} data-testid="input-series-end-date" />
+                            </FormControl>
+                            <FormDescription>Opcional</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="maxOccurrences"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nº de ocorrências</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                placeholder="Sem limite"
+                                {...field}
+                                value={field.value || ""}
+                                data-testid="input-series-max-occurrences"
+                              />
+                            </FormControl>
+                            <FormDescription>Opcional</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Observações</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-recurrence">
-                            <SelectValue />
-                          </SelectTrigger>
+                          <Textarea placeholder="Notas adicionais..." {...field} value={field.value || ""} data-testid="textarea-notes" />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="none">Sem Recorrência</SelectItem>
-                          <SelectItem value="monthly">Mensal</SelectItem>
-                          <SelectItem value="weekly">Semanal</SelectItem>
-                          <SelectItem value="biweekly">Quinzenal</SelectItem>
-                          <SelectItem value="monthly_variable">Mensal (Valor Variável)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="notes"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Observações</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Notas adicionais..." {...field} value={field.value || ""} data-testid="textarea-notes" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="flex justify-end gap-3">
-                  <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
-                    Cancelar
-                  </Button>
-                  <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending} data-testid="button-save">
-                    {createMutation.isPending || updateMutation.isPending ? "Salvando..." : "Salvar"}
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex justify-end gap-3">
+                    <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+                      Cancelar
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={createMutation.isPending || createInstallmentsMutation.isPending || updateMutation.isPending}
+                      data-testid="button-save"
+                    >
+                      {createMutation.isPending || createInstallmentsMutation.isPending || updateMutation.isPending ? "Salvando..." : "Salvar"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card className="p-4">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
             <Input
@@ -393,6 +765,19 @@ export default function Transactions() {
               ))}
             </SelectContent>
           </Select>
+          <Select value={filterAccount} onValueChange={setFilterAccount}>
+            <SelectTrigger data-testid="filter-account">
+              <SelectValue placeholder="Todas as contas" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as contas</SelectItem>
+              {accounts?.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select value={filterStatus} onValueChange={setFilterStatus}>
             <SelectTrigger data-testid="filter-status">
               <SelectValue placeholder="Todos os status" />
@@ -403,13 +788,72 @@ export default function Transactions() {
               <SelectItem value="unpaid">Não Pagos</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={filterType} onValueChange={setFilterType}>
+            <SelectTrigger data-testid="filter-type">
+              <SelectValue placeholder="Receitas e despesas" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Receitas e despesas</SelectItem>
+              <SelectItem value="expense">Despesas</SelectItem>
+              <SelectItem value="income">Receitas</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+          <Input
+            placeholder="Valor mínimo"
+            inputMode="decimal"
+            value={minAmount}
+            onChange={(e) => setMinAmount(formatCurrencyInput(e.target.value))}
+            data-testid="input-min-amount"
+          />
+          <Input
+            placeholder="Valor máximo"
+            inputMode="decimal"
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(formatCurrencyInput(e.target.value))}
+            data-testid="input-max-amount"
+          />
+          <Select value={sort} onValueChange={(value) => setSort(value as TransactionSortField)}>
+            <SelectTrigger data-testid="select-sort">
+              <SelectValue placeholder="Ordenar por" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="date">Ordenar por data</SelectItem>
+              <SelectItem value="amount">Ordenar por valor</SelectItem>
+              <SelectItem value="title">Ordenar por título</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={order} onValueChange={(value) => setOrder(value as "asc" | "desc")}>
+            <SelectTrigger data-testid="select-order">
+              <SelectValue placeholder="Ordem" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">Decrescente</SelectItem>
+              <SelectItem value="asc">Crescente</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
       </Card>
 
+      <BulkActionBar
+        selectedIds={selectedVisibleIds}
+        categories={categories || []}
+        onClear={() => setSelectedIds(new Set())}
+      />
+
       <Card>
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allVisibleSelected}
+                  onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                  aria-label="Selecionar todas"
+                  data-testid="checkbox-select-all"
+                />
+              </TableHead>
               <TableHead data-testid="header-title">Título</TableHead>
               <TableHead data-testid="header-category">Categoria</TableHead>
               <TableHead data-testid="header-date">Data</TableHead>
@@ -421,30 +865,90 @@ export default function Transactions() {
           <TableBody>
             {filteredTransactions.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground" data-testid="text-no-transactions">
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground" data-testid="text-no-transactions">
                   Nenhuma transação encontrada
                 </TableCell>
               </TableRow>
             ) : (
               filteredTransactions.map((transaction) => {
                 const category = categories?.find((c) => c.id === transaction.categoryId);
+                const account = accounts?.find((a) => a.id === transaction.accountId);
                 return (
-                  <TableRow key={transaction.id} data-testid={`row-transaction-${transaction.id}`}>
-                    <TableCell className="font-medium" data-testid={`text-title-${transaction.id}`}>{transaction.title}</TableCell>
+                  <TableRow
+                    key={transaction.id}
+                    data-state={selectedIds.has(transaction.id) ? "selected" : undefined}
+                    data-testid={`row-transaction-${transaction.id}`}
+                  >
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(transaction.id)}
+                        onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                        aria-label={`Selecionar ${transaction.title}`}
+                        data-testid={`checkbox-select-${transaction.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium" data-testid={`text-title-${transaction.id}`}>
+                      <div className="flex items-center gap-2">
+                        {transaction.title}
+                        {transaction.seriesId && (
+                          <Badge variant="outline" className="gap-1 text-xs font-normal" data-testid={`badge-series-${transaction.id}`}>
+                            <Repeat className="w-3 h-3" />
+                            {transaction.seriesOccurrence}
+                            {getSeries(transaction)?.maxOccurrences ? `/${getSeries(transaction)?.maxOccurrences}` : ""}
+                          </Badge>
+                        )}
+                      </div>
+                      {account && (
+                        <div className="text-xs text-muted-foreground font-normal" data-testid={`text-account-${transaction.id}`}>
+                          {account.name}
+                          {transaction.statementDueDate && (
+                            <span className="inline-flex items-center gap-1 ml-2" data-testid={`text-statement-${transaction.id}`}>
+                              <CreditCard className="w-3 h-3" />
+                              Fatura {new Date(transaction.statementDueDate).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit" })}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell data-testid={`text-category-${transaction.id}`}>
-                      <Badge variant="outline" style={{ borderColor: category?.color || undefined }}>
-                        {category?.name || "Sem categoria"}
-                      </Badge>
+                      {transaction.transferId ? (
+                        <Badge variant="outline" className="gap-1" data-testid={`badge-transfer-${transaction.id}`}>
+                          <ArrowLeftRight className="w-3 h-3" />
+                          Transferência
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" style={{ borderColor: category?.color || undefined }}>
+                          {category?.name || "Sem categoria"}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell data-testid={`text-date-${transaction.id}`}>{new Date(transaction.date).toLocaleDateString("pt-BR")}</TableCell>
-                    <TableCell className="font-semibold" data-testid={`text-amount-${transaction.id}`}>{formatCurrencyDisplay(Number(transaction.amount))}</TableCell>
+                    <TableCell
+                      className={`font-semibold ${transaction.type === "income" ? "text-success" : ""}`}
+                      data-testid={`text-amount-${transaction.id}`}
+                    >
+                      {transaction.type === "income" ? "+ " : "- "}
+                      {formatCurrencyDisplay(Number(transaction.amount))}
+                    </TableCell>
                     <TableCell data-testid={`badge-status-${transaction.id}`}>
                       <Badge variant={transaction.status === "paid" ? "default" : "secondary"}>
-                        {transaction.status === "paid" ? "Pago" : "Pendente"}
+                        {transaction.status === "paid"
+                          ? (transaction.type === "income" ? "Recebido" : "Pago")
+                          : (transaction.type === "income" ? "A Receber" : "Pendente")}
                       </Badge>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        {canManage && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryTransactionId(transaction.id)}
+                            data-testid={`button-history-${transaction.id}`}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="ghost"
@@ -457,8 +961,14 @@ export default function Transactions() {
                           size="sm"
                           variant="ghost"
                           onClick={() => {
-                            if (confirm("Tem certeza que deseja excluir esta transação?")) {
-                              deleteMutation.mutate(transaction.id);
+                            if (transaction.installmentPurchaseId) {
+                              if (confirm("Esta parcela faz parte de uma compra parcelada. Excluir todas as parcelas?")) {
+                                deleteInstallmentsMutation.mutate({ purchaseId: transaction.installmentPurchaseId, transactionId: transaction.id });
+                              }
+                            } else if (transaction.seriesId) {
+                              setPendingDelete(transaction);
+                            } else if (confirm("Tem certeza que deseja excluir esta transação?")) {
+                              deleteMutation.mutate({ id: transaction.id });
                             }
                           }}
                           data-testid={`button-delete-${transaction.id}`}
@@ -473,7 +983,68 @@ export default function Transactions() {
             )}
           </TableBody>
         </Table>
+        {transactionPage && (
+          <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-t">
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground" data-testid="text-list-totals">
+              <span>{transactionPage.total} transação(ões)</span>
+              <span>
+                Receitas: <span className="text-success font-medium">{formatCurrencyDisplay(transactionPage.totals.income)}</span>
+              </span>
+              <span>
+                Despesas: <span className="font-medium text-foreground">{formatCurrencyDisplay(transactionPage.totals.expenses)}</span>
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                data-testid="button-page-previous"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm" data-testid="text-page">
+                Página {transactionPage.page} de {totalPages}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                data-testid="button-page-next"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
       </Card>
+
+      <AuditHistorySheet transactionId={historyTransactionId} onClose={() => setHistoryTransactionId(null)} />
+
+      <RecurrenceScopeDialog
+        open={pendingUpdate !== null}
+        mode="edit"
+        onCancel={() => setPendingUpdate(null)}
+        onConfirm={(scope) => {
+          if (editingTransaction && pendingUpdate) {
+            updateMutation.mutate({ id: editingTransaction.id, data: { ...pendingUpdate, scope } });
+          }
+          setPendingUpdate(null);
+        }}
+      />
+      <RecurrenceScopeDialog
+        open={pendingDelete !== null}
+        mode="delete"
+        onCancel={() => setPendingDelete(null)}
+        onConfirm={(scope) => {
+          if (pendingDelete) {
+            deleteMutation.mutate({ id: pendingDelete.id, scope });
+          }
+          setPendingDelete(null);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,171 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcw, Receipt, FolderKanban } from "lucide-react";
+import { TRASH_RETENTION_DAYS, type TrashContents } from "@shared/schema";
+import { apiRequest, invalidateTransactionQueries, invalidateCategoryQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatCurrencyDisplay } from "@/lib/formatCurrency";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(deletedAt: Date | string | null): number {
+  if (!deletedAt) return TRASH_RETENTION_DAYS;
+  const expiresAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+}
+
+function TrashedAt({ deletedAt }: { deletedAt: Date | string | null }) {
+  const remaining = daysLeft(deletedAt);
+  return (
+    <p className="text-xs text-muted-foreground">
+      Excluída em {deletedAt ? new Date(deletedAt).toLocaleDateString("pt-BR") : "—"} ·{" "}
+      {remaining === 1 ? "1 dia restante" : `${remaining} dias restantes`}
+    </p>
+  );
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+  const { canEdit } = useOrganization();
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+    retry: false,
+  });
+
+  const restoreTransactionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/trash/transactions/${id}/restore`);
+    },
+    onSuccess: () => {
+      invalidateTransactionQueries();
+      toast({ title: "Sucesso!", description: "Transação restaurada." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível restaurar a transação.", variant: "destructive" });
+    },
+  });
+
+  const restoreCategoryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/trash/categories/${id}/restore`);
+    },
+    onSuccess: () => {
+      invalidateCategoryQueries();
+      toast({ title: "Sucesso!", description: "Categoria restaurada com seus vínculos." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível restaurar a categoria.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Lixeira</h1>
+        <p className="text-muted-foreground">
+          Itens excluídos ficam aqui por {TRASH_RETENTION_DAYS} dias antes de serem removidos definitivamente
+        </p>
+      </div>
+
+      {isLoading || !trash ? (
+        <div className="space-y-6">
+          <Skeleton className="h-48" />
+          <Skeleton className="h-32" />
+        </div>
+      ) : (
+        <>
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Receipt className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-semibold">Transações</h2>
+              <Badge variant="secondary">{trash.transactions.length}</Badge>
+            </div>
+            {trash.transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-trash-transactions-empty">
+                Nenhuma transação na lixeira
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {trash.transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+                    data-testid={`row-trash-transaction-${transaction.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{transaction.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {new Date(transaction.date).toLocaleDateString("pt-BR")} ·{" "}
+                        <span className={transaction.type === "income" ? "text-success" : ""}>
+                          {transaction.type === "income" ? "+ " : "- "}
+                          {formatCurrencyDisplay(Number(transaction.amount))}
+                        </span>
+                      </p>
+                      <TrashedAt deletedAt={transaction.deletedAt} />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreTransactionMutation.mutate(transaction.id)}
+                      disabled={!canEdit || restoreTransactionMutation.isPending}
+                      data-testid={`button-restore-transaction-${transaction.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restaurar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <FolderKanban className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-semibold">Categorias</h2>
+              <Badge variant="secondary">{trash.categories.length}</Badge>
+            </div>
+            {trash.categories.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-trash-categories-empty">
+                Nenhuma categoria na lixeira
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {trash.categories.map((category) => (
+                  <div
+                    key={category.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+                    data-testid={`row-trash-category-${category.id}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color || undefined }} />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{category.name}</p>
+                        <TrashedAt deletedAt={category.deletedAt} />
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreCategoryMutation.mutate(category.id)}
+                      disabled={!canEdit || restoreCategoryMutation.isPending}
+                      data-testid={`button-restore-category-${category.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restaurar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
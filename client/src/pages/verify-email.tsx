@@ -0,0 +1,75 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage } from "@/lib/authUtils";
+import { useAuth } from "@/hooks/useAuth";
+
+// Opened from the link in the verification email: /verify-email?token=...
+// Reachable signed in or out, like the invitation page.
+export default function VerifyEmail() {
+  const [_, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const { isAuthenticated } = useAuth();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+  });
+
+  // Tokens are single-use, so the request is sent once per page load
+  useEffect(() => {
+    if (token) verifyMutation.mutate();
+  }, [token]);
+
+  const isPending = !!token && (verifyMutation.isIdle || verifyMutation.isPending);
+
+  return (
+    <div className="flex min-h-full items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md" data-testid="card-verify-email">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">Confirmação de email</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-3 text-center">
+          {isPending ? (
+            <Loader2 className="w-10 h-10 animate-spin text-muted-foreground" />
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="w-10 h-10 text-success" />
+              <p className="text-sm text-muted-foreground" data-testid="text-verify-email-success">
+                Seu email foi confirmado.
+              </p>
+            </>
+          ) : (
+            <>
+              <XCircle className="w-10 h-10 text-destructive" />
+              <p className="text-sm text-muted-foreground" data-testid="text-verify-email-error">
+                {verifyMutation.error
+                  ? apiErrorMessage(verifyMutation.error, "Não foi possível confirmar o email.")
+                  : "Link inválido."}{" "}
+                Você pode pedir um novo link em Configurações.
+              </p>
+            </>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            className="w-full"
+            disabled={isPending}
+            onClick={() => setLocation(isAuthenticated ? "/" : "/login")}
+            data-testid="button-verify-email-continue"
+          >
+            {isAuthenticated ? "Ir para o painel" : "Ir para o login"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -31,15 +31,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { WeeklyData, Transaction, Category } from "@shared/schema";
-import { insertTransactionSchema } from "@shared/schema";
+import type { WeeklyData, TransactionPage, Category, FinancialAccountWithBalance } from "@shared/schema";
+import { insertTransactionSchema, TRANSACTION_PAGE_SIZE_MAX } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, invalidateTransactionQueries } from "@/lib/queryClient";
+import { transactionListUrl, monthRange } from "@/lib/transactionList";
 import { z } from "zod";
 import { formatCurrencyInput, parseCurrencyInput } from "@/lib/formatCurrency";
 
 const formSchema = insertTransactionSchema
-  .omit({ userId: true })  // Backend adds userId from req.user.claims.sub
+  .omit({ userId: true, organizationId: true })  // Backend adds both from the session
   .extend({
     categoryId: z.string().min(1, "Selecione uma categoria"),
     amount: z.string().min(1, "Digite um valor"),
@@ -59,8 +60,10 @@ export default function WeeklyView() {
     defaultValues: {
       title: "",
       amount: "",
+      type: "expense",
       date: new Date().toISOString().split("T")[0],
       categoryId: "",
+      accountId: "",
       status: "unpaid",
       notes: "",
       recurrenceType: "none",
@@ -78,20 +81,24 @@ export default function WeeklyView() {
     retry: false,
   });
 
-  const { data: transactions } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  const { data: accounts } = useQuery<FinancialAccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
     retry: false,
   });
+  const activeAccounts = accounts?.filter((a) => !a.isArchived) || [];
+
+  const { data: monthPage } = useQuery<TransactionPage>({
+    queryKey: [transactionListUrl({ ...monthRange(selectedYear, selectedMonth), pageSize: TRANSACTION_PAGE_SIZE_MAX })],
+    retry: false,
+  });
+  const transactions = monthPage?.items;
 
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       await apiRequest("POST", "/api/transactions", data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
-      queryClient.invalidateQueries({ 
-        predicate: (query) => Boolean(query.queryKey[0]?.toString().startsWith('/api/reports/weekly'))
-      });
+      invalidateTransactionQueries();
       toast({ title: "Sucesso!", description: "Transação criada com sucesso." });
       handleClose();
     },
@@ -128,8 +135,10 @@ export default function WeeklyView() {
     form.reset({
       title: "",
       amount: "",
+      type: "expense",
       date: date.toISOString().split("T")[0],
       categoryId: "",
+      accountId: activeAccounts[0]?.id || "",
       status: "unpaid",
       notes: "",
       recurrenceType: "none",
@@ -226,6 +235,7 @@ export default function WeeklyView() {
   };
 
   const monthTotal = Number(weeklyData?.monthTotal) || 0;
+  const monthIncome = Number(weeklyData?.monthIncome) || 0;
   const weeks = weeklyData?.weeks || [];
   const transactionCount = weeks.reduce((sum, week) => sum + (Number(week.transactionCount) || 0), 0);
 
@@ -278,9 +288,13 @@ export default function WeeklyView() {
       <Card className="p-6">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-sm text-muted-foreground">Total do mês</p>
+            <p className="text-sm text-muted-foreground">Despesas do mês</p>
             <h3 className="text-3xl font-bold mt-1">R$ {monthTotal.toFixed(2)}</h3>
           </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Receitas do mês</p>
+            <h3 className="text-3xl font-bold mt-1 text-success">R$ {monthIncome.toFixed(2)}</h3>
+          </div>
           <div className="text-right">
             <p className="text-sm text-muted-foreground">Transações</p>
             <h3 className="text-3xl font-bold mt-1">
@@ -310,7 +324,12 @@ export default function WeeklyView() {
         <div className="grid grid-cols-7 gap-2">
           {calendarDays.map((day, index) => {
             const dayTransactions = getTransactionsForDay(day);
-            const dayTotal = dayTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
+            const dayTotal = dayTransactions
+              .filter((t) => t.type !== "income")
+              .reduce((sum, t) => sum + Number(t.amount), 0);
+            const dayIncome = dayTransactions
+              .filter((t) => t.type === "income")
+              .reduce((sum, t) => sum + Number(t.amount), 0);
             const today = new Date();
             const isToday = day && 
               today.getDate() === day &&
@@ -348,6 +367,12 @@ export default function WeeklyView() {
                         R$ {dayTotal.toFixed(2)}
                       </div>
                     )}
+
+                    {dayIncome > 0 && (
+                      <div className="text-xs font-semibold text-success mt-1">
+                        + R$ {dayIncome.toFixed(2)}
+                      </div>
+                    )}
                     
                     {dayTransactions.slice(0, 2).map((t) => {
                       const category = categories?.find(c => c.id === t.categoryId);
@@ -411,6 +436,28 @@ export default function WeeklyView() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "expense"}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="z-[100]">
+                        <SelectItem value="expense" data-testid="type-option-expense">Despesa</SelectItem>
+                        <SelectItem value="income" data-testid="type-option-income">Receita</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="amount"
@@ -457,6 +504,31 @@ export default function WeeklyView() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Conta</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || ""}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-account">
+                          <SelectValue placeholder="Selecione uma conta" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="z-[100]">
+                        {activeAccounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id} data-testid={`account-option-${account.id}`}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="categoryId"
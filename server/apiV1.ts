@@ -0,0 +1,296 @@
+// Versioned API for scripts and BI tools. /api/v1 is a stable subset of the
+// routes in routes.ts: each operation listed here is rewritten to its /api
+// route, which handles it as usual. The same list tells hybridAuth which
+// token scope a request needs and generates the OpenAPI document.
+import { OpenAPIRegistry, OpenApiGeneratorV3, extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { createSelectSchema } from "drizzle-zod";
+import type { RequestHandler } from "express";
+import { z, type AnyZodObject, type ZodTypeAny } from "zod";
+import {
+  transactions,
+  categories,
+  financialAccounts,
+  budgets,
+  insertTransactionSchema,
+  recurrenceLimitsSchema,
+  recurrenceScopeSchema,
+  bulkTransactionSchema,
+  transactionListQuerySchema,
+  insertCategorySchema,
+  insertFinancialAccountSchema,
+  updateFinancialAccountSchema,
+  insertTransferSchema,
+  insertBudgetSchema,
+  reportDateBasisSchema,
+  reportSeriesQuerySchema,
+  reportRangeQuerySchema,
+  forecastQuerySchema,
+  type ApiTokenAccess,
+  type ApiTokenResource,
+  type ApiTokenScopes,
+} from "@shared/schema";
+
+// The generator annotates parameters through z's .openapi(), added here
+extendZodWithOpenApi(z);
+
+export const API_V1_PREFIX = "/api/v1";
+
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export interface ApiV1Operation {
+  method: HttpMethod;
+  // Express-style path below /api/v1, e.g. /transactions/:id
+  path: string;
+  resource: ApiTokenResource;
+  summary: string;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  // Defaults to 200 with a JSON body; 204 has no body
+  status?: 200 | 201 | 204;
+  response?: ZodTypeAny;
+}
+
+// Reads need read access to the resource, everything else write access
+export function operationAccess(operation: ApiV1Operation): ApiTokenAccess {
+  return operation.method === "get" ? "read" : "write";
+}
+
+export function apiTokenAllows(scopes: ApiTokenScopes, resource: ApiTokenResource, access: ApiTokenAccess): boolean {
+  const granted = scopes[resource];
+  return granted === "write" || (granted === "read" && access === "read");
+}
+
+// The token of an "Authorization: Bearer <token>" header, if any
+export function bearerToken(req: { get(name: string): string | undefined }): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  return match ? match[1] : null;
+}
+
+const transactionSchema = createSelectSchema(transactions);
+const categorySchema = createSelectSchema(categories);
+const accountSchema = createSelectSchema(financialAccounts);
+const budgetSchema = createSelectSchema(budgets);
+
+// Report shapes are TypeScript interfaces only
+const reportSchema = z.object({}).passthrough();
+// The generator does not understand .catch(); invalid values still fall back
+// to "purchase" when the route parses the query
+const basisQuerySchema = reportDateBasisSchema.removeCatch().default("purchase");
+
+// Fields the server fills in from the token or session
+const ownership = { userId: true, organizationId: true } as const;
+
+const transactionBodySchema = insertTransactionSchema.omit(ownership).merge(recurrenceLimitsSchema);
+
+export const API_V1_OPERATIONS: ApiV1Operation[] = [
+  {
+    method: "get", path: "/transactions", resource: "transactions",
+    summary: "List transactions with filters, search, sorting and paging",
+    query: transactionListQuerySchema,
+    response: z.object({
+      items: z.array(transactionSchema),
+      total: z.number(),
+      page: z.number(),
+      pageSize: z.number(),
+      totals: z.object({ income: z.number(), expenses: z.number(), paidCount: z.number(), unpaidCount: z.number() }),
+    }),
+  },
+  {
+    method: "post", path: "/transactions", resource: "transactions",
+    summary: "Create a transaction; recurring ones start a new series",
+    body: transactionBodySchema, status: 201, response: transactionSchema,
+  },
+  {
+    method: "post", path: "/transactions/bulk", resource: "transactions",
+    summary: "Apply one change to many transactions",
+    body: bulkTransactionSchema,
+    response: z.object({ updated: z.number(), deleted: z.number() }),
+  },
+  {
+    method: "get", path: "/transactions/:id", resource: "transactions",
+    summary: "Get a transaction", response: transactionSchema,
+  },
+  {
+    method: "patch", path: "/transactions/:id", resource: "transactions",
+    summary: "Update a transaction or the following/all occurrences of its series",
+    body: transactionBodySchema.partial().omit({ isRecurring: true }).extend({ scope: recurrenceScopeSchema }),
+    response: transactionSchema,
+  },
+  {
+    method: "delete", path: "/transactions/:id", resource: "transactions",
+    summary: "Move a transaction or occurrences of its series to the trash; following/all also end the series until restored",
+    query: z.object({ scope: recurrenceScopeSchema }), status: 204,
+  },
+  {
+    method: "get", path: "/categories", resource: "categories",
+    summary: "List categories", response: z.array(categorySchema),
+  },
+  {
+    method: "post", path: "/categories", resource: "categories",
+    summary: "Create a category",
+    body: insertCategorySchema.omit(ownership), status: 201, response: categorySchema,
+  },
+  {
+    method: "get", path: "/categories/:id", resource: "categories",
+    summary: "Get a category", response: categorySchema,
+  },
+  {
+    method: "patch", path: "/categories/:id", resource: "categories",
+    summary: "Update a category",
+    body: insertCategorySchema.partial().omit({ ...ownership, isDefault: true }), response: categorySchema,
+  },
+  {
+    method: "delete", path: "/categories/:id", resource: "categories",
+    summary: "Move a category to the trash", status: 204,
+  },
+  {
+    method: "get", path: "/accounts", resource: "accounts",
+    summary: "List accounts with their balances",
+    response: z.array(accountSchema.extend({ currentBalance: z.number(), pendingBalance: z.number() })),
+  },
+  {
+    method: "post", path: "/accounts", resource: "accounts",
+    summary: "Create an account",
+    body: insertFinancialAccountSchema.omit(ownership), status: 201, response: accountSchema,
+  },
+  {
+    method: "patch", path: "/accounts/:id", resource: "accounts",
+    summary: "Update an account", body: updateFinancialAccountSchema, response: accountSchema,
+  },
+  {
+    method: "delete", path: "/accounts/:id", resource: "accounts",
+    summary: "Delete an account without transactions", status: 204,
+  },
+  {
+    method: "post", path: "/transfers", resource: "accounts",
+    summary: "Move money between two accounts",
+    body: insertTransferSchema, status: 201, response: z.array(transactionSchema),
+  },
+  {
+    method: "get", path: "/budgets", resource: "budgets",
+    summary: "List budgets", response: z.array(budgetSchema),
+  },
+  {
+    method: "post", path: "/budgets", resource: "budgets",
+    summary: "Create a monthly budget for a category",
+    body: insertBudgetSchema.omit(ownership), status: 201, response: budgetSchema,
+  },
+  {
+    method: "patch", path: "/budgets/:id", resource: "budgets",
+    summary: "Update a budget",
+    body: insertBudgetSchema.partial().omit({ ...ownership, categoryId: true }), response: budgetSchema,
+  },
+  {
+    method: "delete", path: "/budgets/:id", resource: "budgets",
+    summary: "Delete a budget", status: 204,
+  },
+  {
+    method: "get", path: "/reports/monthly", resource: "reports",
+    summary: "Totals, categories and budgets of a month",
+    query: z.object({ year: z.coerce.number().int().optional(), month: z.coerce.number().int().optional(), basis: basisQuerySchema }),
+    response: reportSchema,
+  },
+  {
+    method: "get", path: "/reports/series", resource: "reports",
+    summary: "Income and expenses of the last months",
+    query: reportSeriesQuerySchema.extend({ basis: basisQuerySchema }), response: z.array(reportSchema),
+  },
+  {
+    method: "get", path: "/reports/range", resource: "reports",
+    summary: "Totals of a date range grouped by month, quarter or year",
+    query: reportRangeQuerySchema.innerType().innerType().extend({ basis: basisQuerySchema }), response: reportSchema,
+  },
+  {
+    method: "get", path: "/reports/forecast", resource: "reports",
+    summary: "Projected daily balance for the next months",
+    query: forecastQuerySchema, response: reportSchema,
+  },
+];
+
+const operationPatterns = API_V1_OPERATIONS.map(operation => ({
+  operation,
+  pattern: new RegExp(`^${operation.path.replace(/:(\w+)/g, "[^/]+")}/?$`),
+}));
+
+function findOperation(method: string, path: string): ApiV1Operation | undefined {
+  return operationPatterns.find(({ operation, pattern }) =>
+    operation.method === method.toLowerCase() && pattern.test(path)
+  )?.operation;
+}
+
+// Sends /api/v1 requests on to their /api route, with req.apiOperation set.
+// Must be registered before the routes and without a mount path, so Express
+// does not restore the original URL.
+export const apiV1Middleware: RequestHandler = (req: any, res, next) => {
+  if (!req.path.startsWith(`${API_V1_PREFIX}/`)) return next();
+
+  const operation = findOperation(req.method, req.path.slice(API_V1_PREFIX.length));
+  if (!operation) {
+    return res.status(404).json({ error: "Rota não encontrada na API v1" });
+  }
+
+  req.apiOperation = operation;
+  req.url = `/api${req.url.slice(API_V1_PREFIX.length)}`;
+  next();
+};
+
+function buildOpenApiDocument() {
+  const registry = new OpenAPIRegistry();
+  registry.registerComponent("securitySchemes", "bearerAuth", {
+    type: "http",
+    scheme: "bearer",
+    description: "Token de API criado em Configurações",
+  });
+
+  const errorSchema = z.object({ error: z.string(), details: z.array(z.unknown()).optional() });
+  const errorResponse = (description: string) => ({
+    description,
+    content: { "application/json": { schema: errorSchema } },
+  });
+
+  for (const operation of API_V1_OPERATIONS) {
+    const params = operation.path.split("/").filter(part => part.startsWith(":")).map(part => part.slice(1));
+    const status = operation.status ?? 200;
+
+    registry.registerPath({
+      method: operation.method,
+      path: operation.path.replace(/:(\w+)/g, "{$1}"),
+      summary: operation.summary,
+      tags: [operation.resource],
+      security: [{ bearerAuth: [] }],
+      description: `Escopo: ${operation.resource} (${operationAccess(operation) === "read" ? "leitura" : "escrita"})`,
+      request: {
+        params: params.length > 0 ? z.object(Object.fromEntries(params.map(name => [name, z.string()]))) : undefined,
+        query: operation.query,
+        body: operation.body ? { content: { "application/json": { schema: operation.body } } } : undefined,
+      },
+      responses: {
+        [status]: status === 204 || !operation.response
+          ? { description: "Sem conteúdo" }
+          : { description: "Sucesso", content: { "application/json": { schema: operation.response } } },
+        400: errorResponse("Dados inválidos"),
+        401: errorResponse("Token ausente, inválido ou expirado"),
+        403: errorResponse("O token ou o papel na organização não permite esta ação"),
+        ...(params.length > 0 ? { 404: errorResponse("Não encontrado") } : {}),
+      },
+    });
+  }
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "API de finanças",
+      version: "1.0.0",
+      description: "Cada token age como o usuário que o criou, na organização escolhida, limitado aos recursos e ao nível de acesso concedidos.",
+    },
+    servers: [{ url: API_V1_PREFIX }],
+  });
+}
+
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+// Built on first request; the operations never change at runtime
+export function getOpenApiDocument() {
+  openApiDocument ??= buildOpenApiDocument();
+  return openApiDocument;
+}
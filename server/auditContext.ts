@@ -0,0 +1,34 @@
+// Request context for the audit log. Storage methods don't receive the request,
+// so who/where is carried through the async call chain instead: the middleware
+// opens a context per API request and userAuth fills in the user once known.
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+
+export interface AuditContext {
+  userId?: string;
+  route?: string;
+  ipAddress?: string;
+}
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export const auditContextMiddleware: RequestHandler = (req, _res, next) => {
+  auditStorage.run({
+    route: `${req.method} ${req.originalUrl.split("?")[0]}`,
+    ipAddress: req.ip,
+  }, next);
+};
+
+export function setAuditUser(userId: string): void {
+  const context = auditStorage.getStore();
+  if (context) context.userId = userId;
+}
+
+export function getAuditContext(): AuditContext | undefined {
+  return auditStorage.getStore();
+}
+
+// For work outside a request, e.g. background jobs ("job:recurrence")
+export function runWithAuditContext<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  return auditStorage.run(context, fn);
+}
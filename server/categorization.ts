@@ -0,0 +1,100 @@
+// Category suggestion for new transactions: user-defined rules first, then the
+// category the user most often picked for similar titles in the past.
+import type { CategoryRule, CategorySuggestion, TransactionType } from "@shared/schema";
+
+export interface CategorizationCandidate {
+  title: string;
+  amount?: number;
+  type: TransactionType;
+}
+
+export interface CategorizedHistoryEntry {
+  title: string;
+  categoryId: string;
+  type: TransactionType;
+}
+
+export type Categorizer = (candidate: CategorizationCandidate) => CategorySuggestion | null;
+
+// Upper case without accents, so "Açougue" matches a rule typed as "acougue"
+export function normalizeText(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase().trim();
+}
+
+// Drops digits and punctuation so "UBER *TRIP 8842" and "UBER *TRIP 1290" share a key
+function titleKey(title: string): string {
+  return normalizeText(title)
+    .replace(/[^A-Z ]/g, " ")
+    .split(/\s+/)
+    .filter(word => word.length >= 2)
+    .join(" ");
+}
+
+export function ruleMatches(rule: CategoryRule, candidate: CategorizationCandidate): boolean {
+  if (!rule.isActive) return false;
+  if (rule.type && rule.type !== candidate.type) return false;
+  if (rule.titleContains && !normalizeText(candidate.title).includes(normalizeText(rule.titleContains))) {
+    return false;
+  }
+  if (rule.minAmount !== null || rule.maxAmount !== null) {
+    if (candidate.amount === undefined) return false;
+    if (rule.minAmount !== null && candidate.amount < parseFloat(rule.minAmount)) return false;
+    if (rule.maxAmount !== null && candidate.amount > parseFloat(rule.maxAmount)) return false;
+  }
+  return true;
+}
+
+function mostFrequent(counts: Map<string, number> | undefined): { categoryId: string; count: number; share: number } | null {
+  if (!counts || counts.size === 0) return null;
+  
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  const [categoryId, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return { categoryId, count, share: count / total };
+}
+
+function addCount(index: Map<string, Map<string, number>>, key: string, categoryId: string) {
+  if (!key) return;
+  const counts = index.get(key) || new Map<string, number>();
+  counts.set(categoryId, (counts.get(categoryId) || 0) + 1);
+  index.set(key, counts);
+}
+
+export function createCategorizer(rules: CategoryRule[], history: CategorizedHistoryEntry[]): Categorizer {
+  const orderedRules = rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.priority - b.priority);
+
+  // Indexed per type so an income title never suggests an expense category
+  const byTitle = new Map<string, Map<string, number>>();
+  const byFirstWord = new Map<string, Map<string, number>>();
+  for (const entry of history) {
+    const key = titleKey(entry.title);
+    addCount(byTitle, `${entry.type}:${key}`, entry.categoryId);
+    addCount(byFirstWord, `${entry.type}:${key.split(" ")[0]}`, entry.categoryId);
+  }
+
+  return (candidate) => {
+    const rule = orderedRules.find(r => ruleMatches(r, candidate));
+    if (rule) {
+      return { categoryId: rule.categoryId, source: "rule", ruleId: rule.id };
+    }
+
+    const key = titleKey(candidate.title);
+    if (!key) return null;
+
+    const exact = mostFrequent(byTitle.get(`${candidate.type}:${key}`));
+    if (exact) {
+      return { categoryId: exact.categoryId, source: "history", ruleId: null };
+    }
+
+    // Looser match on the merchant name only; short words like "PAG" are too generic
+    const firstWord = key.split(" ")[0];
+    if (firstWord.length < 4) return null;
+    const loose = mostFrequent(byFirstWord.get(`${candidate.type}:${firstWord}`));
+    if (loose && loose.count >= 2 && loose.share >= 0.6) {
+      return { categoryId: loose.categoryId, source: "history", ruleId: null };
+    }
+
+    return null;
+  };
+}
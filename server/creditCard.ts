@@ -0,0 +1,40 @@
+// Credit card statement cycles. A purchase belongs to the statement that closes
+// after it; purchases made on the closing day already fall in the next one.
+import type { FinancialAccount } from "@shared/schema";
+
+export type StatementSchedule = Pick<FinancialAccount, "type" | "closingDay" | "dueDay">;
+
+// Day clamped to the length of the month, so "day 31" falls on Feb 28/29
+function dayInMonth(year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay), 12);
+}
+
+export function hasStatementCycle(account: StatementSchedule | undefined): account is StatementSchedule & { closingDay: number; dueDay: number } {
+  return !!account && account.type === "credit_card" && !!account.closingDay && !!account.dueDay;
+}
+
+// Due date of the statement a purchase made on purchaseDate is billed in.
+// statementOffset moves to later statements, for installments 2..N.
+export function statementDueDate(purchaseDate: Date, account: StatementSchedule, statementOffset: number = 0): Date | null {
+  if (!hasStatementCycle(account)) return null;
+
+  const date = new Date(purchaseDate);
+  const closingMonthOffset = date.getDate() >= account.closingDay ? 1 : 0;
+  // A due day before the closing day is paid in the month after closing
+  const dueMonthOffset = account.dueDay > account.closingDay ? 0 : 1;
+
+  return dayInMonth(
+    date.getFullYear(),
+    date.getMonth() + closingMonthOffset + dueMonthOffset + statementOffset,
+    account.dueDay,
+  );
+}
+
+// Splits a total in cents-exact installments; the first one absorbs the rounding
+export function splitInstallments(totalAmount: number, count: number): number[] {
+  const totalCents = Math.round(totalAmount * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const firstCents = totalCents - baseCents * (count - 1);
+  return Array.from({ length: count }, (_, i) => (i === 0 ? firstCents : baseCents) / 100);
+}
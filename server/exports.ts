@@ -0,0 +1,553 @@
+// Builders for the CSV / XLSX / PDF files served by the /api/exports routes.
+// Every export is first described as an ExportDocument (titled tables plus an
+// optional category chart) and then rendered to the requested format.
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import { format as formatDate } from "date-fns";
+import type { Category, Transaction } from "@shared/schema";
+import type { AdvancedReport, CategorySummary, MonthlyReport } from "./storage";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type CellValue = string | number | Date | null;
+
+interface ExportColumn {
+  header: string;
+  kind?: "text" | "currency" | "percent" | "date" | "integer";
+  // Relative width, used for XLSX column widths and PDF table layout
+  width?: number;
+}
+
+interface ExportSection {
+  title: string;
+  columns: ExportColumn[];
+  rows: CellValue[][];
+}
+
+interface ChartSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  subtitle: string;
+  filename: string;
+  sections: ExportSection[];
+  chart?: { title: string; slices: ChartSlice[] };
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const MONTH_NAMES = [
+  "Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho",
+  "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro",
+];
+
+const STATUS_LABELS: Record<Transaction["type"], Record<string, string>> = {
+  expense: { paid: "Pago", unpaid: "A Pagar" },
+  income: { paid: "Recebido", unpaid: "A Receber" },
+};
+
+function formatCurrency(value: number): string {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function periodLabel(year: number, month: number): string {
+  return `${MONTH_NAMES[month - 1]} de ${year}`;
+}
+
+function periodFilename(prefix: string, year: number, month: number): string {
+  return `${prefix}-${year}-${String(month).padStart(2, "0")}`;
+}
+
+function toChartSlices(summaries: { categoryName: string; categoryColor: string; total: number }[]): ChartSlice[] {
+  return summaries
+    .filter(s => s.total > 0)
+    .map(s => ({ label: s.categoryName, value: s.total, color: s.categoryColor }));
+}
+
+function categorySummarySection(title: string, summaries: CategorySummary[]): ExportSection {
+  return {
+    title,
+    columns: [
+      { header: "Categoria", width: 3 },
+      { header: "Total", kind: "currency", width: 2 },
+      { header: "Transações", kind: "integer", width: 1 },
+      { header: "% do total", kind: "percent", width: 1 },
+    ],
+    rows: summaries.map(s => [s.categoryName, s.total, s.count, s.percentage]),
+  };
+}
+
+// ============= DOCUMENTS =============
+
+export function buildTransactionsDocument(
+  list: Transaction[],
+  categoryList: Category[],
+  range: { startDate?: Date; endDate?: Date },
+): ExportDocument {
+  const categoryLookup = new Map(categoryList.map(c => [c.id, c]));
+  const expenseByCategory = new Map<string, ChartSlice>();
+  let totalExpenses = 0;
+  let totalIncome = 0;
+
+  const rows: CellValue[][] = list.map(t => {
+    const amount = parseFloat(t.amount);
+    const category = t.categoryId ? categoryLookup.get(t.categoryId) : undefined;
+    const categoryName = category?.name || "Sem categoria";
+
+    if (t.type === "income") {
+      totalIncome += amount;
+    } else {
+      totalExpenses += amount;
+      const slice = expenseByCategory.get(categoryName) || {
+        label: categoryName,
+        value: 0,
+        color: category?.color || "#94a3b8",
+      };
+      slice.value += amount;
+      expenseByCategory.set(categoryName, slice);
+    }
+
+    return [
+      new Date(t.date),
+      t.title,
+      t.type === "income" ? "Receita" : "Despesa",
+      categoryName,
+      STATUS_LABELS[t.type][t.status || "unpaid"],
+      t.type === "income" ? amount : -amount,
+      t.notes || "",
+    ];
+  });
+
+  const subtitle = range.startDate || range.endDate
+    ? `Período: ${range.startDate ? formatDate(range.startDate, "dd/MM/yyyy") : "início"} a ${range.endDate ? formatDate(range.endDate, "dd/MM/yyyy") : "hoje"}`
+    : "Todas as transações";
+
+  return {
+    title: "Transações",
+    subtitle,
+    filename: `transacoes-${formatDate(new Date(), "yyyy-MM-dd")}`,
+    sections: [
+      {
+        title: "Transações",
+        columns: [
+          { header: "Data", kind: "date", width: 1.2 },
+          { header: "Descrição", width: 3 },
+          { header: "Tipo", width: 1 },
+          { header: "Categoria", width: 1.8 },
+          { header: "Status", width: 1.1 },
+          { header: "Valor", kind: "currency", width: 1.5 },
+          { header: "Observações", width: 2.5 },
+        ],
+        rows,
+      },
+      {
+        title: "Resumo",
+        columns: [
+          { header: "Indicador", width: 3 },
+          { header: "Valor", kind: "currency", width: 2 },
+        ],
+        rows: [
+          ["Total de receitas", totalIncome],
+          ["Total de despesas", totalExpenses],
+          ["Resultado", totalIncome - totalExpenses],
+        ],
+      },
+    ],
+    chart: {
+      title: "Despesas por categoria",
+      slices: Array.from(expenseByCategory.values()).sort((a, b) => b.value - a.value),
+    },
+  };
+}
+
+export function buildMonthlyReportDocument(report: MonthlyReport, year: number, month: number): ExportDocument {
+  const { currentMonth, previousMonth, comparison } = report;
+
+  return {
+    title: "Relatório Mensal",
+    subtitle: periodLabel(year, month),
+    filename: periodFilename("relatorio-mensal", year, month),
+    sections: [
+      {
+        title: "Resumo",
+        columns: [
+          { header: "Indicador", width: 3 },
+          { header: "Mês atual", kind: "currency", width: 2 },
+          { header: "Mês anterior", kind: "currency", width: 2 },
+          { header: "Variação", kind: "currency", width: 2 },
+        ],
+        rows: [
+          ["Despesas", currentMonth.total, previousMonth.total, comparison.totalChange],
+          ["Despesas pagas", currentMonth.paid, previousMonth.paid, comparison.paidChange],
+          ["Despesas a pagar", currentMonth.unpaid, previousMonth.unpaid, comparison.unpaidChange],
+          ["Receitas", currentMonth.income, previousMonth.income, comparison.incomeChange],
+          ["Resultado", currentMonth.netResult, previousMonth.netResult, comparison.netResultChange],
+        ],
+      },
+      categorySummarySection("Despesas por categoria", currentMonth.byCategory),
+      categorySummarySection("Receitas por categoria", currentMonth.incomeByCategory),
+    ],
+    chart: {
+      title: "Despesas por categoria",
+      slices: toChartSlices(currentMonth.byCategory),
+    },
+  };
+}
+
+export function buildAdvancedReportDocument(report: AdvancedReport, year: number, month: number): ExportDocument {
+  const { overview, cashFlow, trends, kpis } = report;
+
+  return {
+    title: "Relatório Avançado",
+    subtitle: periodLabel(year, month),
+    filename: periodFilename("relatorio-avancado", year, month),
+    sections: [
+      {
+        title: "Visão geral",
+        columns: [
+          { header: "Indicador", width: 3 },
+          { header: "Valor", kind: "currency", width: 2 },
+        ],
+        rows: [
+          ["Total de despesas", overview.totalExpenses],
+          ["Despesas pagas", overview.paidExpenses],
+          ["Despesas a pagar", overview.unpaidExpenses],
+          ["Despesas recorrentes", overview.recurringExpenses],
+          ["Despesas avulsas", overview.oneTimeExpenses],
+          ["Ticket médio", overview.averageTransactionValue],
+          ["Total de receitas", cashFlow.totalIncome],
+          ["Receitas recebidas", cashFlow.receivedIncome],
+          ["Receitas a receber", cashFlow.pendingIncome],
+          ["Resultado do mês", cashFlow.netResult],
+          ["Variação vs. mês anterior", trends.monthOverMonthChange],
+          ["Projeção de gastos do mês", kpis.projectedMonthlyTotal],
+        ],
+      },
+      {
+        title: "Indicadores",
+        columns: [
+          { header: "Indicador", width: 3 },
+          { header: "Percentual", kind: "percent", width: 2 },
+        ],
+        rows: [
+          ["Taxa de poupança", cashFlow.savingsRate],
+          ["Variação vs. mês anterior", trends.monthOverMonthChangePercent],
+          ["Despesas pagas em dia", trends.paymentComplianceRate],
+          ["Recorrentes vs. avulsas", trends.recurringVsOneTimeRatio],
+        ],
+      },
+      {
+        title: "Ranking de categorias",
+        columns: [
+          { header: "#", kind: "integer", width: 0.5 },
+          { header: "Categoria", width: 2.5 },
+          { header: "Total", kind: "currency", width: 1.6 },
+          { header: "% do total", kind: "percent", width: 1 },
+          { header: "Transações", kind: "integer", width: 1 },
+          { header: "Orçamento", kind: "currency", width: 1.6 },
+          { header: "Projeção", kind: "currency", width: 1.6 },
+        ],
+        rows: report.categoryRankings.map(r => [
+          r.rank,
+          r.categoryName,
+          r.total,
+          r.percentage,
+          r.transactionCount,
+          r.budget,
+          r.projectedTotal,
+        ]),
+      },
+      {
+        title: "Orçamentos",
+        columns: [
+          { header: "Categoria", width: 2.5 },
+          { header: "Disponível", kind: "currency", width: 1.6 },
+          { header: "Gasto", kind: "currency", width: 1.6 },
+          { header: "Restante", kind: "currency", width: 1.6 },
+          { header: "% usado", kind: "percent", width: 1 },
+          { header: "Projeção", kind: "currency", width: 1.6 },
+        ],
+        rows: report.budgets.map(b => [
+          b.categoryName,
+          b.available,
+          b.spent,
+          b.remaining,
+          b.usedPercent,
+          b.projectedTotal,
+        ]),
+      },
+      categorySummarySection("Receitas por categoria", report.incomeByCategory),
+    ],
+    chart: {
+      title: "Despesas por categoria",
+      slices: toChartSlices(report.categoryRankings),
+    },
+  };
+}
+
+// ============= RENDERERS =============
+
+function formatCellText(value: CellValue, column: ExportColumn): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value, "dd/MM/yyyy");
+  if (typeof value === "number") {
+    switch (column.kind) {
+      case "currency":
+        return formatCurrency(value);
+      case "percent":
+        return `${value.toFixed(1).replace(".", ",")}%`;
+      case "integer":
+        return String(Math.round(value));
+      default:
+        return value.toFixed(2).replace(".", ",");
+    }
+  }
+  return value;
+}
+
+// Titles and notes come from imported bank statements; a cell starting with
+// one of these characters would run as a formula in Excel or LibreOffice
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+function neutralizeFormula(value: string): string {
+  return FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+}
+
+function escapeCsv(value: string): string {
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Semicolon-separated with decimal commas and a BOM, which is what Excel in pt-BR expects
+function renderCsv(doc: ExportDocument): Buffer {
+  const lines: string[] = [];
+
+  doc.sections.forEach((section, index) => {
+    if (doc.sections.length > 1) {
+      if (index > 0) lines.push("");
+      lines.push(escapeCsv(section.title));
+    }
+    lines.push(section.columns.map(c => escapeCsv(c.header)).join(";"));
+    for (const row of section.rows) {
+      lines.push(row.map((value, i) => {
+        const column = section.columns[i];
+        // Keep numbers machine-readable (no currency symbol) so they can be summed in a spreadsheet
+        const text = typeof value === "number" && column.kind !== "integer"
+          ? value.toFixed(2).replace(".", ",")
+          : formatCellText(value, column);
+        return escapeCsv(typeof value === "string" ? neutralizeFormula(text) : text);
+      }).join(";"));
+    }
+  });
+
+  return Buffer.from("\uFEFF" + lines.join("\r\n"), "utf8");
+}
+
+function sheetName(title: string, used: Set<string>): string {
+  // Excel limits sheet names to 31 chars and forbids some characters
+  let name = title.replace(/[\\\/\?\*\[\]:]/g, " ").slice(0, 31);
+  let suffix = 2;
+  while (used.has(name)) {
+    name = `${title.slice(0, 28)} ${suffix++}`;
+  }
+  used.add(name);
+  return name;
+}
+
+async function renderXlsx(doc: ExportDocument): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "SaaSManager";
+  workbook.created = new Date();
+  const usedNames = new Set<string>();
+
+  for (const section of doc.sections) {
+    const sheet = workbook.addWorksheet(sheetName(section.title, usedNames), {
+      views: [{ state: "frozen", ySplit: 3 }],
+    });
+
+    sheet.columns = section.columns.map(column => ({
+      width: Math.max(10, Math.round((column.width || 1) * 12)),
+    }));
+
+    const titleRow = sheet.addRow([`${doc.title} - ${section.title}`]);
+    titleRow.font = { bold: true, size: 14 };
+    sheet.addRow([doc.subtitle]).font = { italic: true, color: { argb: "FF64748B" } };
+
+    const headerRow = sheet.addRow(section.columns.map(c => c.header));
+    headerRow.eachCell(cell => {
+      cell.font = { bold: true, color: { argb: "FFFFFFFF" } };
+      cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF1E293B" } };
+      cell.alignment = { vertical: "middle" };
+    });
+
+    for (const values of section.rows) {
+      const row = sheet.addRow(values.map((value, i) => {
+        if (typeof value === "string") return neutralizeFormula(value);
+        // Percent values are stored as 0-100, Excel's percent format expects 0-1
+        return section.columns[i].kind === "percent" && typeof value === "number" ? value / 100 : value;
+      }));
+      section.columns.forEach((column, i) => {
+        const cell = row.getCell(i + 1);
+        if (column.kind === "currency") cell.numFmt = '"R$" #,##0.00;[Red]-"R$" #,##0.00';
+        if (column.kind === "percent") cell.numFmt = "0.0%";
+        if (column.kind === "date") cell.numFmt = "dd/mm/yyyy";
+      });
+    }
+
+    if (section.rows.length > 0) {
+      sheet.autoFilter = {
+        from: { row: 3, column: 1 },
+        to: { row: 3, column: section.columns.length },
+      };
+    }
+  }
+
+  const data = await workbook.xlsx.writeBuffer();
+  return Buffer.from(data as ArrayBuffer);
+}
+
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 16;
+
+function renderPdf(doc: ExportDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: PDF_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const contentWidth = pdf.page.width - PDF_MARGIN * 2;
+    const bottomLimit = () => pdf.page.height - PDF_MARGIN - PDF_ROW_HEIGHT;
+    const ensureSpace = (height: number) => {
+      if (pdf.y + height > bottomLimit()) pdf.addPage();
+    };
+
+    pdf.font("Helvetica-Bold").fontSize(18).fillColor("#0f172a").text(doc.title);
+    pdf.font("Helvetica").fontSize(11).fillColor("#64748b").text(doc.subtitle);
+    pdf.moveDown();
+
+    // Horizontal bar chart of the category breakdown
+    if (doc.chart && doc.chart.slices.length > 0) {
+      const slices = doc.chart.slices.slice(0, 12);
+      const maxValue = Math.max(...slices.map(s => s.value));
+      const total = doc.chart.slices.reduce((sum, s) => sum + s.value, 0);
+      const labelWidth = 130;
+      const valueWidth = 120;
+      const barMaxWidth = contentWidth - labelWidth - valueWidth - 10;
+
+      ensureSpace(30 + slices.length * 20);
+      pdf.font("Helvetica-Bold").fontSize(13).fillColor("#0f172a").text(doc.chart.title);
+      pdf.moveDown(0.5);
+
+      for (const slice of slices) {
+        const y = pdf.y;
+        const barWidth = maxValue > 0 ? Math.max(2, (slice.value / maxValue) * barMaxWidth) : 0;
+        const percent = total > 0 ? (slice.value / total) * 100 : 0;
+
+        pdf.font("Helvetica").fontSize(9).fillColor("#334155")
+          .text(slice.label, PDF_MARGIN, y + 2, { width: labelWidth - 5, ellipsis: true, lineBreak: false });
+        pdf.rect(PDF_MARGIN + labelWidth, y, barWidth, 12).fill(slice.color);
+        pdf.fillColor("#334155")
+          .text(
+            `${formatCurrency(slice.value)} (${percent.toFixed(1).replace(".", ",")}%)`,
+            PDF_MARGIN + labelWidth + barWidth + 6,
+            y + 2,
+            { width: valueWidth + 10, lineBreak: false },
+          );
+        pdf.y = y + 18;
+      }
+      pdf.x = PDF_MARGIN;
+      pdf.moveDown();
+    }
+
+    for (const section of doc.sections) {
+      if (section.rows.length === 0) continue;
+
+      const totalWeight = section.columns.reduce((sum, c) => sum + (c.width || 1), 0);
+      const widths = section.columns.map(c => ((c.width || 1) / totalWeight) * contentWidth);
+      const drawRow = (cells: string[], bold: boolean, shaded: boolean) => {
+        ensureSpace(PDF_ROW_HEIGHT);
+        const y = pdf.y;
+        if (shaded) {
+          pdf.rect(PDF_MARGIN, y - 2, contentWidth, PDF_ROW_HEIGHT).fill(bold ? "#1e293b" : "#f1f5f9");
+        }
+        let x = PDF_MARGIN;
+        cells.forEach((text, i) => {
+          const numeric = section.columns[i].kind && section.columns[i].kind !== "text" && section.columns[i].kind !== "date";
+          pdf.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8)
+            .fillColor(bold ? "#ffffff" : "#0f172a")
+            .text(text, x + 3, y + 2, {
+              width: widths[i] - 6,
+              align: numeric ? "right" : "left",
+              ellipsis: true,
+              lineBreak: false,
+            });
+          x += widths[i];
+        });
+        pdf.y = y + PDF_ROW_HEIGHT;
+      };
+
+      ensureSpace(PDF_ROW_HEIGHT * 3);
+      pdf.x = PDF_MARGIN;
+      pdf.font("Helvetica-Bold").fontSize(13).fillColor("#0f172a").text(section.title);
+      pdf.moveDown(0.3);
+
+      drawRow(section.columns.map(c => c.header), true, true);
+      section.rows.forEach((row, index) => {
+        drawRow(row.map((value, i) => formatCellText(value, section.columns[i])), false, index % 2 === 1);
+      });
+      pdf.x = PDF_MARGIN;
+      pdf.moveDown();
+    }
+
+    // Page numbers and generation date in the footer of every page
+    const generatedAt = formatDate(new Date(), "dd/MM/yyyy HH:mm");
+    const range = pdf.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      pdf.switchToPage(i);
+      // Writing inside the bottom margin would otherwise make pdfkit open a new page
+      pdf.page.margins.bottom = 0;
+      pdf.font("Helvetica").fontSize(8).fillColor("#94a3b8").text(
+        `Gerado em ${generatedAt} · Página ${i + 1} de ${range.count}`,
+        PDF_MARGIN,
+        pdf.page.height - PDF_MARGIN + 10,
+        { width: contentWidth, align: "center", lineBreak: false },
+      );
+    }
+
+    pdf.end();
+  });
+}
+
+export async function renderExport(doc: ExportDocument, format: ExportFormat): Promise<ExportFile> {
+  switch (format) {
+    case "xlsx":
+      return {
+        buffer: await renderXlsx(doc),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        filename: `${doc.filename}.xlsx`,
+      };
+    case "pdf":
+      return {
+        buffer: await renderPdf(doc),
+        contentType: "application/pdf",
+        filename: `${doc.filename}.pdf`,
+      };
+    case "csv":
+    default:
+      return {
+        buffer: renderCsv(doc),
+        contentType: "text/csv; charset=utf-8",
+        filename: `${doc.filename}.csv`,
+      };
+  }
+}
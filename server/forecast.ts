@@ -0,0 +1,87 @@
+// Cash-flow projection. Every expected movement is placed on the day the money
+// moves and the balance is carried forward day by day from today's balance.
+import type { CashFlowForecast, CashFlowForecastDay } from "@shared/schema";
+
+export type ForecastSource = "unpaid" | "recurring" | "revenue";
+
+export interface ForecastMovement {
+  date: Date;
+  amount: number;
+  type: "income" | "expense";
+  source: ForecastSource;
+}
+
+// Local calendar day, the same way dates are shown to the user
+function dayKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Movements dated before startDate (overdue bills) are due now and land on the first day
+export function projectCashFlow(
+  startingBalance: number,
+  movements: ForecastMovement[],
+  startDate: Date,
+  endDate: Date,
+): Omit<CashFlowForecast, "months"> {
+  const firstDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const lastDay = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+  const firstKey = dayKey(firstDay);
+
+  const sources: CashFlowForecast["sources"] = {
+    unpaidIncome: 0,
+    unpaidExpenses: 0,
+    recurringIncome: 0,
+    recurringExpenses: 0,
+    expectedRevenue: 0,
+  };
+  const movementsByDay = new Map<string, { income: number; expenses: number }>();
+
+  for (const movement of movements) {
+    if (movement.date > endDate) continue;
+    const key = movement.date < firstDay ? firstKey : dayKey(movement.date);
+    const totals = movementsByDay.get(key) ?? { income: 0, expenses: 0 };
+    if (movement.type === "income") totals.income += movement.amount;
+    else totals.expenses += movement.amount;
+    movementsByDay.set(key, totals);
+
+    if (movement.source === "revenue") sources.expectedRevenue += movement.amount;
+    else if (movement.source === "recurring") {
+      if (movement.type === "income") sources.recurringIncome += movement.amount;
+      else sources.recurringExpenses += movement.amount;
+    } else if (movement.type === "income") sources.unpaidIncome += movement.amount;
+    else sources.unpaidExpenses += movement.amount;
+  }
+
+  const days: CashFlowForecastDay[] = [];
+  let balance = startingBalance;
+  let lowestBalance = startingBalance;
+  let lowestBalanceDate = firstKey;
+  let firstNegativeDate: string | null = null;
+
+  for (const day = new Date(firstDay); day <= lastDay; day.setDate(day.getDate() + 1)) {
+    const key = dayKey(day);
+    const totals = movementsByDay.get(key) ?? { income: 0, expenses: 0 };
+    balance += totals.income - totals.expenses;
+    days.push({ date: key, income: totals.income, expenses: totals.expenses, balance });
+
+    if (balance < lowestBalance) {
+      lowestBalance = balance;
+      lowestBalanceDate = key;
+    }
+    if (balance < 0 && firstNegativeDate === null) firstNegativeDate = key;
+  }
+
+  return {
+    startDate: firstKey,
+    endDate: dayKey(lastDay),
+    startingBalance,
+    endingBalance: balance,
+    lowestBalance,
+    lowestBalanceDate,
+    firstNegativeDate,
+    sources,
+    days,
+  };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./scheduler";
 
 const app = express();
 
@@ -10,6 +11,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // Statement imports send the whole file as JSON
+  limit: "5mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -77,5 +80,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    if (!process.env.APP_URL && app.get("env") !== "development") {
+      log("APP_URL is not set: password reset, verification and invitation emails will fail", "mail");
+    }
+    startScheduler();
   });
 })();
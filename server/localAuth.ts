@@ -1,7 +1,20 @@
 import { Router } from "express";
 import bcrypt from "bcrypt";
 import { db } from "./db";
-import { users } from "@shared/schema";
+import { storage } from "./storage";
+import { setAuditUser } from "./auditContext";
+import { appUrl, sendMail } from "./mail";
+import { revokeUserSessions } from "./sessionActivity";
+import { loginRetryAfterMs, normalizeLoginEmail, throttledMessage, authRateLimit } from "./loginThrottle";
+import { createTwoFactorSetup, verifyTotpCode, generateRecoveryCodes, hashRecoveryCode } from "./twoFactor";
+import {
+  users,
+  insertOrganizationSchema,
+  type User,
+  type PublicUser,
+  type TwoFactorStatus,
+  type LoginAttemptResult,
+} from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 
@@ -9,9 +22,27 @@ import { z } from "zod";
 declare module "express-session" {
   interface SessionData {
     userId?: string;
+    organizationId?: string; // Active workspace, see hybridAuth
+    // Password checked, waiting for the authenticator code (see /login/2fa)
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    // Shown in the devices list, see server/sessionActivity.ts
+    createdAt?: number;
+    lastSeenAt?: number;
+    userAgent?: string;
+    ipAddress?: string;
   }
 }
 
+// Time to type the authenticator code after the password, and wrong codes
+// accepted before the password has to be typed again
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _, totpSecret: __, ...publicUser } = user;
+  return publicUser;
+}
+
 const router = Router();
 
 // Validation schemas
@@ -20,6 +51,7 @@ const registerSchema = z.object({
   password: z.string().min(6, "Senha deve ter no mínimo 6 caracteres"),
   firstName: z.string().min(1, "Nome é obrigatório"),
   lastName: z.string().optional(),
+  // "business" also creates a company workspace next to the personal one
   accountType: z.enum(["personal", "business"]).default("personal"),
   companyName: z.string().optional(),
   cnpj: z.string().optional(),
@@ -30,21 +62,116 @@ const loginSchema = z.object({
   password: z.string().min(1, "Senha é obrigatória"),
 });
 
-// Default categories to create for new users
-const DEFAULT_CATEGORIES = [
-  { name: "Salário", color: "#10B981", icon: "DollarSign" },
-  { name: "Alimentação", color: "#F59E0B", icon: "UtensilsCrossed" },
-  { name: "Transporte", color: "#3B82F6", icon: "Car" },
-  { name: "Moradia", color: "#8B5CF6", icon: "Home" },
-  { name: "Saúde", color: "#EF4444", icon: "Heart" },
-  { name: "Educação", color: "#06B6D4", icon: "GraduationCap" },
-  { name: "Lazer", color: "#EC4899", icon: "Gamepad2" },
-  { name: "Gastos Fixos", color: "#6366F1", icon: "Receipt" },
-  { name: "Outros", color: "#64748B", icon: "MoreHorizontal" },
-];
+const newPasswordSchema = z.string().min(6, "Senha deve ter no mínimo 6 caracteres");
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Email inválido"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Link inválido"),
+  password: newPasswordSchema,
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Senha atual é obrigatória"),
+  newPassword: newPasswordSchema,
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Link inválido"),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Código é obrigatório"),
+});
+
+const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Senha é obrigatória"),
+});
+
+async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await storage.createAuthToken(user.id, "email_verification");
+  const link = `${appUrl()}/verify-email?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Confirme seu email",
+    text: [
+      `Olá${user.firstName ? `, ${user.firstName}` : ""}!`,
+      "",
+      "Confirme seu email no FinanceFlow abrindo o link abaixo:",
+      link,
+      "",
+      "O link vale por 48 horas.",
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = await storage.createAuthToken(user.id, "password_reset");
+  const link = `${appUrl()}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Redefinição de senha",
+    text: [
+      `Olá${user.firstName ? `, ${user.firstName}` : ""}!`,
+      "",
+      "Recebemos um pedido para redefinir a senha da sua conta no FinanceFlow. Para escolher uma nova senha, abra o link abaixo:",
+      link,
+      "",
+      "O link vale por 1 hora e pode ser usado uma única vez. Se você não fez este pedido, ignore este email; sua senha continua a mesma.",
+    ].join("\n"),
+  });
+}
+
+// Either a code from the authenticator app or an unused recovery code
+async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  if (verifyTotpCode(code, user.totpSecret)) return true;
+  return storage.consumeRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+async function recordLoginAttempt(req: any, email: string, userId: string | null, result: LoginAttemptResult): Promise<void> {
+  await storage.recordLoginAttempt({
+    userId,
+    email: normalizeLoginEmail(email),
+    ipAddress: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+    result,
+  });
+}
+
+// Answers 429 with Retry-After when this email or address has to wait
+async function rejectIfThrottled(req: any, res: any, email: string, userId: string | null): Promise<boolean> {
+  const retryAfterMs = await loginRetryAfterMs(email, req.ip);
+  if (retryAfterMs <= 0) return false;
+  
+  await recordLoginAttempt(req, email, userId, "blocked");
+  res.setHeader("Retry-After", Math.ceil(retryAfterMs / 1000).toString());
+  res.status(429).json({ message: throttledMessage(retryAfterMs) });
+  return true;
+}
+
+// Sets the session and saves it before responding
+function signIn(req: any, res: any, user: User) {
+  req.session.userId = user.id;
+  delete req.session.pendingTwoFactor;
+  req.session.createdAt = Date.now();
+  req.session.lastSeenAt = Date.now();
+  req.session.userAgent = req.get("user-agent") ?? undefined;
+  req.session.ipAddress = req.ip;
+  
+  req.session.save((err: any) => {
+    if (err) {
+      console.error("Session save error:", err);
+      return res.status(500).json({ message: "Erro ao salvar sessão" });
+    }
+    res.json(toPublicUser(user));
+  });
+}
 
 // Register endpoint
-router.post("/register", async (req, res) => {
+router.post("/register", authRateLimit(60, 5), async (req, res) => {
   try {
     const validatedData = registerSchema.parse(req.body);
     
@@ -59,6 +186,15 @@ router.post("/register", async (req, res) => {
       return res.status(400).json({ message: "Email já cadastrado" });
     }
     
+    const businessWorkspace = validatedData.accountType === "business"
+      ? insertOrganizationSchema.parse({
+          name: validatedData.companyName || validatedData.firstName,
+          kind: "business",
+          companyName: validatedData.companyName || null,
+          cnpj: validatedData.cnpj || null,
+        })
+      : null;
+    
     // Hash password
     const hashedPassword = await bcrypt.hash(validatedData.password, 10);
     
@@ -70,26 +206,26 @@ router.post("/register", async (req, res) => {
         password: hashedPassword,
         firstName: validatedData.firstName,
         lastName: validatedData.lastName || null,
-        accountType: validatedData.accountType,
-        companyName: validatedData.companyName || null,
-        cnpj: validatedData.cnpj || null,
       })
       .returning();
+    setAuditUser(newUser.id);
       
-    // Create default categories for the user
-    const { categories } = await import("@shared/schema");
-    await db.insert(categories).values(
-      DEFAULT_CATEGORIES.map(cat => ({
-        userId: newUser.id,
-        name: cat.name,
-        color: cat.color,
-        icon: cat.icon,
-        isDefault: true,
-      }))
-    );
+    // Personal workspace with default categories and account
+    await storage.ensureDefaultOrganization(newUser.id);
+    
+    // The account works without it; the user can ask for a new link from settings
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+    }
     
     // Set session and save before responding
     req.session.userId = newUser.id;
+    if (businessWorkspace) {
+      const business = await storage.createOrganization(businessWorkspace, newUser.id);
+      req.session.organizationId = business.id;
+    }
     
     // Save session to store before sending response
     req.session.save((err: any) => {
@@ -98,9 +234,7 @@ router.post("/register", async (req, res) => {
         return res.status(500).json({ message: "Erro ao salvar sessão" });
       }
       
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = newUser;
-      res.status(201).json(userWithoutPassword);
+      res.status(201).json(toPublicUser(newUser));
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -122,31 +256,36 @@ router.post("/login", async (req, res) => {
       .from(users)
       .where(eq(users.email, validatedData.email))
       .limit(1);
+    
+    if (await rejectIfThrottled(req, res, validatedData.email, user?.id ?? null)) return;
       
     if (!user || !user.password) {
+      await recordLoginAttempt(req, validatedData.email, null, "invalid_password");
       return res.status(401).json({ message: "Email ou senha incorretos" });
     }
     
     // Verify password
     const validPassword = await bcrypt.compare(validatedData.password, user.password);
     if (!validPassword) {
+      await recordLoginAttempt(req, validatedData.email, user.id, "invalid_password");
       return res.status(401).json({ message: "Email ou senha incorretos" });
     }
     
-    // Set session and save before responding
-    req.session.userId = user.id;
+    // With two-factor on, the session is only signed in after /login/2fa
+    if (user.totpEnabledAt && user.totpSecret) {
+      delete req.session.userId;
+      req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS, attempts: 0 };
+      return req.session.save((err: any) => {
+        if (err) {
+          console.error("Session save error:", err);
+          return res.status(500).json({ message: "Erro ao salvar sessão" });
+        }
+        res.json({ twoFactorRequired: true });
+      });
+    }
     
-    // Save session to store before sending response
-    req.session.save((err: any) => {
-      if (err) {
-        console.error("Session save error:", err);
-        return res.status(500).json({ message: "Erro ao salvar sessão" });
-      }
-      
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
-    });
+    await recordLoginAttempt(req, user.email, user.id, "success");
+    signIn(req, res, user);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: error.errors[0].message });
@@ -156,6 +295,335 @@ router.post("/login", async (req, res) => {
   }
 });
 
+// Second login step: the authenticator code (or a recovery code) for the
+// password checked by /login
+router.post("/login/2fa", async (req, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Sessão expirada. Entre novamente." });
+    }
+    
+    const user = await storage.getUser(pending.userId);
+    if (!user) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    
+    if (await rejectIfThrottled(req, res, user.email, user.id)) return;
+    
+    if (!(await verifySecondFactor(user, code))) {
+      await recordLoginAttempt(req, user.email, user.id, "invalid_code");
+      pending.attempts += 1;
+      const exhausted = pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS;
+      if (exhausted) delete req.session.pendingTwoFactor;
+      return req.session.save(() => {
+        res.status(401).json({
+          message: exhausted ? "Muitas tentativas. Entre novamente." : "Código inválido",
+        });
+      });
+    }
+    
+    await recordLoginAttempt(req, user.email, user.id, "success");
+    signIn(req, res, user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Two-factor login error:", error);
+    res.status(500).json({ message: "Erro ao fazer login" });
+  }
+});
+
+// Two-factor status of the signed-in user
+router.get("/2fa", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    
+    const status: TwoFactorStatus = {
+      enabled: !!user.totpEnabledAt,
+      recoveryCodesRemaining: user.totpEnabledAt ? await storage.countRecoveryCodes(user.id) : 0,
+    };
+    res.json(status);
+  } catch (error) {
+    console.error("Two-factor status error:", error);
+    res.status(500).json({ message: "Erro ao buscar autenticação em dois fatores" });
+  }
+});
+
+// Starts enrollment: a new secret and its QR code. Nothing changes at login
+// until /2fa/enable confirms a code generated from it.
+router.post("/2fa/setup", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    if (user.totpEnabledAt) {
+      return res.status(400).json({ message: "Autenticação em dois fatores já está ativa" });
+    }
+    
+    const setup = await createTwoFactorSetup(user.email);
+    await storage.setTotpSecret(user.id, setup.secret);
+    res.json(setup);
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    res.status(500).json({ message: "Erro ao configurar autenticação em dois fatores" });
+  }
+});
+
+// Turns two-factor on and returns the recovery codes, shown only this once
+router.post("/2fa/enable", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    if (user.totpEnabledAt) {
+      return res.status(400).json({ message: "Autenticação em dois fatores já está ativa" });
+    }
+    if (!user.totpSecret || !verifyTotpCode(code, user.totpSecret)) {
+      return res.status(400).json({ message: "Código inválido" });
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.enableTwoFactor(user.id, recoveryCodes.map(hashRecoveryCode));
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Two-factor enable error:", error);
+    res.status(500).json({ message: "Erro ao ativar autenticação em dois fatores" });
+  }
+});
+
+// Turning it off needs both the password and a current code
+router.post("/2fa/disable", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const validatedData = disableTwoFactorSchema.parse(req.body);
+    
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    if (!user.totpEnabledAt) {
+      return res.status(400).json({ message: "Autenticação em dois fatores não está ativa" });
+    }
+    if (!user.password || !(await bcrypt.compare(validatedData.password, user.password))) {
+      return res.status(400).json({ message: "Senha incorreta" });
+    }
+    if (!(await verifySecondFactor(user, validatedData.code))) {
+      return res.status(400).json({ message: "Código inválido" });
+    }
+    
+    await storage.disableTwoFactor(user.id);
+    res.json({ message: "Autenticação em dois fatores desativada" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Two-factor disable error:", error);
+    res.status(500).json({ message: "Erro ao desativar autenticação em dois fatores" });
+  }
+});
+
+// Replaces all recovery codes, e.g. after using some of them
+router.post("/2fa/recovery-codes", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    if (!user.totpEnabledAt || !user.totpSecret || !verifyTotpCode(code, user.totpSecret)) {
+      return res.status(400).json({ message: "Código inválido" });
+    }
+    
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Recovery codes error:", error);
+    res.status(500).json({ message: "Erro ao gerar códigos de recuperação" });
+  }
+});
+
+// Forgot password endpoint. Answers the same whether or not the email has an
+// account, so it cannot be used to find out who is registered.
+router.post("/forgot-password", authRateLimit(60, 5), async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const user = await storage.getUserByUsername(email);
+    
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (error) {
+        console.error("Error sending password reset email:", error);
+      }
+    }
+    
+    res.json({ message: "Se o email estiver cadastrado, você receberá um link para redefinir a senha" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Forgot password error:", error);
+    res.status(500).json({ message: "Erro ao solicitar redefinição de senha" });
+  }
+});
+
+// Reset password endpoint. Opening the emailed link also proves the email.
+router.post("/reset-password", async (req, res) => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+    
+    const userId = await storage.consumeAuthToken(validatedData.token, "password_reset");
+    if (!userId) {
+      return res.status(400).json({ message: "Link inválido ou expirado. Solicite um novo." });
+    }
+    
+    const hashedPassword = await bcrypt.hash(validatedData.password, 10);
+    await storage.updateUserPassword(userId, hashedPassword);
+    await storage.markEmailVerified(userId);
+    // Whoever knew the old password is signed out
+    await revokeUserSessions(userId, req.session.userId === userId ? req.sessionID : undefined);
+    
+    res.json({ message: "Senha redefinida com sucesso" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Reset password error:", error);
+    res.status(500).json({ message: "Erro ao redefinir senha" });
+  }
+});
+
+// Change password endpoint (requires the current password)
+router.post("/change-password", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const validatedData = changePasswordSchema.parse(req.body);
+    
+    const user = await storage.getUser(req.session.userId);
+    if (!user?.password) {
+      return res.status(400).json({ message: "Esta conta não usa senha" });
+    }
+    
+    const validPassword = await bcrypt.compare(validatedData.currentPassword, user.password);
+    if (!validPassword) {
+      return res.status(400).json({ message: "Senha atual incorreta" });
+    }
+    
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 10);
+    await storage.updateUserPassword(user.id, hashedPassword);
+    await revokeUserSessions(user.id, req.sessionID);
+    
+    res.json({ message: "Senha alterada com sucesso. As outras sessões foram encerradas." });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Change password error:", error);
+    res.status(500).json({ message: "Erro ao alterar senha" });
+  }
+});
+
+// Verify email endpoint, called by the page the emailed link opens
+router.post("/verify-email", async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    
+    const userId = await storage.consumeAuthToken(token, "email_verification");
+    if (!userId) {
+      return res.status(400).json({ message: "Link inválido ou expirado" });
+    }
+    
+    await storage.markEmailVerified(userId);
+    res.json({ message: "Email confirmado com sucesso" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0].message });
+    }
+    console.error("Verify email error:", error);
+    res.status(500).json({ message: "Erro ao confirmar email" });
+  }
+});
+
+// Sends a new verification link to the signed-in user
+router.post("/resend-verification", authRateLimit(60, 5), async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Usuário não encontrado" });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: "Email já confirmado" });
+    }
+    
+    await sendVerificationEmail(user);
+    res.json({ message: "Enviamos um novo link de confirmação" });
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    res.status(500).json({ message: "Erro ao enviar email de confirmação" });
+  }
+});
+
+// Recent sign-in attempts on the signed-in user's account, newest first
+router.get("/login-attempts", async (req, res) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Não autenticado" });
+  }
+  
+  try {
+    const attempts = await storage.getLoginAttempts(req.session.userId);
+    res.json(attempts);
+  } catch (error) {
+    console.error("Login attempts error:", error);
+    res.status(500).json({ message: "Erro ao buscar tentativas de login" });
+  }
+});
+
 // Logout endpoint (accepts both GET and POST, returns JSON)
 const logoutHandler = (req: any, res: any) => {
   req.session.destroy((err: any) => {
@@ -189,9 +657,7 @@ router.get("/me", async (req, res) => {
       return res.status(401).json({ message: "Usuário não encontrado" });
     }
     
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = user;
-    res.json(userWithoutPassword);
+    res.json(toPublicUser(user));
   } catch (error) {
     console.error("Get user error:", error);
     res.status(500).json({ message: "Erro ao buscar usuário" });
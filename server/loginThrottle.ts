@@ -0,0 +1,70 @@
+// Brute-force protection for local sign-in. After a few free failures each
+// new attempt has to wait twice as long as the previous one, and past a limit
+// the email or IP address is locked out for a while. Counts come from the
+// login_attempts table, so they survive restarts and are shared by instances.
+import rateLimit from "express-rate-limit";
+import { storage } from "./storage";
+
+interface ThrottlePolicy {
+  // Failures allowed before any waiting
+  freeAttempts: number;
+  // Failures that lock out for lockoutMs
+  lockoutAfter: number;
+  lockoutMs: number;
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 3, lockoutAfter: 10, lockoutMs: 15 * 60 * 1000 };
+// An office or a carrier NAT shares one address, so it gets more room
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 10, lockoutAfter: 50, lockoutMs: 15 * 60 * 1000 };
+
+// Failures older than the longest lockout no longer count
+const FAILURE_WINDOW_MS = Math.max(ACCOUNT_POLICY.lockoutMs, IP_POLICY.lockoutMs);
+
+// Emails are compared case-insensitively so "Ana@" and "ana@" share a counter
+export function normalizeLoginEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function waitMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures < policy.freeAttempts) return 0;
+  if (failures >= policy.lockoutAfter) return policy.lockoutMs;
+  return Math.min(1000 * 2 ** (failures - policy.freeAttempts), policy.lockoutMs);
+}
+
+function remainingMs(failures: number, lastFailureAt: Date | null, policy: ThrottlePolicy, now: Date): number {
+  if (!lastFailureAt) return 0;
+  return Math.max(0, lastFailureAt.getTime() + waitMs(failures, policy) - now.getTime());
+}
+
+// How long the caller must wait before trying this email from this address;
+// 0 when an attempt is allowed now
+export async function loginRetryAfterMs(email: string, ipAddress: string | undefined, now: Date = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - FAILURE_WINDOW_MS);
+  const [accountFailures, ipFailures] = await Promise.all([
+    storage.getLoginFailures({ email: normalizeLoginEmail(email) }, since),
+    ipAddress ? storage.getLoginFailures({ ipAddress }, since) : Promise.resolve(null),
+  ]);
+
+  return Math.max(
+    remainingMs(accountFailures.count, accountFailures.lastFailureAt, ACCOUNT_POLICY, now),
+    ipFailures ? remainingMs(ipFailures.count, ipFailures.lastFailureAt, IP_POLICY, now) : 0,
+  );
+}
+
+export function throttledMessage(retryAfterMs: number): string {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  if (seconds < 60) return `Muitas tentativas. Tente novamente em ${seconds} segundo(s).`;
+  return `Muitas tentativas. Tente novamente em ${Math.ceil(seconds / 60)} minuto(s).`;
+}
+
+// Per-address limit for endpoints that create accounts or send email, where
+// there is no account to count failures against
+export function authRateLimit(windowMinutes: number, limit: number) {
+  return rateLimit({
+    windowMs: windowMinutes * 60 * 1000,
+    limit,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    message: { message: "Muitas solicitações. Tente novamente mais tarde." },
+  });
+}
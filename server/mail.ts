@@ -0,0 +1,111 @@
+// Outgoing email. The transport is picked by MAIL_TRANSPORT:
+//   smtp    - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for 465), SMTP_USER, SMTP_PASSWORD
+//   file    - local outbox: one .eml file per message in MAIL_FILE_DIR (default
+//             tmp/mail); the default in development
+//   console - logs the message; the default elsewhere
+// MAIL_FROM sets the sender of every message and APP_URL the base of links.
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "FinanceFlow <nao-responda@localhost>";
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+export function createSmtpTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required when MAIL_TRANSPORT=smtp");
+  }
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+}
+
+// Writes RFC 822 files that any mail client opens, named by time so they sort
+export function createFileTransport(directory: string = process.env.MAIL_FILE_DIR || "tmp/mail"): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({ from: mailFrom(), ...message });
+      await mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^a-zA-Z0-9]/g, "")}.eml`;
+      const filePath = path.join(directory, fileName);
+      await writeFile(filePath, info.message as Buffer);
+      log(`mail to ${message.to} saved to ${filePath}`, "mail");
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      log(`mail to ${message.to}: ${message.subject}\n${message.text}`, "mail");
+    },
+  };
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const defaultTransport = process.env.NODE_ENV === "development" ? "file" : "console";
+    switch (process.env.MAIL_TRANSPORT || defaultTransport) {
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "file":
+        transport = createFileTransport();
+        break;
+      default:
+        transport = createConsoleTransport();
+    }
+  }
+  return transport;
+}
+
+// Replaces the transport picked from the environment, e.g. with another provider
+export function setMailTransport(custom: MailTransport): void {
+  transport = custom;
+}
+
+// Base URL of links sent by email. Taken from APP_URL and never from the
+// request, whose Host header anyone can forge to point reset links at another
+// site. Development falls back to the local server.
+export function appUrl(): string {
+  const configured = process.env.APP_URL?.replace(/\/+$/, "");
+  if (configured) return configured;
+  if (process.env.NODE_ENV === "development") {
+    return `http://localhost:${process.env.PORT || "5000"}`;
+  }
+  throw new Error("APP_URL must be set to send emails with links");
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return getMailTransport().send(message);
+}
@@ -0,0 +1,47 @@
+// Daily email digest of bill reminders, one message per user across all of
+// their workspaces. Overdue bills come first since they are already costing fees.
+import type { MailMessage } from "./mail";
+import type { DigestNotification } from "./storage";
+
+function formatCurrency(value: number): string {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR");
+}
+
+function billLine(notification: DigestNotification): string {
+  const amount = formatCurrency(parseFloat(notification.transaction.amount) || 0);
+  return `- ${notification.transaction.title} (${notification.organization.name}): ${amount}, vencimento em ${formatDate(notification.dueDate)}`;
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+// All notifications must belong to the same user
+export function buildDigestEmail(items: DigestNotification[]): MailMessage {
+  const user = items[0].user;
+  const overdue = items.filter(item => item.kind === "bill_overdue");
+  const dueSoon = items.filter(item => item.kind === "bill_due_soon");
+
+  const summary: string[] = [];
+  if (overdue.length > 0) summary.push(plural(overdue.length, "conta vencida", "contas vencidas"));
+  if (dueSoon.length > 0) summary.push(plural(dueSoon.length, "conta a vencer", "contas a vencer"));
+
+  const lines = [`Olá${user.firstName ? `, ${user.firstName}` : ""}!`, ""];
+  if (overdue.length > 0) {
+    lines.push("Contas vencidas e ainda não pagas:", ...overdue.map(billLine), "");
+  }
+  if (dueSoon.length > 0) {
+    lines.push("Contas que vencem nos próximos dias:", ...dueSoon.map(billLine), "");
+  }
+  lines.push("Marque-as como pagas no FinanceFlow para deixar de recebê-las.");
+
+  return {
+    to: user.email,
+    subject: `Lembrete: ${summary.join(" e ")}`,
+    text: lines.join("\n"),
+  };
+}
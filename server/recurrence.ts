@@ -0,0 +1,78 @@
+// Occurrence schedule of a recurring series. Dates are returned in order, so
+// the position in the list + 1 is the occurrence number stored on each row.
+// The start date is always occurrence 1, since the row that created the series
+// sits there; the ones after it follow recurrenceDay.
+import type { RecurringSeries } from "@shared/schema";
+
+export type RecurrenceSchedule = Pick<
+  RecurringSeries,
+  "recurrenceType" | "recurrenceDay" | "startDate" | "endDate" | "maxOccurrences"
+>;
+
+// Day clamped to the length of the month, so "day 31" falls on Feb 28/29
+function monthlyOccurrence(startYear: number, startMonth: number, monthOffset: number, dayOfMonth: number): Date {
+  const date = new Date(startYear, startMonth + monthOffset, 1);
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay));
+}
+
+// All occurrence dates from the start of the series up to targetDate,
+// honoring the series end date and occurrence limit
+export function calculateNextRecurrenceDates(schedule: RecurrenceSchedule, targetDate: Date): Date[] {
+  const dates: Date[] = [];
+  const startDate = new Date(schedule.startDate);
+  const limitDate = schedule.endDate && new Date(schedule.endDate) < targetDate
+    ? new Date(schedule.endDate)
+    : targetDate;
+  const maxOccurrences = schedule.maxOccurrences ?? Infinity;
+
+  // Compared by day: the first occurrence falls on the start date whatever its time
+  const startOfFirstDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const startOfNextDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+  const withinLimits = (date: Date) =>
+    date >= startOfNextDay && date <= limitDate && dates.length < maxOccurrences;
+
+  if (startOfFirstDay > limitDate || maxOccurrences < 1) return dates;
+  dates.push(new Date(startDate));
+
+  const startMonth = startDate.getMonth();
+  const startYear = startDate.getFullYear();
+  const monthsDiff = (limitDate.getFullYear() - startYear) * 12 + (limitDate.getMonth() - startMonth);
+
+  switch (schedule.recurrenceType) {
+    case "monthly":
+    case "monthly_variable":
+    case "quarterly": {
+      const step = schedule.recurrenceType === "quarterly" ? 3 : 1;
+      const dayOfMonth = schedule.recurrenceDay || startDate.getDate();
+
+      for (let monthOffset = 0; monthOffset <= monthsDiff; monthOffset += step) {
+        const occurrenceDate = monthlyOccurrence(startYear, startMonth, monthOffset, dayOfMonth);
+        if (withinLimits(occurrenceDate)) {
+          dates.push(occurrenceDate);
+        }
+      }
+      break;
+    }
+
+    case "weekly":
+    case "biweekly": {
+      const step = schedule.recurrenceType === "biweekly" ? 14 : 7;
+      const dayOfWeek = schedule.recurrenceDay !== null ? schedule.recurrenceDay : startDate.getDay();
+      const currentDate = new Date(startDate);
+      currentDate.setDate(startDate.getDate() + ((dayOfWeek - startDate.getDay() + 7) % 7));
+
+      while (currentDate <= limitDate && dates.length < maxOccurrences) {
+        if (withinLimits(currentDate)) {
+          dates.push(new Date(currentDate));
+        }
+        currentDate.setDate(currentDate.getDate() + step);
+      }
+      break;
+    }
+  }
+
+  return dates;
+}
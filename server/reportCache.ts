@@ -0,0 +1,55 @@
+// In-memory cache of computed reports. Entries are kept per workspace and
+// dropped once a change to the workspace's data commits (see recordAudit and
+// transaction in storage). The TTL bounds memory use and covers writes made
+// by another app instance.
+const REPORT_CACHE_TTL_MS = 10 * 60 * 1000;
+const REPORT_CACHE_MAX_ENTRIES = 2000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const entries = new Map<string, Map<string, CacheEntry>>();
+// Bumped on invalidation so results computed before it are not stored after it
+const generations = new Map<string, number>();
+let entryCount = 0;
+
+export async function cachedReport<T>(organizationId: string, key: string, load: () => Promise<T>): Promise<T> {
+  const cached = entries.get(organizationId)?.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as T;
+  }
+
+  const generation = generations.get(organizationId) ?? 0;
+  const value = await load();
+  if ((generations.get(organizationId) ?? 0) === generation) {
+    store(organizationId, key, value);
+  }
+  return value;
+}
+
+export function invalidateReports(organizationId: string): void {
+  generations.set(organizationId, (generations.get(organizationId) ?? 0) + 1);
+  const workspaceEntries = entries.get(organizationId);
+  if (workspaceEntries) {
+    entryCount -= workspaceEntries.size;
+    entries.delete(organizationId);
+  }
+}
+
+function store(organizationId: string, key: string, value: unknown): void {
+  if (entryCount >= REPORT_CACHE_MAX_ENTRIES) {
+    // Workspaces are kept in insertion order, so the first one is the oldest
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined) invalidateReports(oldest);
+  }
+
+  let workspaceEntries = entries.get(organizationId);
+  if (!workspaceEntries) {
+    workspaceEntries = new Map();
+    entries.set(organizationId, workspaceEntries);
+  }
+  if (!workspaceEntries.has(key)) entryCount += 1;
+  workspaceEntries.set(key, { value, expiresAt: Date.now() + REPORT_CACHE_TTL_MS });
+}
@@ -4,18 +4,74 @@ import { storage } from "./storage";
 import { 
   insertCategorySchema, 
   insertTransactionSchema,
-  updateAccountTypeSchema,
+  recurrenceLimitsSchema,
+  recurrenceScopeSchema,
+  bulkTransactionSchema,
+  transactionListQuerySchema,
+  insertBudgetSchema,
+  insertCategoryRuleSchema,
+  insertFinancialAccountSchema,
+  updateFinancialAccountSchema,
+  insertTransferSchema,
+  insertInstallmentPurchaseSchema,
+  reportDateBasisSchema,
+  reportSeriesQuerySchema,
+  reportRangeQuerySchema,
+  forecastQuerySchema,
+  updateCategoryRuleSchema,
+  categorySuggestionQuerySchema,
+  updateMonthlyFinancialSchema,
+  insertImportMappingSchema,
+  importPreviewSchema,
+  importCommitSchema,
+  insertOrganizationSchema,
+  updateOrganizationSchema,
+  insertOrganizationInvitationSchema,
+  updateOrganizationMemberSchema,
+  hasOrganizationRole,
+  auditQuerySchema,
+  updateNotificationPreferencesSchema,
+  insertApiTokenSchema,
+  type OrganizationRole,
+  type InvitationPreview,
+  type CreatedInvitation,
+  type OrganizationInvitation,
+  type ImportPreview,
 } from "@shared/schema";
 import { z } from "zod";
 import { setupAuth, isAuthenticated, getOidcConfig } from "./replitAuth";
-import localAuthRoutes from "./localAuth";
+import localAuthRoutes, { toPublicUser } from "./localAuth";
+import { appUrl, sendMail } from "./mail";
+import { parseCsvStatement, parseOfxStatement, StatementParseError } from "./statementImport";
+import {
+  buildAdvancedReportDocument,
+  buildMonthlyReportDocument,
+  buildTransactionsDocument,
+  renderExport,
+  EXPORT_FORMATS,
+  type ExportFile,
+  type ExportFormat,
+} from "./exports";
+import { runRecurrenceJob, runNotificationDigestJob, RECURRENCE_JOB, NOTIFICATION_DIGEST_JOB } from "./scheduler";
+import { hasStatementCycle } from "./creditCard";
+import { auditContextMiddleware, setAuditUser } from "./auditContext";
+import { sessionActivityMiddleware, publicSessionId, revokeUserSessions, toUserSession } from "./sessionActivity";
+import {
+  apiV1Middleware,
+  apiTokenAllows,
+  bearerToken,
+  getOpenApiDocument,
+  operationAccess,
+  type ApiV1Operation,
+} from "./apiV1";
 
-// Hybrid auth middleware - supports both local auth (session) and Replit Auth (OIDC)
+// User auth middleware - supports both local auth (session) and Replit Auth (OIDC)
 // Checks both methods and sets req.userId if either is valid
-async function hybridAuth(req: any, res: Response, next: NextFunction) {
+async function userAuth(req: any, res: Response, next: NextFunction) {
   // Method 1: Check local auth (session-based)
   if (req.session?.userId) {
     req.userId = req.session.userId;
+    setAuditUser(req.userId);
     return next();
   }
   
@@ -43,6 +99,7 @@ async function hybridAuth(req: any, res: Response, next: NextFunction) {
           user.expires_at = user.claims?.exp;
           
           req.userId = user.claims.sub;
+          setAuditUser(req.userId);
           return next();
         } catch (error) {
           return res.status(401).json({ error: "Token expirado e não pôde ser renovado" });
@@ -53,6 +110,7 @@ async function hybridAuth(req: any, res: Response, next: NextFunction) {
     
     // Token still valid
     req.userId = user.claims.sub;
+    setAuditUser(req.userId);
     return next();
   }
   
@@ -60,287 +118,1573 @@ async function hybridAuth(req: any, res: Response, next: NextFunction) {
   return res.status(401).json({ error: "Não autenticado" });
 }
 
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// API token auth (Authorization: Bearer) - only under /api/v1, where
+// apiV1Middleware has matched the operation. The token acts as its user in the
+// organization it was created for, within both its scopes and the user's
+// current role there.
+async function apiTokenAuth(req: any, res: Response, next: NextFunction, token: string) {
+  const operation: ApiV1Operation | undefined = req.apiOperation;
+  if (!operation) {
+    return res.status(401).json({ error: "Tokens de API só são aceitos nas rotas /api/v1" });
+  }
+  
+  try {
+    const apiToken = await storage.findApiToken(token);
+    if (!apiToken) {
+      return res.status(401).json({ error: "Token de API inválido ou expirado" });
+    }
+    
+    const membership = await storage.getMembership(apiToken.organizationId, apiToken.userId);
+    if (!membership) {
+      return res.status(401).json({ error: "O dono deste token não participa mais da organização" });
+    }
+    
+    const access = operationAccess(operation);
+    if (!apiTokenAllows(apiToken.scopes, operation.resource, access)) {
+      return res.status(403).json({
+        error: `Este token não tem acesso de ${access === "read" ? "leitura" : "escrita"} a ${operation.resource}`,
+      });
+    }
+    if (!READ_ONLY_METHODS.includes(req.method) && !hasOrganizationRole(membership.role, "bookkeeper")) {
+      return res.status(403).json({ error: "Seu papel nesta organização permite apenas visualizar" });
+    }
+    
+    await storage.touchApiToken(apiToken.id);
+    req.userId = apiToken.userId;
+    req.organizationId = apiToken.organizationId;
+    req.organizationRole = membership.role;
+    req.apiToken = apiToken;
+    setAuditUser(req.userId);
+    return next();
+  } catch (error) {
+    console.error("Error verifying API token:", error);
+    res.status(500).json({ error: "Erro ao verificar permissões" });
+  }
+}
+
+// Hybrid auth middleware for organization data - authenticates the user, then
+// sets req.organizationId and req.organizationRole from the active workspace.
+// Viewers are limited to read-only requests. An API token replaces the
+// browser session when the request carries one.
+async function hybridAuth(req: any, res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  if (token) {
+    return apiTokenAuth(req, res, next, token);
+  }
+  
+  await userAuth(req, res, async () => {
+    try {
+      const membership = await storage.getActiveMembership(req.userId, req.session?.organizationId);
+      req.organizationId = membership.organizationId;
+      req.organizationRole = membership.role;
+      
+      if (!READ_ONLY_METHODS.includes(req.method) && !hasOrganizationRole(membership.role, "bookkeeper")) {
+        return res.status(403).json({ error: "Seu papel nesta organização permite apenas visualizar" });
+      }
+      return next();
+    } catch (error) {
+      console.error("Error resolving organization:", error);
+      res.status(500).json({ error: "Erro ao verificar permissões" });
+    }
+  });
+}
+
+// Role check for the active organization - must run after hybridAuth
+function requireRole(role: OrganizationRole) {
+  return (req: any, res: Response, next: NextFunction) => {
+    if (!hasOrganizationRole(req.organizationRole, role)) {
+      return res.status(403).json({ error: "Você não tem permissão para esta ação" });
+    }
+    return next();
+  };
+}
+
+// Admin-only routes - must run after userAuth
+async function requireAdmin(req: any, res: Response, next: NextFunction) {
+  try {
+    const user = await storage.getUser(req.userId);
+    if (!user?.isAdmin) {
+      return res.status(403).json({ error: "Acesso restrito a administradores" });
+    }
+    return next();
+  } catch (error) {
+    console.error("Error checking admin access:", error);
+    res.status(500).json({ error: "Erro ao verificar permissões" });
+  }
+}
+
+// Parses /:year/:month route params, returning null when out of range
+function parsePeriodParams(params: { year?: string; month?: string }): { year: number; month: number } | null {
+  const year = parseInt(params.year as string);
+  const month = parseInt(params.month as string);
+  
+  if (isNaN(year) || isNaN(month) || month < 1 || month > 12 || year < 1900 || year > 2200) {
+    return null;
+  }
+  
+  return { year, month };
+}
+
+// Transactions may only point at accounts of the same organization
+async function isOwnAccount(organizationId: string, accountId: string | null | undefined): Promise<boolean> {
+  if (!accountId) return true;
+  return !!(await storage.getFinancialAccount(accountId, organizationId));
+}
+
+function parseExportFormat(value: unknown): ExportFormat | null {
+  const format = (value || "csv") as ExportFormat;
+  return EXPORT_FORMATS.includes(format) ? format : null;
+}
+
+function sendExportFile(res: Response, file: ExportFile) {
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+  res.send(file.buffer);
+}
+
+async function sendInvitationEmail(invitation: OrganizationInvitation, token: string, invitedBy: string): Promise<void> {
+  const [inviter, organizations] = await Promise.all([
+    storage.getUser(invitedBy),
+    storage.getUserOrganizations(invitedBy),
+  ]);
+  const organization = organizations.find(o => o.id === invitation.organizationId);
+  const link = `${appUrl()}/invite/${token}`;
+  await sendMail({
+    to: invitation.email,
+    subject: `Convite para ${organization?.name ?? "uma organização"} no FinanceFlow`,
+    text: [
+      "Olá!",
+      "",
+      `${inviter?.firstName || inviter?.email || "Um administrador"} convidou você para ${organization?.name ?? "uma organização"} no FinanceFlow. Para aceitar, abra o link abaixo e entre ou crie sua conta com este email:`,
+      link,
+      "",
+      `O convite vale até ${invitation.expiresAt.toLocaleDateString("pt-BR")}.`,
+    ].join("\n"),
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // ============= AUTH SETUP =============
   // Setup Replit Auth (legacy - adds /api/login, /api/callback, /api/logout routes)
   await setupAuth(app);
   
+  // Who/where context for the audit log, filled in by userAuth
+  app.use("/api", auditContextMiddleware);
+  // Last seen time, device and address of signed-in sessions
+  app.use("/api", sessionActivityMiddleware);
+  
+  // Public description of /api/v1, for API clients and code generators
+  app.get("/api/v1/openapi.json", (_req, res) => {
+    res.json(getOpenApiDocument());
+  });
+  // /api/v1 operations continue to their /api route below
+  app.use(apiV1Middleware);
+  
   // Setup Local Auth (new - adds /api/auth/register, /api/auth/login, /api/auth/logout, /api/auth/me)
   app.use("/api/auth", localAuthRoutes);
   
   // ============= AUTH ROUTES =============
   // Legacy Replit Auth endpoint (kept for backward compatibility)
-  app.get('/api/auth/user', hybridAuth, async (req: any, res) => {
+  app.get('/api/auth/user', userAuth, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.userId);
-      res.json(user);
+      res.json(user ? toPublicUser(user) : user);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
   
-  // ============= ACCOUNT SETTINGS =============
-  app.patch("/api/account-settings", hybridAuth, async (req: any, res) => {
+  // Signed-in browsers of the user, current one first
+  app.get("/api/auth/sessions", userAuth, async (req: any, res) => {
     try {
-      const data = updateAccountTypeSchema.parse(req.body);
-      const user = await storage.updateAccountType(req.userId, data);
-      
-      if (!user) {
-        return res.status(404).json({ error: "Usuário não encontrado" });
-      }
-      
-      res.json(user);
+      const rows = await storage.getUserSessions(req.userId);
+      const userSessions = rows
+        .map(row => toUserSession(row, req.sessionID))
+        .sort((a, b) => Number(b.current) - Number(a.current));
+      res.json(userSessions);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
-      }
-      console.error("Error updating account settings:", error);
-      res.status(500).json({ error: "Erro ao atualizar configurações" });
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Erro ao buscar sessões" });
     }
   });
   
-  // ============= CATEGORIES =============
-  app.get("/api/categories", hybridAuth, async (req: any, res) => {
+  app.post("/api/auth/sessions/revoke-others", userAuth, async (req: any, res) => {
     try {
-      const categories = await storage.getCategories(req.userId);
-      res.json(categories);
+      const revoked = await revokeUserSessions(req.userId, req.sessionID);
+      res.json({ revoked });
     } catch (error) {
-      console.error("Error fetching categories:", error);
-      res.status(500).json({ error: "Erro ao buscar categorias" });
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ error: "Erro ao encerrar sessões" });
     }
   });
   
-  app.get("/api/categories/:id", hybridAuth, async (req: any, res) => {
+  app.delete("/api/auth/sessions/:id", userAuth, async (req: any, res) => {
     try {
-      const category = await storage.getCategory(req.params.id, req.userId);
+      const rows = await storage.getUserSessions(req.userId);
+      const session = rows.find(row => publicSessionId(row.sid) === req.params.id);
       
-      if (!category) {
-        return res.status(404).json({ error: "Categoria não encontrada" });
+      if (!session) {
+        return res.status(404).json({ error: "Sessão não encontrada" });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ error: "Use Sair para encerrar a sessão atual" });
       }
       
-      res.json(category);
+      await storage.deleteSessions([session.sid]);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching category:", error);
-      res.status(500).json({ error: "Erro ao buscar categoria" });
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Erro ao encerrar sessão" });
     }
   });
   
-  app.post("/api/categories", hybridAuth, async (req: any, res) => {
+  // ============= API TOKENS =============
+  // Managed from the browser only; a token cannot create or list tokens
+  app.get("/api/api-tokens", userAuth, async (req: any, res) => {
     try {
-      const data = insertCategorySchema.parse({
-        ...req.body,
-        userId: req.userId,
-      });
-      
-      const category = await storage.createCategory(data);
-      res.status(201).json(category);
+      const tokens = await storage.getApiTokens(req.userId);
+      res.json(tokens);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
-      }
-      console.error("Error creating category:", error);
-      res.status(500).json({ error: "Erro ao criar categoria" });
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ error: "Erro ao buscar tokens de API" });
     }
   });
   
-  app.patch("/api/categories/:id", hybridAuth, async (req: any, res) => {
+  // Created for the active organization; the token is only returned here
+  app.post("/api/api-tokens", userAuth, async (req: any, res) => {
     try {
-      const data = insertCategorySchema.partial().omit({ userId: true, isDefault: true }).parse(req.body);
-      const category = await storage.updateCategory(req.params.id, req.userId, data);
+      const data = insertApiTokenSchema.parse(req.body);
+      const membership = await storage.getActiveMembership(req.userId, req.session?.organizationId);
       
-      if (!category) {
-        return res.status(404).json({ error: "Categoria não encontrada" });
+      const grantsWrite = Object.values(data.scopes).includes("write");
+      if (grantsWrite && !hasOrganizationRole(membership.role, "bookkeeper")) {
+        return res.status(403).json({ error: "Seu papel nesta organização permite apenas tokens de leitura" });
       }
       
-      res.json(category);
+      const created = await storage.createApiToken(req.userId, membership.organizationId, data);
+      res.status(201).json(created);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Dados inválidos", details: error.errors });
       }
-      console.error("Error updating category:", error);
-      res.status(500).json({ error: "Erro ao atualizar categoria" });
+      console.error("Error creating API token:", error);
+      res.status(500).json({ error: "Erro ao criar token de API" });
     }
   });
   
-  app.delete("/api/categories/:id", hybridAuth, async (req: any, res) => {
+  app.delete("/api/api-tokens/:id", userAuth, async (req: any, res) => {
     try {
-      const success = await storage.deleteCategory(req.params.id, req.userId);
+      const success = await storage.deleteApiToken(req.params.id, req.userId);
       
       if (!success) {
-        return res.status(404).json({ error: "Categoria não encontrada ou não pode ser excluída" });
+        return res.status(404).json({ error: "Token não encontrado" });
       }
       
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting category:", error);
-      res.status(500).json({ error: "Erro ao excluir categoria" });
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ error: "Erro ao revogar token de API" });
+    }
+  });
+
+  // ============= ORGANIZATIONS =============
+  // The organizations the user belongs to; the active one (kept in the
+  // session) scopes every hybridAuth route
+  app.get("/api/organizations", userAuth, async (req: any, res) => {
+    try {
+      const membership = await storage.getActiveMembership(req.userId, req.session.organizationId);
+      const organizations = await storage.getUserOrganizations(req.userId, membership.organizationId);
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ error: "Erro ao buscar organizações" });
     }
   });
   
-  // ============= TRANSACTIONS =============
-  app.get("/api/transactions", hybridAuth, async (req: any, res) => {
+  app.post("/api/organizations", userAuth, async (req: any, res) => {
     try {
-      const filters: any = {};
+      const data = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(data, req.userId);
       
-      if (req.query.categoryId) {
-        filters.categoryId = req.query.categoryId as string;
+      req.session.organizationId = organization.id;
+      res.status(201).json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
       }
-      if (req.query.status) {
-        filters.status = req.query.status as "paid" | "unpaid";
+      console.error("Error creating organization:", error);
+      res.status(500).json({ error: "Erro ao criar organização" });
+    }
+  });
+  
+  // Month totals of every organization the user belongs to, whatever the active one
+  app.get("/api/organizations/consolidated", userAuth, async (req: any, res) => {
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      const report = await storage.getConsolidatedReport(req.userId, year, month);
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating consolidated report:", error);
+      res.status(500).json({ error: "Erro ao gerar visão consolidada" });
+    }
+  });
+  
+  app.post("/api/organizations/:id/switch", userAuth, async (req: any, res) => {
+    try {
+      const membership = await storage.getMembership(req.params.id, req.userId);
+      
+      if (!membership) {
+        return res.status(404).json({ error: "Organização não encontrada" });
       }
-      if (req.query.startDate) {
-        filters.startDate = new Date(req.query.startDate as string);
+      
+      req.session.organizationId = membership.organizationId;
+      res.json(membership);
+    } catch (error) {
+      console.error("Error switching organization:", error);
+      res.status(500).json({ error: "Erro ao trocar de organização" });
+    }
+  });
+  
+  app.post("/api/organizations/:id/leave", userAuth, async (req: any, res) => {
+    try {
+      const membership = await storage.getMembership(req.params.id, req.userId);
+      
+      if (!membership) {
+        return res.status(404).json({ error: "Organização não encontrada" });
       }
-      if (req.query.endDate) {
-        filters.endDate = new Date(req.query.endDate as string);
+      if (membership.role === "owner" && (await storage.countOwners(membership.organizationId)) <= 1) {
+        return res.status(400).json({ error: "Transfira a propriedade para outro membro antes de sair" });
       }
       
-      const transactions = await storage.getTransactions(req.userId, filters);
-      res.json(transactions);
+      await storage.removeMember(membership.id, membership.organizationId);
+      if (req.session.organizationId === membership.organizationId) {
+        delete req.session.organizationId;
+      }
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching transactions:", error);
-      res.status(500).json({ error: "Erro ao buscar transações" });
+      console.error("Error leaving organization:", error);
+      res.status(500).json({ error: "Erro ao sair da organização" });
     }
   });
   
-  app.get("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+  app.patch("/api/organizations/current", hybridAuth, requireRole("admin"), async (req: any, res) => {
     try {
-      const transaction = await storage.getTransaction(req.params.id, req.userId);
+      const data = updateOrganizationSchema.parse(req.body);
+      const organization = await storage.updateOrganization(req.organizationId, data);
       
-      if (!transaction) {
-        return res.status(404).json({ error: "Transação não encontrada" });
+      if (!organization) {
+        return res.status(404).json({ error: "Organização não encontrada" });
       }
       
-      res.json(transaction);
+      res.json(organization);
     } catch (error) {
-      console.error("Error fetching transaction:", error);
-      res.status(500).json({ error: "Erro ao buscar transação" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating organization:", error);
+      res.status(500).json({ error: "Erro ao atualizar organização" });
     }
   });
   
-  app.post("/api/transactions", hybridAuth, async (req: any, res) => {
+  app.get("/api/organizations/current/members", hybridAuth, async (req: any, res) => {
     try {
-      const data = insertTransactionSchema.parse({
-        ...req.body,
-        userId: req.userId,
-      });
+      const members = await storage.getOrganizationMembers(req.organizationId);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching members:", error);
+      res.status(500).json({ error: "Erro ao buscar membros" });
+    }
+  });
+  
+  // Admins manage viewers, bookkeepers and other admins; only owners grant or
+  // take away ownership, and the last owner always stays
+  app.patch("/api/organizations/current/members/:id", hybridAuth, requireRole("admin"), async (req: any, res) => {
+    try {
+      const { role } = updateOrganizationMemberSchema.parse(req.body);
+      const member = await storage.getOrganizationMember(req.params.id, req.organizationId);
       
-      const transaction = await storage.createTransaction(data);
-      res.status(201).json(transaction);
+      if (!member) {
+        return res.status(404).json({ error: "Membro não encontrado" });
+      }
+      if ((member.role === "owner" || role === "owner") && req.organizationRole !== "owner") {
+        return res.status(403).json({ error: "Apenas proprietários podem alterar proprietários" });
+      }
+      if (member.role === "owner" && role !== "owner" && (await storage.countOwners(req.organizationId)) <= 1) {
+        return res.status(400).json({ error: "A organização precisa de pelo menos um proprietário" });
+      }
+      
+      const updated = await storage.updateMemberRole(member.id, req.organizationId, role);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Dados inválidos", details: error.errors });
       }
-      console.error("Error creating transaction:", error);
-      res.status(500).json({ error: "Erro ao criar transação" });
+      console.error("Error updating member:", error);
+      res.status(500).json({ error: "Erro ao atualizar membro" });
     }
   });
   
-  app.patch("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+  app.delete("/api/organizations/current/members/:id", hybridAuth, requireRole("admin"), async (req: any, res) => {
     try {
-      const data = insertTransactionSchema.partial().omit({ 
-        userId: true,
-        isRecurring: true,
-        recurrenceType: true,
-        recurrenceDay: true
-      }).parse(req.body);
-      const transaction = await storage.updateTransaction(req.params.id, req.userId, data);
+      const member = await storage.getOrganizationMember(req.params.id, req.organizationId);
       
-      if (!transaction) {
-        return res.status(404).json({ error: "Transação não encontrada" });
+      if (!member) {
+        return res.status(404).json({ error: "Membro não encontrado" });
+      }
+      if (member.role === "owner" && req.organizationRole !== "owner") {
+        return res.status(403).json({ error: "Apenas proprietários podem remover proprietários" });
+      }
+      if (member.role === "owner" && (await storage.countOwners(req.organizationId)) <= 1) {
+        return res.status(400).json({ error: "A organização precisa de pelo menos um proprietário" });
       }
       
-      res.json(transaction);
+      await storage.removeMember(member.id, req.organizationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ error: "Erro ao remover membro" });
+    }
+  });
+  
+  app.get("/api/organizations/current/invitations", hybridAuth, requireRole("admin"), async (req: any, res) => {
+    try {
+      const invitations = await storage.getPendingInvitations(req.organizationId);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ error: "Erro ao buscar convites" });
+    }
+  });
+  
+  // The invitee gets the /invite/:token link by email and accepts it signed in with the invited email
+  app.post("/api/organizations/current/invitations", hybridAuth, requireRole("admin"), async (req: any, res) => {
+    try {
+      const data = insertOrganizationInvitationSchema.parse(req.body);
+      
+      if (data.role === "owner" && req.organizationRole !== "owner") {
+        return res.status(403).json({ error: "Apenas proprietários podem convidar proprietários" });
+      }
+      
+      const members = await storage.getOrganizationMembers(req.organizationId);
+      if (members.some(m => m.user.email.toLowerCase() === data.email)) {
+        return res.status(409).json({ error: "Este email já faz parte da organização" });
+      }
+      
+      const { token, invitation } = await storage.createInvitation(req.organizationId, req.userId, data);
+      
+      // The invitation stands either way; the admin can still copy the link
+      let emailSent = true;
+      try {
+        await sendInvitationEmail(invitation, token, req.userId);
+      } catch (error) {
+        emailSent = false;
+        console.error("Error sending invitation email:", error);
+      }
+      
+      const { tokenHash: _tokenHash, ...summary } = invitation;
+      const created: CreatedInvitation = { token, invitation: summary, emailSent };
+      res.status(201).json(created);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Dados inválidos", details: error.errors });
       }
-      console.error("Error updating transaction:", error);
-      res.status(500).json({ error: "Erro ao atualizar transação" });
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ error: "Erro ao criar convite" });
     }
   });
   
-  app.delete("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+  app.delete("/api/organizations/current/invitations/:id", hybridAuth, requireRole("admin"), async (req: any, res) => {
     try {
-      const success = await storage.deleteTransaction(req.params.id, req.userId);
+      const success = await storage.deleteInvitation(req.params.id, req.organizationId);
       
       if (!success) {
-        return res.status(404).json({ error: "Transação não encontrada" });
+        return res.status(404).json({ error: "Convite não encontrado" });
       }
       
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting transaction:", error);
-      res.status(500).json({ error: "Erro ao excluir transação" });
+      console.error("Error deleting invitation:", error);
+      res.status(500).json({ error: "Erro ao excluir convite" });
     }
   });
   
-  // ============= RECURRENCE =============
-  app.post("/api/transactions/process-recurrence", hybridAuth, async (req: any, res) => {
+  // Public, so the invite page can show what is being joined before sign in
+  app.get("/api/invitations/:token", async (req, res) => {
     try {
-      const targetDate = req.body.targetDate ? new Date(req.body.targetDate) : new Date();
-      const createdCount = await storage.processRecurringTransactions(req.userId, targetDate);
+      const invitation = await storage.getInvitationByToken(req.params.token);
       
-      res.json({ 
-        success: true, 
-        createdCount,
-        message: `${createdCount} transação(ões) criada(s) a partir de recorrências`
-      });
+      if (!invitation) {
+        return res.status(404).json({ error: "Convite não encontrado" });
+      }
+      
+      const preview: InvitationPreview = {
+        organizationName: invitation.organization.name,
+        email: invitation.email,
+        role: invitation.role,
+        isExpired: invitation.expiresAt < new Date(),
+        isAccepted: invitation.acceptedAt !== null,
+      };
+      res.json(preview);
     } catch (error) {
-      console.error("Error processing recurring transactions:", error);
-      res.status(500).json({ error: "Erro ao processar transações recorrentes" });
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ error: "Erro ao buscar convite" });
     }
   });
   
-  app.get("/api/transactions/recurring", hybridAuth, async (req: any, res) => {
+  app.post("/api/invitations/:token/accept", userAuth, async (req: any, res) => {
     try {
-      const recurringTransactions = await storage.getRecurringTransactions(req.userId);
-      res.json(recurringTransactions);
+      const invitation = await storage.getInvitationByToken(req.params.token);
+      
+      if (!invitation) {
+        return res.status(404).json({ error: "Convite não encontrado" });
+      }
+      if (invitation.acceptedAt || invitation.expiresAt < new Date()) {
+        return res.status(400).json({ error: "Convite expirado ou já utilizado" });
+      }
+      
+      const user = await storage.getUser(req.userId);
+      if (user?.email.toLowerCase() !== invitation.email) {
+        return res.status(403).json({ error: "Este convite foi enviado para outro email" });
+      }
+      if (await storage.getMembership(invitation.organizationId, req.userId)) {
+        return res.status(409).json({ error: "Você já faz parte desta organização" });
+      }
+      
+      const member = await storage.acceptInvitation(invitation, req.userId);
+      if (!member) {
+        return res.status(409).json({ error: "Você já faz parte desta organização" });
+      }
+      req.session.organizationId = invitation.organizationId;
+      res.json(member);
     } catch (error) {
-      console.error("Error fetching recurring transactions:", error);
-      res.status(500).json({ error: "Erro ao buscar transações recorrentes" });
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ error: "Erro ao aceitar convite" });
     }
   });
   
-  // ============= REPORTS =============
-  app.get("/api/reports/monthly", hybridAuth, async (req: any, res) => {
+  // ============= CATEGORIES =============
+  app.get("/api/categories", hybridAuth, async (req: any, res) => {
     try {
-      const year = parseInt(req.query.year as string) || new Date().getFullYear();
-      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
-      
-      const report = await storage.getMonthlyReport(req.userId, year, month);
-      res.json(report);
+      const categories = await storage.getCategories(req.organizationId);
+      res.json(categories);
     } catch (error) {
-      console.error("Error generating monthly report:", error);
-      res.status(500).json({ error: "Erro ao gerar relatório" });
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Erro ao buscar categorias" });
     }
   });
   
-  app.get("/api/reports/weekly", hybridAuth, async (req: any, res) => {
+  app.get("/api/categories/:id", hybridAuth, async (req: any, res) => {
     try {
-      const year = parseInt(req.query.year as string) || new Date().getFullYear();
-      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      const category = await storage.getCategory(req.params.id, req.organizationId);
       
-      const weeklyData = await storage.getWeeklyData(req.userId, year, month);
-      res.json(weeklyData);
+      if (!category) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      
+      res.json(category);
     } catch (error) {
-      console.error("Error generating weekly report:", error);
-      res.status(500).json({ error: "Erro ao gerar relatório semanal" });
+      console.error("Error fetching category:", error);
+      res.status(500).json({ error: "Erro ao buscar categoria" });
     }
   });
   
-  app.get("/api/reports/advanced", hybridAuth, async (req: any, res) => {
+  app.post("/api/categories", hybridAuth, async (req: any, res) => {
     try {
-      const year = parseInt(req.query.year as string) || new Date().getFullYear();
-      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      const data = insertCategorySchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
       
-      const advancedReport = await storage.getAdvancedReport(req.userId, year, month);
-      res.json(advancedReport);
+      const category = await storage.createCategory(data);
+      res.status(201).json(category);
     } catch (error) {
-      console.error("Error generating advanced report:", error);
-      res.status(500).json({ error: "Erro ao gerar relatório avançado" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating category:", error);
+      res.status(500).json({ error: "Erro ao criar categoria" });
+    }
+  });
+  
+  app.patch("/api/categories/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertCategorySchema.partial().omit({ userId: true, organizationId: true, isDefault: true }).parse(req.body);
+      const category = await storage.updateCategory(req.params.id, req.organizationId, data);
+      
+      if (!category) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating category:", error);
+      res.status(500).json({ error: "Erro ao atualizar categoria" });
+    }
+  });
+  
+  app.delete("/api/categories/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteCategory(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Categoria não encontrada ou não pode ser excluída" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Erro ao excluir categoria" });
+    }
+  });
+  
+  // ============= BUDGETS =============
+  app.get("/api/budgets", hybridAuth, async (req: any, res) => {
+    try {
+      const budgets = await storage.getBudgets(req.organizationId);
+      res.json(budgets);
+    } catch (error) {
+      console.error("Error fetching budgets:", error);
+      res.status(500).json({ error: "Erro ao buscar orçamentos" });
+    }
+  });
+  
+  app.post("/api/budgets", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertBudgetSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      const category = await storage.getCategory(data.categoryId, req.organizationId);
+      if (!category) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      
+      const existing = (await storage.getBudgets(req.organizationId)).find(b => b.categoryId === data.categoryId);
+      if (existing) {
+        return res.status(409).json({ error: "Esta categoria já possui um orçamento" });
+      }
+      
+      const budget = await storage.createBudget(data);
+      res.status(201).json(budget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating budget:", error);
+      res.status(500).json({ error: "Erro ao criar orçamento" });
+    }
+  });
+  
+  app.patch("/api/budgets/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertBudgetSchema.partial().omit({ userId: true, organizationId: true, categoryId: true }).parse(req.body);
+      const budget = await storage.updateBudget(req.params.id, req.organizationId, data);
+      
+      if (!budget) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      
+      res.json(budget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating budget:", error);
+      res.status(500).json({ error: "Erro ao atualizar orçamento" });
+    }
+  });
+  
+  app.delete("/api/budgets/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteBudget(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting budget:", error);
+      res.status(500).json({ error: "Erro ao excluir orçamento" });
+    }
+  });
+  
+  // ============= CATEGORY RULES =============
+  app.get("/api/category-rules", hybridAuth, async (req: any, res) => {
+    try {
+      const rules = await storage.getCategoryRules(req.organizationId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching category rules:", error);
+      res.status(500).json({ error: "Erro ao buscar regras de categorização" });
+    }
+  });
+  
+  app.post("/api/category-rules", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertCategoryRuleSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      const category = await storage.getCategory(data.categoryId, req.organizationId);
+      if (!category) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      
+      const rule = await storage.createCategoryRule(data);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating category rule:", error);
+      res.status(500).json({ error: "Erro ao criar regra de categorização" });
+    }
+  });
+  
+  app.patch("/api/category-rules/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const data = updateCategoryRuleSchema.parse(req.body);
+      
+      if (data.categoryId) {
+        const category = await storage.getCategory(data.categoryId, req.organizationId);
+        if (!category) {
+          return res.status(404).json({ error: "Categoria não encontrada" });
+        }
+      }
+      
+      const rule = await storage.updateCategoryRule(req.params.id, req.organizationId, data);
+      
+      if (!rule) {
+        return res.status(404).json({ error: "Regra não encontrada" });
+      }
+      
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating category rule:", error);
+      res.status(500).json({ error: "Erro ao atualizar regra de categorização" });
+    }
+  });
+  
+  app.delete("/api/category-rules/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteCategoryRule(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Regra não encontrada" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting category rule:", error);
+      res.status(500).json({ error: "Erro ao excluir regra de categorização" });
+    }
+  });
+  
+  // Suggests a category for a title being typed: ?title=&amount=&type=
+  app.get("/api/category-suggestions", hybridAuth, async (req: any, res) => {
+    try {
+      const query = categorySuggestionQuerySchema.parse(req.query);
+      const suggestion = await storage.suggestCategory(req.organizationId, query);
+      res.json(suggestion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error suggesting category:", error);
+      res.status(500).json({ error: "Erro ao sugerir categoria" });
+    }
+  });
+  
+  // ============= ACCOUNTS =============
+  app.get("/api/accounts", hybridAuth, async (req: any, res) => {
+    try {
+      const accounts = await storage.getFinancialAccounts(req.organizationId);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ error: "Erro ao buscar contas" });
+    }
+  });
+  
+  app.post("/api/accounts", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertFinancialAccountSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      const account = await storage.createFinancialAccount(data);
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating account:", error);
+      res.status(500).json({ error: "Erro ao criar conta" });
+    }
+  });
+  
+  app.patch("/api/accounts/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const data = updateFinancialAccountSchema.parse(req.body);
+      const account = await storage.updateFinancialAccount(req.params.id, req.organizationId, data);
+      
+      if (!account) {
+        return res.status(404).json({ error: "Conta não encontrada" });
+      }
+      
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating account:", error);
+      res.status(500).json({ error: "Erro ao atualizar conta" });
+    }
+  });
+  
+  app.delete("/api/accounts/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteFinancialAccount(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Conta não encontrada ou possui transações. Arquive-a em vez de excluir." });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ error: "Erro ao excluir conta" });
+    }
+  });
+  
+  // Creates both legs of a transfer: an expense on the source account and an
+  // income on the destination, linked by transferId
+  app.post("/api/transfers", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertTransferSchema.parse(req.body);
+      const legs = await storage.createTransfer(req.organizationId, req.userId, data);
+      
+      if (!legs) {
+        return res.status(404).json({ error: "Conta não encontrada" });
+      }
+      
+      res.status(201).json(legs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating transfer:", error);
+      res.status(500).json({ error: "Erro ao criar transferência" });
+    }
+  });
+  
+  // ============= INSTALLMENT PURCHASES =============
+  app.get("/api/installment-purchases", hybridAuth, async (req: any, res) => {
+    try {
+      const purchases = await storage.getInstallmentPurchases(req.organizationId);
+      res.json(purchases);
+    } catch (error) {
+      console.error("Error fetching installment purchases:", error);
+      res.status(500).json({ error: "Erro ao buscar compras parceladas" });
+    }
+  });
+  
+  app.post("/api/installment-purchases", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertInstallmentPurchaseSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      const account = await storage.getFinancialAccount(data.accountId, req.organizationId);
+      if (!account) {
+        return res.status(404).json({ error: "Conta não encontrada" });
+      }
+      if (!hasStatementCycle(account)) {
+        return res.status(400).json({ error: "Compras parceladas exigem um cartão com dias de fechamento e vencimento" });
+      }
+      
+      const result = await storage.createInstallmentPurchase(data);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating installment purchase:", error);
+      res.status(500).json({ error: "Erro ao criar compra parcelada" });
+    }
+  });
+  
+  app.delete("/api/installment-purchases/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteInstallmentPurchase(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Compra parcelada não encontrada" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting installment purchase:", error);
+      res.status(500).json({ error: "Erro ao excluir compra parcelada" });
+    }
+  });
+  
+  // ============= TRANSACTIONS =============
+  app.get("/api/transactions", hybridAuth, async (req: any, res) => {
+    try {
+      const query = transactionListQuerySchema.parse(req.query);
+      const page = await storage.getTransactionPage(req.organizationId, query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ error: "Erro ao buscar transações" });
+    }
+  });
+  
+  app.get("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const transaction = await storage.getTransaction(req.params.id, req.organizationId);
+      
+      if (!transaction) {
+        return res.status(404).json({ error: "Transação não encontrada" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error fetching transaction:", error);
+      res.status(500).json({ error: "Erro ao buscar transação" });
+    }
+  });
+  
+  app.post("/api/transactions", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertTransactionSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      if (!(await isOwnAccount(req.organizationId, data.accountId))) {
+        return res.status(400).json({ error: "Conta inválida" });
+      }
+      
+      // Recurring transactions become the first occurrence of a new series
+      const transaction = data.recurrenceType && data.recurrenceType !== "none"
+        ? await storage.createRecurringTransaction(data, recurrenceLimitsSchema.parse(req.body))
+        : await storage.createTransaction(data);
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating transaction:", error);
+      res.status(500).json({ error: "Erro ao criar transação" });
+    }
+  });
+  
+  // One patch for many rows (e.g. marking the month's bills paid), applied in
+  // a single database transaction
+  app.post("/api/transactions/bulk", hybridAuth, async (req: any, res) => {
+    try {
+      const patch = bulkTransactionSchema.parse(req.body);
+      
+      if (patch.categoryId && !(await storage.getCategory(patch.categoryId, req.organizationId))) {
+        return res.status(400).json({ error: "Categoria inválida" });
+      }
+      
+      const result = await storage.bulkUpdateTransactions(req.organizationId, patch);
+      
+      if (!result) {
+        return res.status(404).json({ error: "Uma ou mais transações não foram encontradas" });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error applying bulk transaction changes:", error);
+      res.status(500).json({ error: "Erro ao alterar transações em lote" });
+    }
+  });
+  
+  app.patch("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertTransactionSchema.partial().omit({ 
+        userId: true,
+        organizationId: true,
+        isRecurring: true,
+      }).parse(req.body);
+      const limits = recurrenceLimitsSchema.parse(req.body);
+      
+      if (!(await isOwnAccount(req.organizationId, data.accountId))) {
+        return res.status(400).json({ error: "Conta inválida" });
+      }
+      // For occurrences of a series: "this" (default), "following" or "all"
+      const scope = recurrenceScopeSchema.parse(req.body.scope);
+      
+      const transaction = await storage.updateRecurringTransaction(req.params.id, req.organizationId, data, scope, limits);
+      
+      if (!transaction) {
+        return res.status(404).json({ error: "Transação não encontrada" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating transaction:", error);
+      res.status(500).json({ error: "Erro ao atualizar transação" });
+    }
+  });
+  
+  app.delete("/api/transactions/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const scope = recurrenceScopeSchema.parse(req.query.scope);
+      const success = await storage.deleteRecurringTransaction(req.params.id, req.organizationId, scope);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Transação não encontrada" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error deleting transaction:", error);
+      res.status(500).json({ error: "Erro ao excluir transação" });
+    }
+  });
+  
+  // ============= IMPORTS =============
+  app.get("/api/imports/mappings", hybridAuth, async (req: any, res) => {
+    try {
+      const mappings = await storage.getImportMappings(req.organizationId);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ error: "Erro ao buscar mapeamentos de importação" });
+    }
+  });
+  
+  app.post("/api/imports/mappings", hybridAuth, async (req: any, res) => {
+    try {
+      const data = insertImportMappingSchema.parse({
+        ...req.body,
+        userId: req.userId,
+        organizationId: req.organizationId,
+      });
+      
+      const mapping = await storage.createImportMapping(data);
+      res.status(201).json(mapping);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error creating import mapping:", error);
+      res.status(500).json({ error: "Erro ao salvar mapeamento" });
+    }
+  });
+  
+  app.delete("/api/imports/mappings/:id", hybridAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteImportMapping(req.params.id, req.organizationId);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Mapeamento não encontrado" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ error: "Erro ao excluir mapeamento" });
+    }
+  });
+  
+  // Parses the uploaded statement and flags rows that already exist, without saving anything
+  app.post("/api/imports/preview", hybridAuth, async (req: any, res) => {
+    try {
+      const data = importPreviewSchema.parse(req.body);
+      
+      if (data.format === "csv" && !data.mapping) {
+        return res.status(400).json({ error: "Informe o mapeamento de colunas do CSV" });
+      }
+      
+      const parsed = data.format === "ofx"
+        ? parseOfxStatement(data.content)
+        : parseCsvStatement(data.content, data.mapping!);
+      
+      const duplicates = await storage.findDuplicateTransactions(req.organizationId, parsed.rows);
+      
+      const preview: ImportPreview = {
+        rows: parsed.rows.map(row => ({
+          ...row,
+          duplicateOfId: duplicates.get(row.index) ?? null,
+        })),
+        headers: parsed.headers,
+        skippedLines: parsed.skippedLines,
+      };
+      
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error previewing import:", error);
+      res.status(500).json({ error: "Erro ao ler o extrato" });
+    }
+  });
+  
+  app.post("/api/imports/commit", hybridAuth, async (req: any, res) => {
+    try {
+      const data = importCommitSchema.parse(req.body);
+      
+      if (!(await isOwnAccount(req.organizationId, data.accountId))) {
+        return res.status(400).json({ error: "Conta inválida" });
+      }
+      
+      const userCategories = await storage.getCategories(req.organizationId);
+      const categoryIds = new Set(userCategories.map(c => c.id));
+      
+      const rows = data.rows.map(row => insertTransactionSchema.parse({
+        userId: req.userId,
+        organizationId: req.organizationId,
+        accountId: data.accountId,
+        categoryId: row.categoryId && categoryIds.has(row.categoryId) ? row.categoryId : null,
+        title: row.title,
+        amount: row.amount,
+        type: row.type,
+        // Noon keeps the calendar day stable across timezones
+        date: `${row.date}T12:00:00`,
+        status: row.status,
+      }));
+      
+      const created = await storage.createTransactions(rows);
+      res.status(201).json({
+        success: true,
+        createdCount: created.length,
+        message: `${created.length} transação(ões) importada(s)`,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error committing import:", error);
+      res.status(500).json({ error: "Erro ao importar transações" });
+    }
+  });
+  
+  // ============= RECURRENCE =============
+  app.get("/api/transactions/recurring", hybridAuth, async (req: any, res) => {
+    try {
+      const recurringTransactions = await storage.getRecurringTransactions(req.organizationId);
+      res.json(recurringTransactions);
+    } catch (error) {
+      console.error("Error fetching recurring transactions:", error);
+      res.status(500).json({ error: "Erro ao buscar transações recorrentes" });
+    }
+  });
+  
+  app.get("/api/recurring-series", hybridAuth, async (req: any, res) => {
+    try {
+      const series = await storage.getRecurringSeries(req.organizationId);
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching recurring series:", error);
+      res.status(500).json({ error: "Erro ao buscar séries recorrentes" });
+    }
+  });
+  
+  // ============= MONTHLY FINANCIALS =============
+  app.get("/api/monthly-financials/:year/:month", hybridAuth, async (req: any, res) => {
+    try {
+      const period = parsePeriodParams(req.params);
+      
+      if (!period) {
+        return res.status(400).json({ error: "Período inválido" });
+      }
+      
+      const summary = await storage.getMonthlyFinancialSummary(req.organizationId, period.year, period.month);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching monthly financials:", error);
+      res.status(500).json({ error: "Erro ao buscar dados financeiros do mês" });
+    }
+  });
+  
+  app.put("/api/monthly-financials/:year/:month", hybridAuth, async (req: any, res) => {
+    try {
+      const period = parsePeriodParams(req.params);
+      
+      if (!period) {
+        return res.status(400).json({ error: "Período inválido" });
+      }
+      
+      const data = updateMonthlyFinancialSchema.parse(req.body);
+      await storage.upsertMonthlyFinancial(req.organizationId, req.userId, period.year, period.month, data);
+      
+      const summary = await storage.getMonthlyFinancialSummary(req.organizationId, period.year, period.month);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating monthly financials:", error);
+      res.status(500).json({ error: "Erro ao atualizar dados financeiros do mês" });
+    }
+  });
+  
+  // ============= REPORTS =============
+  app.get("/api/reports/monthly", hybridAuth, async (req: any, res) => {
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      // ?basis=due groups card spending by statement due date
+      const basis = reportDateBasisSchema.parse(req.query.basis);
+      
+      const report = await storage.getMonthlyReport(req.organizationId, year, month, basis);
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating monthly report:", error);
+      res.status(500).json({ error: "Erro ao gerar relatório" });
+    }
+  });
+  
+  app.get("/api/reports/weekly", hybridAuth, async (req: any, res) => {
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      const weeklyData = await storage.getWeeklyData(req.organizationId, year, month);
+      res.json(weeklyData);
+    } catch (error) {
+      console.error("Error generating weekly report:", error);
+      res.status(500).json({ error: "Erro ao gerar relatório semanal" });
+    }
+  });
+  
+  app.get("/api/reports/advanced", hybridAuth, async (req: any, res) => {
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      const basis = reportDateBasisSchema.parse(req.query.basis);
+      
+      const advancedReport = await storage.getAdvancedReport(req.organizationId, year, month, basis);
+      res.json(advancedReport);
+    } catch (error) {
+      console.error("Error generating advanced report:", error);
+      res.status(500).json({ error: "Erro ao gerar relatório avançado" });
+    }
+  });
+  
+  // Income and expenses of the last ?months=N (default 6) months up to year/month
+  app.get("/api/reports/series", hybridAuth, async (req: any, res) => {
+    try {
+      const query = reportSeriesQuerySchema.parse(req.query);
+      const year = query.year ?? new Date().getFullYear();
+      const month = query.month ?? new Date().getMonth() + 1;
+      
+      const series = await storage.getMonthlySeries(req.organizationId, year, month, query.months, query.basis);
+      res.json(series);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error generating report series:", error);
+      res.status(500).json({ error: "Erro ao gerar série de relatórios" });
+    }
+  });
+  
+  // ?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=month|quarter|year
+  app.get("/api/reports/range", hybridAuth, async (req: any, res) => {
+    try {
+      const query = reportRangeQuerySchema.parse(req.query);
+      const report = await storage.getRangeReport(req.organizationId, query);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error generating range report:", error);
+      res.status(500).json({ error: "Erro ao gerar relatório do período" });
+    }
+  });
+  
+  // Projected balance per day for the next ?months=3..12 months
+  app.get("/api/reports/forecast", hybridAuth, async (req: any, res) => {
+    try {
+      const { months } = forecastQuerySchema.parse(req.query);
+      const forecast = await storage.getCashFlowForecast(req.organizationId, months);
+      res.json(forecast);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error generating cash flow forecast:", error);
+      res.status(500).json({ error: "Erro ao gerar previsão de fluxo de caixa" });
+    }
+  });
+
+  // ============= EXPORTS =============
+  // ?format=csv|xlsx|pdf (defaults to csv)
+  app.get("/api/exports/transactions", hybridAuth, async (req: any, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Formato de exportação inválido" });
+      }
+      
+      // Same filters and search as the list, without paging
+      const filters = transactionListQuerySchema.parse(req.query);
+      const [transactions, categories] = await Promise.all([
+        storage.getTransactions(req.organizationId, filters),
+        storage.getCategories(req.organizationId),
+      ]);
+      
+      const document = buildTransactionsDocument(transactions, categories, filters);
+      sendExportFile(res, await renderExport(document, format));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error exporting transactions:", error);
+      res.status(500).json({ error: "Erro ao exportar transações" });
+    }
+  });
+  
+  app.get("/api/exports/reports/monthly", hybridAuth, async (req: any, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Formato de exportação inválido" });
+      }
+      
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      const basis = reportDateBasisSchema.parse(req.query.basis);
+      
+      const report = await storage.getMonthlyReport(req.organizationId, year, month, basis);
+      const document = buildMonthlyReportDocument(report, year, month);
+      sendExportFile(res, await renderExport(document, format));
+    } catch (error) {
+      console.error("Error exporting monthly report:", error);
+      res.status(500).json({ error: "Erro ao exportar relatório" });
+    }
+  });
+  
+  app.get("/api/exports/reports/advanced", hybridAuth, async (req: any, res) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Formato de exportação inválido" });
+      }
+      
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
+      
+      const basis = reportDateBasisSchema.parse(req.query.basis);
+      
+      const report = await storage.getAdvancedReport(req.organizationId, year, month, basis);
+      const document = buildAdvancedReportDocument(report, year, month);
+      sendExportFile(res, await renderExport(document, format));
+    } catch (error) {
+      console.error("Error exporting advanced report:", error);
+      res.status(500).json({ error: "Erro ao exportar relatório avançado" });
+    }
+  });
+  
+  // ============= TRASH =============
+  app.get("/api/trash", hybridAuth, async (req: any, res) => {
+    try {
+      const trash = await storage.getTrash(req.organizationId);
+      res.json(trash);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ error: "Erro ao buscar lixeira" });
+    }
+  });
+  
+  app.post("/api/trash/transactions/:id/restore", hybridAuth, async (req: any, res) => {
+    try {
+      const transaction = await storage.restoreTransaction(req.params.id, req.organizationId);
+      
+      if (!transaction) {
+        return res.status(404).json({ error: "Transação não encontrada na lixeira" });
+      }
+      
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error restoring transaction:", error);
+      res.status(500).json({ error: "Erro ao restaurar transação" });
+    }
+  });
+  
+  app.post("/api/trash/categories/:id/restore", hybridAuth, async (req: any, res) => {
+    try {
+      const category = await storage.restoreCategory(req.params.id, req.organizationId);
+      
+      if (!category) {
+        return res.status(404).json({ error: "Categoria não encontrada na lixeira" });
+      }
+      
+      res.json(category);
+    } catch (error) {
+      console.error("Error restoring category:", error);
+      res.status(500).json({ error: "Erro ao restaurar categoria" });
+    }
+  });
+  
+  // ============= AUDIT =============
+  // Snapshots carry settings, emails and IPs, so only admins read the log
+  app.get("/api/audit", hybridAuth, requireRole("admin"), async (req: any, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const logs = await storage.getAuditLogs(req.organizationId, query);
+      res.json(logs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ error: "Erro ao buscar histórico" });
+    }
+  });
+  
+  // ============= NOTIFICATIONS =============
+  // Reminders of the active workspace are brought up to date on every check,
+  // so new bills show up without waiting for the daily job
+  app.get("/api/notifications", hybridAuth, async (req: any, res) => {
+    try {
+      await storage.syncBillNotifications(req.organizationId);
+      const notifications = await storage.getNotifications(req.userId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Erro ao buscar notificações" });
+    }
+  });
+  
+  app.get("/api/notifications/preferences", userAuth, async (req: any, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.userId);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Erro ao buscar preferências de notificação" });
+    }
+  });
+  
+  app.put("/api/notifications/preferences", userAuth, async (req: any, res) => {
+    try {
+      const data = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(req.userId, data);
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Dados inválidos", details: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ error: "Erro ao atualizar preferências de notificação" });
+    }
+  });
+  
+  app.post("/api/notifications/read-all", userAuth, async (req: any, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ error: "Erro ao marcar notificações como lidas" });
+    }
+  });
+  
+  app.post("/api/notifications/:id/read", userAuth, async (req: any, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.userId);
+      
+      if (!notification) {
+        return res.status(404).json({ error: "Notificação não encontrada" });
+      }
+      
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ error: "Erro ao marcar notificação como lida" });
+    }
+  });
+  
+  // ============= ADMIN =============
+  app.get("/api/admin/job-runs", userAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await storage.getJobRuns(req.query.job as string | undefined, limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ error: "Erro ao buscar execuções" });
+    }
+  });
+  
+  // Runs the recurrence job now instead of waiting for the daily schedule
+  app.post("/api/admin/job-runs/recurrence", userAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const run = await runRecurrenceJob();
+      if (!run) {
+        return res.status(409).json({ error: `Job "${RECURRENCE_JOB}" já está em execução` });
+      }
+      
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Error running recurrence job:", error);
+      res.status(500).json({ error: "Erro ao executar job de recorrência" });
+    }
+  });
+  
+  // Creates reminders and sends the email digests now
+  app.post("/api/admin/job-runs/notification-digest", userAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const run = await runNotificationDigestJob();
+      if (!run) {
+        return res.status(409).json({ error: `Job "${NOTIFICATION_DIGEST_JOB}" já está em execução` });
+      }
+      
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Error running notification digest job:", error);
+      res.status(500).json({ error: "Erro ao executar job de notificações" });
     }
   });
 
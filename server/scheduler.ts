@@ -0,0 +1,194 @@
+// In-process scheduler for background jobs. Every run is recorded in job_runs,
+// which also keeps a restarted server, or a second one, from running the same
+// job twice a day.
+import { storage, type DigestNotification } from "./storage";
+import { runWithAuditContext } from "./auditContext";
+import { sendMail } from "./mail";
+import { buildDigestEmail } from "./notifications";
+import { log } from "./vite";
+import type { JobRun, JobRunError } from "@shared/schema";
+
+export const RECURRENCE_JOB = "recurrence";
+export const TRASH_PURGE_JOB = "trash-purge";
+export const NOTIFICATION_DIGEST_JOB = "notification-digest";
+
+// Occurrences are generated through the end of next month, so upcoming bills
+// already show up in the weekly view for users who have not opened the app
+const RECURRENCE_HORIZON_MONTHS = 1;
+
+// Login attempts only matter for throttling (minutes) and the history users
+// review on settings
+const LOGIN_ATTEMPT_RETENTION_DAYS = 90;
+
+// Due checks are cheap; the job itself only runs once per day
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let running = false;
+let purging = false;
+let notifying = false;
+
+function recurrenceTargetDate(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth() + RECURRENCE_HORIZON_MONTHS + 1, 0, 23, 59, 59);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Runs started by hand always go ahead. Scheduled ones are due when no run has
+// started today, whatever its outcome; failed organizations are retried on the
+// next day's run.
+function startRun(jobName: string, now: Date, scheduled: boolean): Promise<JobRun | undefined> {
+  if (!scheduled) return storage.startJobRun(jobName);
+  return storage.startJobRunIfDue(jobName, new Date(now.getFullYear(), now.getMonth(), now.getDate()));
+}
+
+// Generates recurring occurrences for every organization. A failing one is
+// recorded and skipped so the others are still processed.
+export async function runRecurrenceJob(now: Date = new Date(), scheduled = false): Promise<JobRun | undefined> {
+  if (running) return undefined;
+  running = true;
+
+  try {
+    const run = await startRun(RECURRENCE_JOB, now, scheduled);
+    if (!run) return undefined;
+    const errors: JobRunError[] = [];
+    let organizationsProcessed = 0;
+    let rowsCreated = 0;
+
+    try {
+      const targetDate = recurrenceTargetDate(now);
+      const organizationIds = await storage.getAllOrganizationIds();
+
+      for (const organizationId of organizationIds) {
+        try {
+          rowsCreated += await runWithAuditContext(
+            { route: `job:${RECURRENCE_JOB}` },
+            () => storage.processRecurringTransactions(organizationId, targetDate),
+          );
+          organizationsProcessed++;
+        } catch (error) {
+          console.error(`Error processing recurrence for organization ${organizationId}:`, error);
+          errors.push({ organizationId, message: errorMessage(error) });
+        }
+      }
+    } catch (error) {
+      console.error("Error running recurrence job:", error);
+      errors.push({ organizationId: null, message: errorMessage(error) });
+    }
+
+    const finished = await storage.finishJobRun(run.id, { organizationsProcessed, rowsCreated, errors });
+    log(`recurrence job: ${rowsCreated} row(s) created for ${organizationsProcessed} organization(s), ${errors.length} error(s)`, "scheduler");
+    return finished;
+  } finally {
+    running = false;
+  }
+}
+
+// Permanently removes trashed transactions and categories past the retention
+// period, along with old login attempts
+export async function runTrashPurgeJob(now: Date = new Date(), scheduled = false): Promise<JobRun | undefined> {
+  if (purging) return undefined;
+  purging = true;
+
+  try {
+    const run = await startRun(TRASH_PURGE_JOB, now, scheduled);
+    if (!run) return undefined;
+    const errors: JobRunError[] = [];
+    let rowsDeleted = 0;
+
+    try {
+      rowsDeleted = await runWithAuditContext(
+        { route: `job:${TRASH_PURGE_JOB}` },
+        () => storage.purgeExpiredTrash(now),
+      );
+      rowsDeleted += await storage.purgeLoginAttempts(
+        new Date(now.getTime() - LOGIN_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+      );
+    } catch (error) {
+      console.error("Error running trash purge job:", error);
+      errors.push({ organizationId: null, message: errorMessage(error) });
+    }
+
+    const finished = await storage.finishJobRun(run.id, { rowsDeleted, errors });
+    log(`trash purge job: ${rowsDeleted} row(s) deleted, ${errors.length} error(s)`, "scheduler");
+    return finished;
+  } finally {
+    purging = false;
+  }
+}
+
+// Creates the day's bill reminders for every organization, then emails each
+// user one digest of the reminders they have not been emailed yet
+export async function runNotificationDigestJob(now: Date = new Date(), scheduled = false): Promise<JobRun | undefined> {
+  if (notifying) return undefined;
+  notifying = true;
+
+  try {
+    const run = await startRun(NOTIFICATION_DIGEST_JOB, now, scheduled);
+    if (!run) return undefined;
+    const errors: JobRunError[] = [];
+    let organizationsProcessed = 0;
+    let rowsCreated = 0;
+    let emailsSent = 0;
+
+    try {
+      const organizationIds = await storage.getAllOrganizationIds();
+      for (const organizationId of organizationIds) {
+        try {
+          rowsCreated += await storage.syncBillNotifications(organizationId, now);
+          organizationsProcessed++;
+        } catch (error) {
+          console.error(`Error creating notifications for organization ${organizationId}:`, error);
+          errors.push({ organizationId, message: errorMessage(error) });
+        }
+      }
+
+      const byUser = new Map<string, DigestNotification[]>();
+      for (const notification of await storage.getDigestNotifications()) {
+        const items = byUser.get(notification.userId) ?? [];
+        items.push(notification);
+        byUser.set(notification.userId, items);
+      }
+
+      // A failed delivery is left unmarked and retried with the next digest
+      for (const [userId, items] of Array.from(byUser.entries())) {
+        try {
+          await sendMail(buildDigestEmail(items));
+          await storage.markNotificationsEmailed(items.map(item => item.id));
+          emailsSent++;
+        } catch (error) {
+          console.error(`Error emailing notification digest to user ${userId}:`, error);
+          errors.push({ organizationId: null, message: `${userId}: ${errorMessage(error)}` });
+        }
+      }
+    } catch (error) {
+      console.error("Error running notification digest job:", error);
+      errors.push({ organizationId: null, message: errorMessage(error) });
+    }
+
+    const finished = await storage.finishJobRun(run.id, { organizationsProcessed, rowsCreated, errors });
+    log(`notification digest job: ${rowsCreated} notification(s) created, ${emailsSent} email(s) sent, ${errors.length} error(s)`, "scheduler");
+    return finished;
+  } finally {
+    notifying = false;
+  }
+}
+
+async function tick() {
+  try {
+    const now = new Date();
+    await runRecurrenceJob(now, true);
+    await runTrashPurgeJob(now, true);
+    await runNotificationDigestJob(now, true);
+  } catch (error) {
+    console.error("Error in scheduler:", error);
+  }
+}
+
+export function startScheduler() {
+  void tick();
+  const timer = setInterval(tick, CHECK_INTERVAL_MS);
+  // The scheduler alone should not keep the process alive
+  timer.unref();
+}
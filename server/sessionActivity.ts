@@ -0,0 +1,54 @@
+// Device details kept in each signed-in session so users can review and
+// revoke their sessions (see /api/auth/sessions).
+import { createHash } from "crypto";
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import type { Session, UserSession } from "@shared/schema";
+
+// Saving the session on every request would rewrite its row each time
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+function isSignedIn(req: any): boolean {
+  return !!(req.session?.userId || req.user?.claims?.sub);
+}
+
+export const sessionActivityMiddleware: RequestHandler = (req: any, _res, next) => {
+  if (!isSignedIn(req)) return next();
+
+  const session = req.session;
+  const now = Date.now();
+  if (!session.createdAt) {
+    // Sessions that predate this tracking or came from Replit Auth
+    session.createdAt = now;
+  }
+  if (!session.lastSeenAt || now - session.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+    session.lastSeenAt = now;
+    session.userAgent = req.get("user-agent") ?? undefined;
+    session.ipAddress = req.ip;
+  }
+  next();
+};
+
+// Stable public id of a session
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+export function toUserSession(row: Session, currentSid: string): UserSession {
+  const sess = row.sess as { createdAt?: number; lastSeenAt?: number; userAgent?: string; ipAddress?: string };
+  return {
+    id: publicSessionId(row.sid),
+    current: row.sid === currentSid,
+    createdAt: sess.createdAt ? new Date(sess.createdAt) : null,
+    lastSeenAt: sess.lastSeenAt ? new Date(sess.lastSeenAt) : null,
+    expiresAt: row.expire,
+    userAgent: sess.userAgent ?? null,
+    ipAddress: sess.ipAddress ?? null,
+  };
+}
+
+// Signs the user out everywhere except keepSid (usually the current session)
+export async function revokeUserSessions(userId: string, keepSid?: string): Promise<number> {
+  const userSessions = await storage.getUserSessions(userId);
+  return storage.deleteSessions(userSessions.map(row => row.sid).filter(sid => sid !== keepSid));
+}
@@ -0,0 +1,171 @@
+// Parsers for bank statement files (OFX and CSV exports) used by the /api/imports routes
+import type { CsvMapping, ParsedStatementRow } from "@shared/schema";
+
+// Raised when a file cannot be read at all (as opposed to individual bad lines, which are skipped)
+export class StatementParseError extends Error {}
+
+export interface ParsedStatement {
+  rows: Omit<ParsedStatementRow, "duplicateOfId">[];
+  headers: string[];
+  skippedLines: number;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+function parseDate(value: string, format: CsvMapping["dateFormat"]): string | null {
+  const parts = value.trim().split(/[\/\-.]/).map(p => parseInt(p, 10));
+  if (parts.length < 3 || parts.some(isNaN)) return null;
+
+  switch (format) {
+    case "yyyy-MM-dd":
+      return toIsoDate(parts[0], parts[1], parts[2]);
+    case "MM/dd/yyyy":
+      return toIsoDate(parts[2], parts[0], parts[1]);
+    case "dd/MM/yyyy":
+    default:
+      return toIsoDate(parts[2], parts[1], parts[0]);
+  }
+}
+
+// Accepts "1.234,56", "-1234.56", "R$ 1.234,56" and "(12,00)" style negatives
+function parseAmount(value: string, decimalSeparator: "," | "."): number | null {
+  let cleaned = value.trim().replace(/[R$\s]/g, "");
+  let negative = false;
+
+  if (cleaned.startsWith("(") && cleaned.endsWith(")")) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.startsWith("-")) {
+    negative = !negative;
+    cleaned = cleaned.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+  cleaned = cleaned.split(thousandsSeparator).join("").replace(decimalSeparator, ".");
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  const parsed = parseFloat(cleaned);
+  return negative ? -parsed : parsed;
+}
+
+// Splits one CSV line honoring double-quoted fields and escaped quotes
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+export function parseCsvStatement(content: string, mapping: CsvMapping): ParsedStatement {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new StatementParseError("Arquivo CSV vazio");
+  }
+
+  const headers = mapping.hasHeader ? splitCsvLine(lines[0], mapping.delimiter) : [];
+  const dataLines = mapping.hasHeader ? lines.slice(1) : lines;
+  const rows: ParsedStatement["rows"] = [];
+  let skippedLines = 0;
+
+  dataLines.forEach((line) => {
+    const fields = splitCsvLine(line, mapping.delimiter);
+    const date = parseDate(fields[mapping.dateColumn] ?? "", mapping.dateFormat);
+    const amount = parseAmount(fields[mapping.amountColumn] ?? "", mapping.decimalSeparator);
+    const title = (fields[mapping.titleColumn] ?? "").trim();
+
+    if (!date || amount === null || amount === 0 || !title) {
+      skippedLines++;
+      return;
+    }
+
+    const isExpense = mapping.amountSign === "negative_is_expense" ? amount < 0 : amount > 0;
+
+    rows.push({
+      index: rows.length,
+      date,
+      title,
+      amount: Math.abs(amount),
+      type: isExpense ? "expense" : "income",
+    });
+  });
+
+  return { rows, headers, skippedLines };
+}
+
+function readOfxTag(block: string, tag: string): string | null {
+  // OFX 1.x (SGML) often omits closing tags, so read up to the next tag or line break
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : null;
+}
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+  if (!blocks || blocks.length === 0) {
+    throw new StatementParseError("Nenhuma transação encontrada no arquivo OFX");
+  }
+
+  const rows: ParsedStatement["rows"] = [];
+  let skippedLines = 0;
+
+  for (const block of blocks) {
+    const posted = readOfxTag(block, "DTPOSTED");
+    const rawAmount = readOfxTag(block, "TRNAMT");
+    const title = readOfxTag(block, "MEMO") || readOfxTag(block, "NAME");
+
+    const date = posted && posted.length >= 8
+      ? toIsoDate(parseInt(posted.slice(0, 4)), parseInt(posted.slice(4, 6)), parseInt(posted.slice(6, 8)))
+      : null;
+    const amount = rawAmount ? parseAmount(rawAmount, rawAmount.includes(",") ? "," : ".") : null;
+
+    if (!date || amount === null || amount === 0 || !title) {
+      skippedLines++;
+      continue;
+    }
+
+    rows.push({
+      index: rows.length,
+      date,
+      title,
+      amount: Math.abs(amount),
+      type: amount < 0 ? "expense" : "income",
+    });
+  }
+
+  return { rows, headers: [], skippedLines };
+}
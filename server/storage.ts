@@ -2,18 +2,219 @@ import {
   type User, 
   type InsertUser,
   type UpsertUser,
+  type Session,
+  type AuthTokenPurpose,
+  type LoginAttempt,
+  type LoginAttemptResult,
+  type InsertLoginAttempt,
+  type ApiToken,
+  type ApiTokenSummary,
+  type InsertApiToken,
+  type CreatedApiToken,
   type Category, 
   type InsertCategory,
   type Transaction,
   type InsertTransaction,
-  type UpdateAccountType,
+  type MonthlyFinancial,
+  type UpdateMonthlyFinancial,
+  type MonthlyFinancialSummary,
+  type Budget,
+  type InsertBudget,
+  type BudgetProgress,
+  type ImportMapping,
+  type InsertImportMapping,
+  type CategoryRule,
+  type InsertCategoryRule,
+  type CategorySuggestion,
+  type RecurringSeries,
+  type RecurrenceLimits,
+  type RecurrenceScope,
+  type JobRun,
+  type JobRunError,
+  type FinancialAccount,
+  type FinancialAccountWithBalance,
+  type InsertFinancialAccount,
+  type UpdateFinancialAccount,
+  type InsertTransfer,
+  type InstallmentPurchase,
+  type InsertInstallmentPurchase,
+  type ReportDateBasis,
+  type MonthlySeriesPoint,
+  type RangeReport,
+  type RangeReportPeriod,
+  type RangeCategoryTotal,
+  type ReportRangeQuery,
+  type ReportGroupBy,
+  type CashFlowForecast,
+  REPORT_ROLLING_WINDOW,
+  type Organization,
+  type OrganizationWithRole,
+  type OrganizationMember,
+  type OrganizationMemberWithUser,
+  type OrganizationInvitation,
+  type InvitationSummary,
+  type OrganizationRole,
+  type InsertOrganizationInvitation,
+  type InsertOrganization,
+  type UpdateOrganization,
+  type WorkspaceKind,
+  type ConsolidatedReport,
+  type AuditLogWithUser,
+  type AuditQuery,
+  type AuditEntityType,
+  type AuditAction,
+  type TrashContents,
+  type BulkTransactionPatch,
+  type BulkTransactionResult,
+  type TransactionListQuery,
+  type TransactionPage,
+  type Notification,
+  type NotificationKind,
+  type NotificationList,
+  type NotificationPreferences,
+  type NotificationWithBill,
+  type UpdateNotificationPreferences,
+  DEFAULT_REMINDER_DAYS,
+  MAX_REMINDER_DAYS,
+  hasOrganizationRole,
+  TRASH_RETENTION_DAYS,
   users,
+  sessions,
+  authTokens,
+  recoveryCodes,
+  loginAttempts,
+  apiTokens,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
   categories,
   transactions,
+  monthlyFinancials,
+  budgets,
+  importMappings,
+  categoryRules,
+  recurringSeries,
+  jobRuns,
+  financialAccounts,
+  installmentPurchases,
+  auditLogs,
+  notifications,
+  notificationPreferences,
   defaultCategories,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, gte, lte } from "drizzle-orm";
+import { eq, and, or, asc, desc, sql, gt, gte, lt, lte, ne, inArray, isNotNull, isNull, type SQL } from "drizzle-orm";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { createCategorizer, type Categorizer, type CategorizationCandidate } from "./categorization";
+import { calculateNextRecurrenceDates } from "./recurrence";
+import { statementDueDate, splitInstallments } from "./creditCard";
+import { projectCashFlow, type ForecastMovement } from "./forecast";
+import { getAuditContext } from "./auditContext";
+import { cachedReport, invalidateReports } from "./reportCache";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+// Workspaces whose reports go stale when the open transaction commits
+const pendingReportInvalidations = new WeakMap<DbExecutor, Set<string>>();
+
+type JobRunResult = Partial<Pick<JobRun, "organizationsProcessed" | "rowsCreated" | "rowsDeleted">> & { errors: JobRunError[] };
+
+// Budgets and rules of a trashed category are hidden until it is restored
+const liveCategoryIds = () =>
+  db.select({ id: categories.id }).from(categories).where(isNull(categories.deletedAt));
+
+// Full-text document of a transaction; must match IDX_transactions_search
+const transactionSearchDocument = sql`to_tsvector('portuguese', ${transactions.title} || ' ' || coalesce(${transactions.notes}, ''))`;
+
+// Every word typed has to match, as a prefix so results show up while typing
+function toPrefixTsQuery(search: string): string | null {
+  const words = search.toLowerCase().split(/[^0-9a-zà-öø-ÿ]+/).filter(Boolean);
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+function trashCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// How many recent categorized transactions feed the history-based suggestions
+const CATEGORIZATION_HISTORY_LIMIT = 1000;
+
+const INVITATION_TTL_DAYS = 7;
+
+// A reset link is a password in itself, so it is short-lived
+const AUTH_TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 48 * 60,
+};
+
+function hashAuthToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Recognizable in logs and by secret scanners
+const API_TOKEN_PREFIX = "fin_";
+// Updating lastUsedAt on every call would rewrite the row for each request
+const API_TOKEN_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// The bell only shows the most recent ones; older ones still count as unread
+const NOTIFICATION_LIST_LIMIT = 50;
+
+// Bills stop being announced once they are paid or trashed
+const openBillIds = () =>
+  db
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(sql`${transactions.status} IS DISTINCT FROM 'paid'`, isNull(transactions.deletedAt)));
+
+// Users only see reminders of the workspaces they still belong to
+const memberOrganizationIds = (userId: string) =>
+  db
+    .select({ id: organizationMembers.organizationId })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.userId, userId));
+
+// Wrong passwords and codes; attempts refused while throttled are not counted
+const FAILED_LOGIN_RESULTS: LoginAttemptResult[] = ["invalid_password", "invalid_code"];
+
+export type LoginFailureKey = { email: string } | { ipAddress: string };
+
+export interface LoginFailures {
+  count: number;
+  lastFailureAt: Date | null;
+}
+
+export type DigestNotification = NotificationWithBill & {
+  user: Pick<User, "id" | "email" | "firstName">;
+};
+
+// Row snapshot for the audit log. Organizations are their own scope; every
+// other audited row carries its organizationId.
+type AuditSnapshot = { id: string; organizationId?: string | null };
+
+interface AuditChange {
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+}
+
+// Secrets are left out of snapshots, even though only admins read the log
+const AUDIT_REDACTED_FIELDS = ["token", "tokenHash", "password"];
+
+function toAuditJson(row: AuditSnapshot | null | undefined): Record<string, unknown> | null {
+  if (!row) return null;
+  const json: Record<string, unknown> = { ...row };
+  for (const field of AUDIT_REDACTED_FIELDS) delete json[field];
+  return json;
+}
+
+// Pairs the rows read before a bulk update with the rows it returned
+function pairChanges(before: AuditSnapshot[], after: AuditSnapshot[]): AuditChange[] {
+  const previous = new Map(before.map(row => [row.id, row]));
+  return after.map(row => ({ before: previous.get(row.id), after: row }));
+}
+
+const asCreated = (rows: AuditSnapshot[]): AuditChange[] => rows.map(after => ({ after }));
+const asDeleted = (rows: AuditSnapshot[]): AuditChange[] => rows.map(before => ({ before }));
 
 function safeParseAmount(amount: string | number | null | undefined): number {
   if (amount === null || amount === undefined) return 0;
@@ -21,44 +222,323 @@ function safeParseAmount(amount: string | number | null | undefined): number {
   return isNaN(parsed) ? 0 : parsed;
 }
 
+// Optional decimal columns: empty inputs are stored as NULL
+function optionalAmount(amount: string | number | null | undefined): string | null {
+  return amount === null || amount === undefined || amount === "" ? null : amount.toString();
+}
+
+// Months as a single sortable number so periods can be compared and iterated
+function periodKey(year: number, month: number): number {
+  return year * 12 + (month - 1);
+}
+
+const PERIOD_MONTHS: Record<ReportGroupBy, number> = { month: 1, quarter: 3, year: 12 };
+
+// periodKey of the first month of the month, quarter or year a key falls in
+function periodStart(key: number, groupBy: ReportGroupBy): number {
+  return key - (key % PERIOD_MONTHS[groupBy]);
+}
+
+function periodName(key: number, groupBy: ReportGroupBy): string {
+  const year = Math.floor(key / 12);
+  const month = (key % 12) + 1;
+  if (groupBy === "year") return `${year}`;
+  if (groupBy === "quarter") return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+  return `${year}-${month.toString().padStart(2, "0")}`;
+}
+
+function changePercent(current: number, previous: number): number {
+  return previous > 0 ? ((current - previous) / previous) * 100 : 0;
+}
+
+// Linear extrapolation of the spending so far to the whole month. Closed
+// months are returned as-is and future months have nothing to extrapolate.
+function projectMonthlyTotal(spent: number, year: number, month: number, now: Date = new Date()): number {
+  const targetKey = periodKey(year, month);
+  const currentKey = periodKey(now.getFullYear(), now.getMonth() + 1);
+  if (targetKey !== currentKey) return spent;
+  
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const currentDay = now.getDate();
+  return currentDay > 0 ? (spent / currentDay) * daysInMonth : spent;
+}
+
+// Definition fields shared by a series and its occurrences
+type SeriesFields = Partial<Pick<RecurringSeries, "title" | "amount" | "categoryId" | "accountId" | "notes" | "type">>;
+
+function seriesFieldsFrom(data: Partial<InsertTransaction>): SeriesFields {
+  const fields: SeriesFields = {};
+  if (data.title !== undefined) fields.title = data.title;
+  if (data.amount !== undefined) fields.amount = data.amount.toString();
+  if (data.categoryId !== undefined) fields.categoryId = data.categoryId;
+  if (data.accountId !== undefined) fields.accountId = data.accountId;
+  if (data.notes !== undefined) fields.notes = data.notes;
+  if (data.type !== undefined) fields.type = data.type;
+  return fields;
+}
+
+function scheduleChanged(before: RecurringSeries, after: RecurringSeries): boolean {
+  const time = (date: Date | null) => (date ? new Date(date).getTime() : null);
+  return before.recurrenceType !== after.recurrenceType ||
+    before.recurrenceDay !== after.recurrenceDay ||
+    before.maxOccurrences !== after.maxOccurrences ||
+    time(before.startDate) !== time(after.startDate) ||
+    time(before.endDate) !== time(after.endDate);
+}
+
+// Fields needed to place a row in its credit card statement
+interface StatementRow {
+  accountId?: string | null;
+  date: string | Date;
+  installmentNumber?: number | null;
+}
+
+// Rows created before the income/expense split have no type and count as expenses.
+// Transfers only move money between the user's own accounts and count as neither,
+// so every aggregate query also filters them out.
+const movementKind = sql<"income" | "expense">`CASE WHEN ${transactions.type} = 'income' THEN 'income' ELSE 'expense' END`;
+const isRecurringMovement = sql`(${transactions.seriesId} IS NOT NULL OR COALESCE(${transactions.isRecurring}, false) OR ${transactions.recurrenceType} IS DISTINCT FROM 'none')`;
+
+// Card purchases fall in the month of their statement on the "due" basis
+function reportDateColumn(dateBasis?: ReportDateBasis): SQL {
+  return dateBasis === "due"
+    ? sql`COALESCE(${transactions.statementDueDate}, ${transactions.date})`
+    : sql`${transactions.date}`;
+}
+
+function monthFilters(year: number, month: number, dateBasis?: ReportDateBasis): TransactionFilters {
+  return {
+    startDate: new Date(year, month - 1, 1),
+    endDate: new Date(year, month, 0, 23, 59, 59),
+    dateBasis,
+  };
+}
+
+// One row per type and category of a period, summed by the database.
+// Rows of a trashed category come back uncategorized.
+interface CategoryAggregate {
+  kind: "income" | "expense";
+  categoryId: string | null;
+  categoryName: string | null;
+  categoryColor: string | null;
+  total: number;
+  paid: number;
+  unpaid: number;
+  recurring: number;
+  count: number;
+}
+
+interface PeriodAggregate extends Pick<CategoryAggregate, "kind" | "categoryId" | "categoryName" | "categoryColor" | "total"> {
+  periodKey: number;
+}
+
+interface PeriodTotals {
+  expenses: number;
+  paidExpenses: number;
+  unpaidExpenses: number;
+  recurringExpenses: number;
+  expenseCount: number;
+  income: number;
+  receivedIncome: number;
+  incomeCount: number;
+}
+
+function totalsOf(rows: CategoryAggregate[]): PeriodTotals {
+  const totals: PeriodTotals = {
+    expenses: 0,
+    paidExpenses: 0,
+    unpaidExpenses: 0,
+    recurringExpenses: 0,
+    expenseCount: 0,
+    income: 0,
+    receivedIncome: 0,
+    incomeCount: 0,
+  };
+  for (const row of rows) {
+    if (row.kind === "income") {
+      totals.income += row.total;
+      totals.receivedIncome += row.paid;
+      totals.incomeCount += row.count;
+    } else {
+      totals.expenses += row.total;
+      totals.paidExpenses += row.paid;
+      totals.unpaidExpenses += row.unpaid;
+      totals.recurringExpenses += row.recurring;
+      totals.expenseCount += row.count;
+    }
+  }
+  return totals;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
-  updateAccountType(userId: string, data: UpdateAccountType): Promise<User | undefined>;
+  updateUserPassword(id: string, passwordHash: string): Promise<User | undefined>;
+  markEmailVerified(id: string): Promise<User | undefined>;
+  createAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<string>;
+  consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<string | undefined>;
+  setTotpSecret(userId: string, secret: string): Promise<User | undefined>;
+  enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  deleteSessions(sids: string[]): Promise<number>;
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  getLoginFailures(by: LoginFailureKey, since: Date): Promise<LoginFailures>;
+  getLoginAttempts(userId: string, limit?: number): Promise<LoginAttempt[]>;
+  purgeLoginAttempts(before: Date): Promise<number>;
+  getApiTokens(userId: string): Promise<ApiTokenSummary[]>;
+  createApiToken(userId: string, organizationId: string, data: InsertApiToken): Promise<CreatedApiToken>;
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+  findApiToken(token: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string): Promise<void>;
+  
+  // Organizations
+  getUserOrganizations(userId: string, activeOrganizationId?: string): Promise<OrganizationWithRole[]>;
+  getActiveMembership(userId: string, preferredOrganizationId?: string): Promise<OrganizationMember>;
+  getMembership(organizationId: string, userId: string): Promise<OrganizationMember | undefined>;
+  createOrganization(organization: InsertOrganization, ownerId: string): Promise<Organization>;
+  updateOrganization(id: string, data: UpdateOrganization): Promise<Organization | undefined>;
+  ensureDefaultOrganization(userId: string): Promise<Organization>;
+  getAllOrganizationIds(): Promise<string[]>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]>;
+  getOrganizationMember(id: string, organizationId: string): Promise<OrganizationMember | undefined>;
+  countOwners(organizationId: string): Promise<number>;
+  updateMemberRole(id: string, organizationId: string, role: OrganizationRole): Promise<OrganizationMember | undefined>;
+  removeMember(id: string, organizationId: string): Promise<boolean>;
+  getPendingInvitations(organizationId: string): Promise<InvitationSummary[]>;
+  createInvitation(organizationId: string, invitedBy: string, invitation: InsertOrganizationInvitation): Promise<{ token: string; invitation: OrganizationInvitation }>;
+  getInvitationByToken(token: string): Promise<(OrganizationInvitation & { organization: Organization }) | undefined>;
+  acceptInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember | undefined>;
+  deleteInvitation(id: string, organizationId: string): Promise<boolean>;
+  
+  // Financial accounts
+  getFinancialAccounts(organizationId: string): Promise<FinancialAccountWithBalance[]>;
+  getFinancialAccount(id: string, organizationId: string): Promise<FinancialAccount | undefined>;
+  createFinancialAccount(account: InsertFinancialAccount): Promise<FinancialAccount>;
+  updateFinancialAccount(id: string, organizationId: string, account: UpdateFinancialAccount): Promise<FinancialAccount | undefined>;
+  deleteFinancialAccount(id: string, organizationId: string): Promise<boolean>;
+  ensureDefaultAccount(organizationId: string, userId: string): Promise<FinancialAccount>;
+  createTransfer(organizationId: string, userId: string, transfer: InsertTransfer): Promise<Transaction[] | undefined>;
+  
+  // Installment purchases
+  getInstallmentPurchases(organizationId: string): Promise<InstallmentPurchase[]>;
+  createInstallmentPurchase(purchase: InsertInstallmentPurchase): Promise<{ purchase: InstallmentPurchase; installments: Transaction[] }>;
+  deleteInstallmentPurchase(id: string, organizationId: string): Promise<boolean>;
   
   // Categories
-  getCategories(userId: string): Promise<Category[]>;
-  getCategory(id: string, userId: string): Promise<Category | undefined>;
+  getCategories(organizationId: string): Promise<Category[]>;
+  getCategory(id: string, organizationId: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: string, userId: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
-  deleteCategory(id: string, userId: string): Promise<boolean>;
-  createDefaultCategories(userId: string): Promise<void>;
+  updateCategory(id: string, organizationId: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: string, organizationId: string): Promise<boolean>;
+  restoreCategory(id: string, organizationId: string): Promise<Category | undefined>;
+  createDefaultCategories(organizationId: string, userId: string, kind?: WorkspaceKind): Promise<void>;
+  
+  // Budgets
+  getBudgets(organizationId: string): Promise<Budget[]>;
+  getBudget(id: string, organizationId: string): Promise<Budget | undefined>;
+  createBudget(budget: InsertBudget): Promise<Budget>;
+  updateBudget(id: string, organizationId: string, budget: Partial<InsertBudget>): Promise<Budget | undefined>;
+  deleteBudget(id: string, organizationId: string): Promise<boolean>;
+  
+  // Categorization rules
+  getCategoryRules(organizationId: string): Promise<CategoryRule[]>;
+  getCategoryRule(id: string, organizationId: string): Promise<CategoryRule | undefined>;
+  createCategoryRule(rule: InsertCategoryRule): Promise<CategoryRule>;
+  updateCategoryRule(id: string, organizationId: string, rule: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined>;
+  deleteCategoryRule(id: string, organizationId: string): Promise<boolean>;
+  suggestCategory(organizationId: string, candidate: CategorizationCandidate): Promise<CategorySuggestion | null>;
   
   // Transactions
-  getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]>;
-  getTransaction(id: string, userId: string): Promise<Transaction | undefined>;
+  getTransactions(organizationId: string, filters?: TransactionFilters): Promise<Transaction[]>;
+  getTransactionPage(organizationId: string, query: TransactionListQuery): Promise<TransactionPage>;
+  getTransaction(id: string, organizationId: string): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: string, userId: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  deleteTransaction(id: string, userId: string): Promise<boolean>;
+  updateTransaction(id: string, organizationId: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
+  deleteTransaction(id: string, organizationId: string): Promise<boolean>;
+  restoreTransaction(id: string, organizationId: string): Promise<Transaction | undefined>;
+  bulkUpdateTransactions(organizationId: string, patch: BulkTransactionPatch): Promise<BulkTransactionResult | undefined>;
+  createTransactions(transactions: InsertTransaction[]): Promise<Transaction[]>;
+  findDuplicateTransactions(organizationId: string, candidates: DuplicateCandidate[]): Promise<Map<number, string>>;
+  
+  // Statement imports
+  getImportMappings(organizationId: string): Promise<ImportMapping[]>;
+  createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping>;
+  deleteImportMapping(id: string, organizationId: string): Promise<boolean>;
   
   // Recurrence
-  processRecurringTransactions(userId: string, targetDate?: Date): Promise<number>;
-  getRecurringTransactions(userId: string): Promise<Transaction[]>;
+  processRecurringTransactions(organizationId: string, targetDate?: Date): Promise<number>;
+  getRecurringTransactions(organizationId: string): Promise<Transaction[]>;
+  getRecurringSeries(organizationId: string): Promise<RecurringSeries[]>;
+  getRecurringSeriesById(id: string, organizationId: string): Promise<RecurringSeries | undefined>;
+  createRecurringTransaction(transaction: InsertTransaction, limits?: RecurrenceLimits): Promise<Transaction>;
+  updateRecurringTransaction(id: string, organizationId: string, transaction: Partial<InsertTransaction>, scope: RecurrenceScope, limits?: RecurrenceLimits): Promise<Transaction | undefined>;
+  deleteRecurringTransaction(id: string, organizationId: string, scope: RecurrenceScope): Promise<boolean>;
+  
+  // Background jobs
+  startJobRun(jobName: string): Promise<JobRun>;
+  startJobRunIfDue(jobName: string, since: Date): Promise<JobRun | undefined>;
+  finishJobRun(id: string, result: JobRunResult): Promise<JobRun | undefined>;
+  getJobRuns(jobName?: string, limit?: number): Promise<JobRun[]>;
+  
+  // Trash
+  getTrash(organizationId: string): Promise<TrashContents>;
+  purgeExpiredTrash(now?: Date): Promise<number>;
+  
+  // Audit log
+  getAuditLogs(organizationId: string, query: AuditQuery): Promise<AuditLogWithUser[]>;
+  
+  // Notifications
+  syncBillNotifications(organizationId: string, now?: Date): Promise<number>;
+  getNotifications(userId: string): Promise<NotificationList>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, data: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  getDigestNotifications(): Promise<DigestNotification[]>;
+  markNotificationsEmailed(ids: string[]): Promise<void>;
+  
+  // Monthly financials
+  getMonthlyFinancial(organizationId: string, year: number, month: number): Promise<MonthlyFinancial | undefined>;
+  upsertMonthlyFinancial(organizationId: string, userId: string, year: number, month: number, data: UpdateMonthlyFinancial): Promise<MonthlyFinancial>;
+  getMonthlyFinancialSummary(organizationId: string, year: number, month: number): Promise<MonthlyFinancialSummary>;
   
   // Reports
-  getMonthlyReport(userId: string, year: number, month: number): Promise<MonthlyReport>;
-  getWeeklyData(userId: string, year: number, month: number): Promise<WeeklyData>;
-  getAdvancedReport(userId: string, year: number, month: number): Promise<AdvancedReport>;
+  getMonthlyReport(organizationId: string, year: number, month: number, dateBasis?: ReportDateBasis): Promise<MonthlyReport>;
+  getWeeklyData(organizationId: string, year: number, month: number): Promise<WeeklyData>;
+  getAdvancedReport(organizationId: string, year: number, month: number, dateBasis?: ReportDateBasis): Promise<AdvancedReport>;
+  getMonthlySeries(organizationId: string, year: number, month: number, months: number, dateBasis?: ReportDateBasis): Promise<MonthlySeriesPoint[]>;
+  getRangeReport(organizationId: string, query: ReportRangeQuery): Promise<RangeReport>;
+  getCashFlowForecast(organizationId: string, months: number, now?: Date): Promise<CashFlowForecast>;
+  getConsolidatedReport(userId: string, year: number, month: number): Promise<ConsolidatedReport>;
 }
 
 export interface TransactionFilters {
   categoryId?: string;
+  accountId?: string;
   status?: "paid" | "unpaid";
+  type?: "expense" | "income";
   startDate?: Date;
   endDate?: Date;
+  // Which date startDate/endDate apply to; "due" uses the card statement due date when there is one
+  dateBasis?: ReportDateBasis;
+  // Full-text search over title and notes
+  search?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface DuplicateCandidate {
+  index: number;
+  date: string; // YYYY-MM-DD
+  title: string;
+  amount: number;
 }
 
 export interface MonthlyReport {
@@ -66,13 +546,18 @@ export interface MonthlyReport {
     total: number;
     paid: number;
     unpaid: number;
+    income: number;
+    netResult: number;
     transactionCount: number;
     byCategory: CategorySummary[];
+    incomeByCategory: CategorySummary[];
   };
   previousMonth: {
     total: number;
     paid: number;
     unpaid: number;
+    income: number;
+    netResult: number;
     transactionCount: number;
   };
   comparison: {
@@ -80,6 +565,8 @@ export interface MonthlyReport {
     totalChangePercent: number;
     paidChange: number;
     unpaidChange: number;
+    incomeChange: number;
+    netResultChange: number;
   };
 }
 
@@ -93,6 +580,15 @@ export interface AdvancedReport {
     averageTransactionValue: number;
   };
   categoryRankings: CategoryRanking[];
+  budgets: BudgetProgress[];
+  cashFlow: {
+    totalIncome: number;
+    receivedIncome: number;
+    pendingIncome: number;
+    netResult: number;
+    savingsRate: number;
+  };
+  incomeByCategory: CategorySummary[];
   trends: {
     monthOverMonthChange: number;
     monthOverMonthChangePercent: number;
@@ -118,6 +614,9 @@ export interface CategoryRanking {
   averageValue: number;
   trend: "up" | "down" | "stable";
   trendPercent: number;
+  budget: number | null;
+  projectedTotal: number;
+  isProjectedOverBudget: boolean;
 }
 
 export interface CategorySummary {
@@ -132,13 +631,15 @@ export interface CategorySummary {
 export interface WeeklyData {
   weeks: WeekData[];
   monthTotal: number;
+  monthIncome: number;
 }
 
 export interface WeekData {
   weekNumber: number;
   label: string;
   total: number;
-  transactions: Transaction[];
+  income: number;
+  transactionCount: number;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -159,8 +660,8 @@ export class DatabaseStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     
-    // Create default categories for new user
-    await this.createDefaultCategories(user.id);
+    // Organization with default categories and account for new user
+    await this.ensureDefaultOrganization(user.id);
     
     return user;
   }
@@ -180,477 +681,3046 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateAccountType(userId: string, data: UpdateAccountType): Promise<User | undefined> {
+  async updateUserPassword(id: string, passwordHash: string): Promise<User | undefined> {
     const [user] = await db
       .update(users)
-      .set({
-        accountType: data.accountType,
-        companyName: data.companyName,
-        cnpj: data.cnpj,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId))
+      .set({ password: passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, id))
       .returning();
-    
     return user;
   }
 
-  async createDefaultCategories(userId: string): Promise<void> {
-    const categoriesToInsert = defaultCategories.map(cat => ({
-      userId,
-      name: cat.name,
-      color: cat.color,
-      icon: cat.icon,
-      isDefault: true,
-    }));
+  async markEmailVerified(id: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: sql`COALESCE(${users.emailVerifiedAt}, now())`, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Issues a new token, replacing any unused one of the same purpose so only
+  // the latest email works. Returns the token to be sent; it is not stored.
+  async createAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + AUTH_TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
     
-    await db.insert(categories).values(categoriesToInsert);
+    await this.transaction(async (tx) => {
+      await tx.delete(authTokens).where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      ));
+      await tx.insert(authTokens).values({ userId, purpose, tokenHash: hashAuthToken(token), expiresAt });
+    });
+    return token;
   }
 
-  async getCategories(userId: string): Promise<Category[]> {
-    const result = await db.query.categories.findMany({
-      where: eq(categories.userId, userId),
-      orderBy: [desc(categories.createdAt)],
+  // Marks the token used and returns its user, or undefined when it is
+  // unknown, expired or already used
+  async consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<string | undefined> {
+    const [result] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, hashAuthToken(token)),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date())
+      ))
+      .returning({ userId: authTokens.userId });
+    return result?.userId;
+  }
+
+  // Starts (or restarts) setup; an enabled secret is only replaced by disabling first
+  async setTotpSecret(userId: string, secret: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ totpSecret: secret, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)))
+      .returning();
+    return user;
+  }
+
+  async enableTwoFactor(userId: string, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    return this.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ totpEnabledAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(users.id, userId), isNotNull(users.totpSecret)))
+        .returning();
+      if (!user) return undefined;
+      
+      await this.replaceRecoveryCodesWith(tx, userId, recoveryCodeHashes);
+      return user;
     });
-    return result;
   }
 
-  async getCategory(id: string, userId: string): Promise<Category | undefined> {
-    const result = await db.query.categories.findFirst({
-      where: and(
-        eq(categories.id, id),
-        eq(categories.userId, userId)
-      ),
+  async disableTwoFactor(userId: string): Promise<void> {
+    await this.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpSecret: null, totpEnabledAt: null, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
     });
-    return result;
   }
 
-  async createCategory(category: InsertCategory): Promise<Category> {
-    const [result] = await db.insert(categories).values(category).returning();
-    return result;
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await this.transaction(tx => this.replaceRecoveryCodesWith(tx, userId, recoveryCodeHashes));
   }
 
-  async updateCategory(id: string, userId: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
+  private async replaceRecoveryCodesWith(executor: DbExecutor, userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await executor.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await executor.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
     const [result] = await db
-      .update(categories)
-      .set(category)
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result.count;
+  }
+
+  // Live sessions of a user, signed in either locally or through Replit Auth
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
       .where(and(
-        eq(categories.id, id),
-        eq(categories.userId, userId)
+        gt(sessions.expire, new Date()),
+        sql`(${sessions.sess}->>'userId' = ${userId} OR ${sessions.sess}#>>'{passport,user,claims,sub}' = ${userId})`
       ))
-      .returning();
-    
-    return result;
+      .orderBy(desc(sessions.expire));
   }
 
-  async deleteCategory(id: string, userId: string): Promise<boolean> {
-    const category = await this.getCategory(id, userId);
-    if (!category) return false;
-    if (category.isDefault) return false;
-    
+  async deleteSessions(sids: string[]): Promise<number> {
+    if (sids.length === 0) return 0;
     const result = await db
-      .delete(categories)
-      .where(and(
-        eq(categories.id, id),
-        eq(categories.userId, userId)
-      ));
-    
-    return true;
+      .delete(sessions)
+      .where(inArray(sessions.sid, sids))
+      .returning({ sid: sessions.sid });
+    return result.length;
   }
 
-  async getTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]> {
-    const conditions = [eq(transactions.userId, userId)];
-    
-    if (filters?.categoryId) {
-      conditions.push(eq(transactions.categoryId, filters.categoryId));
-    }
-    if (filters?.status) {
-      conditions.push(eq(transactions.status, filters.status));
-    }
-    if (filters?.startDate) {
-      conditions.push(gte(transactions.date, filters.startDate));
-    }
-    if (filters?.endDate) {
-      conditions.push(lte(transactions.date, filters.endDate));
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    await db.insert(loginAttempts).values(attempt);
+  }
+
+  // Failures of an email count from its last successful sign-in; failures of
+  // an IP address always count, so signing in to one's own account does not
+  // reset guessing at others
+  async getLoginFailures(by: LoginFailureKey, since: Date): Promise<LoginFailures> {
+    const conditions = [
+      inArray(loginAttempts.result, FAILED_LOGIN_RESULTS),
+      gte(loginAttempts.createdAt, since),
+    ];
+    if ("email" in by) {
+      conditions.push(eq(loginAttempts.email, by.email));
+      conditions.push(sql`${loginAttempts.createdAt} > COALESCE((
+        SELECT MAX(${loginAttempts.createdAt}) FROM ${loginAttempts}
+        WHERE ${loginAttempts.email} = ${by.email} AND ${loginAttempts.result} = 'success'
+      ), '-infinity')`);
+    } else {
+      conditions.push(eq(loginAttempts.ipAddress, by.ipAddress));
     }
     
-    const result = await db.query.transactions.findMany({
-      where: and(...conditions),
-      orderBy: [desc(transactions.date)],
-      with: {
-        category: true,
-      },
-    });
-    
-    return result;
+    const [result] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        lastFailureAt: sql<string | null>`MAX(${loginAttempts.createdAt})`,
+      })
+      .from(loginAttempts)
+      .where(and(...conditions));
+    return {
+      count: result.count,
+      lastFailureAt: result.lastFailureAt ? new Date(result.lastFailureAt) : null,
+    };
   }
 
-  async getTransaction(id: string, userId: string): Promise<Transaction | undefined> {
-    const result = await db.query.transactions.findFirst({
-      where: and(
-        eq(transactions.id, id),
-        eq(transactions.userId, userId)
-      ),
+  async getLoginAttempts(userId: string, limit: number = 20): Promise<LoginAttempt[]> {
+    return await db.query.loginAttempts.findMany({
+      where: eq(loginAttempts.userId, userId),
+      orderBy: [desc(loginAttempts.createdAt)],
+      limit,
     });
-    return result;
   }
 
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const transactionData = {
-      ...transaction,
-      date: new Date(transaction.date),
-      amount: transaction.amount.toString(),
-    };
-    
-    const [result] = await db.insert(transactions).values(transactionData).returning();
-    return result;
+  async purgeLoginAttempts(before: Date): Promise<number> {
+    const result = await db
+      .delete(loginAttempts)
+      .where(lt(loginAttempts.createdAt, before))
+      .returning({ id: loginAttempts.id });
+    return result.length;
   }
 
-  async updateTransaction(id: string, userId: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
-    const updateData: any = { ...transaction };
-    
-    if (transaction.date) {
-      updateData.date = new Date(transaction.date);
-    }
-    if (transaction.amount !== undefined) {
-      updateData.amount = transaction.amount.toString();
-    }
-    updateData.updatedAt = new Date();
-    
-    const [result] = await db
-      .update(transactions)
-      .set(updateData)
-      .where(and(
-        eq(transactions.id, id),
-        eq(transactions.userId, userId)
-      ))
-      .returning();
+  private async selectApiTokens(where: SQL | undefined): Promise<ApiTokenSummary[]> {
+    return await db
+      .select({
+        id: apiTokens.id,
+        userId: apiTokens.userId,
+        organizationId: apiTokens.organizationId,
+        name: apiTokens.name,
+        tokenPrefix: apiTokens.tokenPrefix,
+        scopes: apiTokens.scopes,
+        expiresAt: apiTokens.expiresAt,
+        lastUsedAt: apiTokens.lastUsedAt,
+        createdAt: apiTokens.createdAt,
+        organizationName: organizations.name,
+      })
+      .from(apiTokens)
+      .innerJoin(organizations, eq(apiTokens.organizationId, organizations.id))
+      .where(where)
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+    return this.selectApiTokens(eq(apiTokens.userId, userId));
+  }
+
+  // Returns the token itself only this once; it is not stored
+  async createApiToken(userId: string, organizationId: string, data: InsertApiToken): Promise<CreatedApiToken> {
+    const token = API_TOKEN_PREFIX + randomBytes(32).toString("hex");
+    const expiresAt = data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null;
     
+    const [created] = await db
+      .insert(apiTokens)
+      .values({
+        userId,
+        organizationId,
+        name: data.name,
+        tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 8),
+        tokenHash: hashAuthToken(token),
+        scopes: data.scopes,
+        expiresAt,
+      })
+      .returning({ id: apiTokens.id });
+    const [apiToken] = await this.selectApiTokens(eq(apiTokens.id, created.id));
+    return { token, apiToken };
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return result.length > 0;
+  }
+
+  // The token's row, or undefined when it is unknown, revoked or expired
+  async findApiToken(token: string): Promise<ApiToken | undefined> {
+    const result = await db.query.apiTokens.findFirst({
+      where: and(
+        eq(apiTokens.tokenHash, hashAuthToken(token)),
+        or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, new Date()))
+      ),
+    });
     return result;
   }
 
-  async deleteTransaction(id: string, userId: string): Promise<boolean> {
+  async touchApiToken(id: string): Promise<void> {
+    const now = new Date();
     await db
-      .delete(transactions)
+      .update(apiTokens)
+      .set({ lastUsedAt: now })
       .where(and(
-        eq(transactions.id, id),
-        eq(transactions.userId, userId)
+        eq(apiTokens.id, id),
+        or(
+          isNull(apiTokens.lastUsedAt),
+          lt(apiTokens.lastUsedAt, new Date(now.getTime() - API_TOKEN_LAST_USED_RESOLUTION_MS))
+        )
       ));
-    
-    return true;
   }
 
-  async getMonthlyReport(userId: string, year: number, month: number): Promise<MonthlyReport> {
-    const currentMonthStart = new Date(year, month - 1, 1);
-    const currentMonthEnd = new Date(year, month, 0, 23, 59, 59);
-    
-    const previousMonthStart = new Date(year, month - 2, 1);
-    const previousMonthEnd = new Date(year, month - 1, 0, 23, 59, 59);
-    
-    const currentTransactions = await this.getTransactions(userId, {
-      startDate: currentMonthStart,
-      endDate: currentMonthEnd,
-    });
-    
-    const previousTransactions = await this.getTransactions(userId, {
-      startDate: previousMonthStart,
-      endDate: previousMonthEnd,
+  async getUserOrganizations(userId: string, activeOrganizationId?: string): Promise<OrganizationWithRole[]> {
+    const memberships = await db.query.organizationMembers.findMany({
+      where: eq(organizationMembers.userId, userId),
+      orderBy: [asc(organizationMembers.createdAt)],
+      with: {
+        organization: true,
+      },
     });
     
-    const currentTotal = currentTransactions.reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const currentPaid = currentTransactions.filter(t => t.status === "paid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const currentUnpaid = currentTransactions.filter(t => t.status === "unpaid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    
-    const previousTotal = previousTransactions.reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const previousPaid = previousTransactions.filter(t => t.status === "paid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const previousUnpaid = previousTransactions.filter(t => t.status === "unpaid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    
-    const categoryMap = new Map<string, CategorySummary>();
-    const userCategories = await this.getCategories(userId);
-    const categoryLookup = new Map(userCategories.map(c => [c.id, c]));
-    
-    for (const transaction of currentTransactions) {
-      const catId = transaction.categoryId || "uncategorized";
-      const category = transaction.categoryId ? categoryLookup.get(transaction.categoryId) : null;
-      
-      if (!categoryMap.has(catId)) {
-        categoryMap.set(catId, {
-          categoryId: transaction.categoryId,
-          categoryName: category?.name || "Sem Categoria",
-          categoryColor: category?.color || "#64748B",
-          total: 0,
-          count: 0,
-          percentage: 0,
-        });
-      }
-      
-      const summary = categoryMap.get(catId)!;
-      summary.total += safeParseAmount(transaction.amount);
-      summary.count += 1;
-    }
-    
-    const byCategory = Array.from(categoryMap.values()).map(cat => ({
-      ...cat,
-      percentage: currentTotal > 0 ? (cat.total / currentTotal) * 100 : 0,
-    })).sort((a, b) => b.total - a.total);
-    
-    return {
-      currentMonth: {
-        total: currentTotal,
-        paid: currentPaid,
-        unpaid: currentUnpaid,
-        transactionCount: currentTransactions.length,
-        byCategory,
-      },
-      previousMonth: {
-        total: previousTotal,
-        paid: previousPaid,
-        unpaid: previousUnpaid,
-        transactionCount: previousTransactions.length,
-      },
-      comparison: {
-        totalChange: currentTotal - previousTotal,
-        totalChangePercent: previousTotal > 0 ? ((currentTotal - previousTotal) / previousTotal) * 100 : 0,
-        paidChange: currentPaid - previousPaid,
-        unpaidChange: currentUnpaid - previousUnpaid,
-      },
-    };
+    return memberships.map(membership => ({
+      ...membership.organization,
+      role: membership.role,
+      isActive: membership.organizationId === activeOrganizationId,
+    }));
   }
 
-  async getWeeklyData(userId: string, year: number, month: number): Promise<WeeklyData> {
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0, 23, 59, 59);
-    
-    const monthTransactions = await this.getTransactions(userId, {
-      startDate: monthStart,
-      endDate: monthEnd,
+  // The membership requests act through: the preferred organization while the
+  // user still belongs to it, otherwise the oldest one
+  async getActiveMembership(userId: string, preferredOrganizationId?: string): Promise<OrganizationMember> {
+    const findMemberships = () => db.query.organizationMembers.findMany({
+      where: eq(organizationMembers.userId, userId),
+      orderBy: [asc(organizationMembers.createdAt)],
     });
     
-    const weeks: WeekData[] = [
-      { weekNumber: 1, label: "Semana 1 (1-7)", total: 0, transactions: [] },
-      { weekNumber: 2, label: "Semana 2 (8-14)", total: 0, transactions: [] },
-      { weekNumber: 3, label: "Semana 3 (15-21)", total: 0, transactions: [] },
-      { weekNumber: 4, label: "Semana 4 (22-28)", total: 0, transactions: [] },
-      { weekNumber: 5, label: "Semana 5 (29+)", total: 0, transactions: [] },
-    ];
-    
-    for (const transaction of monthTransactions) {
-      const day = new Date(transaction.date).getDate();
-      let weekIndex = 0;
-      
-      if (day >= 1 && day <= 7) weekIndex = 0;
-      else if (day >= 8 && day <= 14) weekIndex = 1;
-      else if (day >= 15 && day <= 21) weekIndex = 2;
-      else if (day >= 22 && day <= 28) weekIndex = 3;
-      else weekIndex = 4;
-      
-      weeks[weekIndex].transactions.push(transaction);
-      weeks[weekIndex].total += safeParseAmount(transaction.amount);
+    let memberships = await findMemberships();
+    if (memberships.length === 0) {
+      await this.ensureDefaultOrganization(userId);
+      memberships = await findMemberships();
     }
     
-    const monthTotal = monthTransactions.reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    
-    return {
-      weeks,
-      monthTotal,
-    };
+    return memberships.find(m => m.organizationId === preferredOrganizationId) ?? memberships[0];
   }
 
-  async getRecurringTransactions(userId: string): Promise<Transaction[]> {
-    const result = await db.query.transactions.findMany({
+  async getMembership(organizationId: string, userId: string): Promise<OrganizationMember | undefined> {
+    const result = await db.query.organizationMembers.findFirst({
       where: and(
-        eq(transactions.userId, userId),
-        eq(transactions.isRecurring, true)
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
       ),
-      orderBy: [desc(transactions.createdAt)],
     });
     return result;
   }
 
-  async processRecurringTransactions(userId: string, targetDate: Date = new Date()): Promise<number> {
-    const recurringTransactions = await this.getRecurringTransactions(userId);
-    let createdCount = 0;
+  async createOrganization(data: InsertOrganization, ownerId: string): Promise<Organization> {
+    const organization = await this.transaction(async (tx) => {
+      const [created] = await tx.insert(organizations).values(data).returning();
+      const owner = await tx.insert(organizationMembers)
+        .values({ organizationId: created.id, userId: ownerId, role: "owner" })
+        .returning();
+      await this.recordAudit(tx, "organization", "create", [{ after: created }]);
+      await this.recordAudit(tx, "organization_member", "create", asCreated(owner));
+      return created;
+    });
+    
+    await this.createDefaultCategories(organization.id, ownerId, organization.kind);
+    await this.ensureDefaultAccount(organization.id, ownerId);
+    
+    return organization;
+  }
+
+  async updateOrganization(id: string, data: UpdateOrganization): Promise<Organization | undefined> {
+    const before = await db.query.organizations.findFirst({ where: eq(organizations.id, id) });
+    if (!before) return undefined;
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(organizations)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(organizations.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, "organization", "update", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  // Every user belongs to at least one organization. The first one adopts the
+  // rows the user created before organizations existed, and takes over the
+  // legacy account mode: business users get a business workspace.
+  async ensureDefaultOrganization(userId: string): Promise<Organization> {
+    const { organization, adopted } = await this.transaction(async (tx) => {
+      // Parallel first requests of the same user must not create two organizations
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${userId}))`);
+      
+      const existing = await tx.query.organizationMembers.findFirst({
+        where: eq(organizationMembers.userId, userId),
+        orderBy: [asc(organizationMembers.createdAt)],
+        with: {
+          organization: true,
+        },
+      });
+      if (existing) return { organization: existing.organization, adopted: false };
+      
+      const user = await tx.query.users.findFirst({ where: eq(users.id, userId) });
+      const userName = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+      const isBusiness = user?.accountType === "business";
+      const [created] = await tx.insert(organizations).values({
+        name: (isBusiness && user?.companyName) || userName || user?.email || "Minhas finanças",
+        kind: isBusiness ? "business" : "personal",
+        companyName: isBusiness ? user?.companyName : null,
+        cnpj: isBusiness ? user?.cnpj?.replace(/\D/g, "") || null : null,
+      }).returning();
+      await tx.insert(organizationMembers).values({ organizationId: created.id, userId, role: "owner" });
+      
+      const adopt = { organizationId: created.id };
+      await tx.update(categories).set(adopt)
+        .where(and(eq(categories.userId, userId), isNull(categories.organizationId)));
+      await tx.update(financialAccounts).set(adopt)
+        .where(and(eq(financialAccounts.userId, userId), isNull(financialAccounts.organizationId)));
+      await tx.update(installmentPurchases).set(adopt)
+        .where(and(eq(installmentPurchases.userId, userId), isNull(installmentPurchases.organizationId)));
+      await tx.update(transactions).set(adopt)
+        .where(and(eq(transactions.userId, userId), isNull(transactions.organizationId)));
+      await tx.update(recurringSeries).set(adopt)
+        .where(and(eq(recurringSeries.userId, userId), isNull(recurringSeries.organizationId)));
+      await tx.update(monthlyFinancials).set(adopt)
+        .where(and(eq(monthlyFinancials.userId, userId), isNull(monthlyFinancials.organizationId)));
+      await tx.update(budgets).set(adopt)
+        .where(and(eq(budgets.userId, userId), isNull(budgets.organizationId)));
+      await tx.update(importMappings).set(adopt)
+        .where(and(eq(importMappings.userId, userId), isNull(importMappings.organizationId)));
+      await tx.update(categoryRules).set(adopt)
+        .where(and(eq(categoryRules.userId, userId), isNull(categoryRules.organizationId)));
+      
+      return { organization: created, adopted: true };
+    });
+    
+    if (adopted) {
+      if ((await this.getCategories(organization.id)).length === 0) {
+        await this.createDefaultCategories(organization.id, userId, organization.kind);
+      }
+      await this.ensureDefaultAccount(organization.id, userId);
+    }
+    
+    return organization;
+  }
+
+  async getAllOrganizationIds(): Promise<string[]> {
+    const rows = await db.select({ id: organizations.id }).from(organizations);
+    return rows.map(row => row.id);
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]> {
+    const result = await db.query.organizationMembers.findMany({
+      where: eq(organizationMembers.organizationId, organizationId),
+      orderBy: [asc(organizationMembers.createdAt)],
+      with: {
+        user: {
+          columns: { id: true, email: true, firstName: true, lastName: true, profileImageUrl: true },
+        },
+      },
+    });
+    return result;
+  }
+
+  async getOrganizationMember(id: string, organizationId: string): Promise<OrganizationMember | undefined> {
+    const result = await db.query.organizationMembers.findFirst({
+      where: and(
+        eq(organizationMembers.id, id),
+        eq(organizationMembers.organizationId, organizationId)
+      ),
+    });
+    return result;
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.role, "owner")
+      ));
+    return result.count;
+  }
+
+  async updateMemberRole(id: string, organizationId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const before = await this.getOrganizationMember(id, organizationId);
+    if (!before) return undefined;
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(organizationMembers)
+        .set({ role })
+        .where(and(
+          eq(organizationMembers.id, id),
+          eq(organizationMembers.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "organization_member", "update", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async removeMember(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(organizationMembers)
+        .where(and(
+          eq(organizationMembers.id, id),
+          eq(organizationMembers.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "organization_member", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  async getPendingInvitations(organizationId: string): Promise<InvitationSummary[]> {
+    const result = await db.query.organizationInvitations.findMany({
+      columns: { tokenHash: false },
+      where: and(
+        eq(organizationInvitations.organizationId, organizationId),
+        isNull(organizationInvitations.acceptedAt),
+        gt(organizationInvitations.expiresAt, new Date())
+      ),
+      orderBy: [desc(organizationInvitations.createdAt)],
+    });
+    return result;
+  }
+
+  // A new invitation replaces any open one for the same email. Returns the
+  // token itself only this once; only its hash is stored
+  async createInvitation(organizationId: string, invitedBy: string, invitation: InsertOrganizationInvitation): Promise<{ token: string; invitation: OrganizationInvitation }> {
+    const token = randomBytes(24).toString("hex");
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_TTL_DAYS);
+    
+    return this.transaction(async (tx) => {
+      const replaced = await tx.delete(organizationInvitations).where(and(
+        eq(organizationInvitations.organizationId, organizationId),
+        eq(organizationInvitations.email, invitation.email),
+        isNull(organizationInvitations.acceptedAt)
+      )).returning();
+      await this.recordAudit(tx, "organization_invitation", "delete", asDeleted(replaced));
+      
+      const [result] = await tx.insert(organizationInvitations).values({
+        organizationId,
+        email: invitation.email,
+        role: invitation.role,
+        tokenHash: hashAuthToken(token),
+        invitedBy,
+        expiresAt,
+      }).returning();
+      
+      await this.recordAudit(tx, "organization_invitation", "create", [{ after: result }]);
+      return { token, invitation: result };
+    });
+  }
+
+  async getInvitationByToken(token: string): Promise<(OrganizationInvitation & { organization: Organization }) | undefined> {
+    const result = await db.query.organizationInvitations.findFirst({
+      where: eq(organizationInvitations.tokenHash, hashAuthToken(token)),
+      with: {
+        organization: true,
+      },
+    });
+    return result;
+  }
+
+  // Undefined when a concurrent accept got there first or the user is
+  // already a member
+  async acceptInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember | undefined> {
+    return this.transaction(async (tx) => {
+      const [accepted] = await tx.update(organizationInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(organizationInvitations.id, invitation.id),
+          isNull(organizationInvitations.acceptedAt)
+        ))
+        .returning();
+      if (!accepted) return undefined;
+      await this.recordAudit(tx, "organization_invitation", "update", [{ before: invitation, after: accepted }]);
+      
+      const [member] = await tx.insert(organizationMembers).values({
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+      }).onConflictDoNothing().returning();
+      if (!member) return undefined;
+      
+      await this.recordAudit(tx, "organization_member", "create", [{ after: member }]);
+      return member;
+    });
+  }
+
+  async deleteInvitation(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(organizationInvitations)
+        .where(and(
+          eq(organizationInvitations.id, id),
+          eq(organizationInvitations.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "organization_invitation", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  async createDefaultCategories(organizationId: string, userId: string, kind: WorkspaceKind = "personal"): Promise<void> {
+    const categoriesToInsert = defaultCategories[kind].map(cat => ({
+      organizationId,
+      userId,
+      name: cat.name,
+      color: cat.color,
+      icon: cat.icon,
+      isDefault: true,
+    }));
+    
+    await this.transaction(async (tx) => {
+      const result = await tx.insert(categories).values(categoriesToInsert).returning();
+      await this.recordAudit(tx, "category", "create", asCreated(result));
+    });
+  }
+
+  async getCategories(organizationId: string): Promise<Category[]> {
+    const result = await db.query.categories.findMany({
+      where: and(
+        eq(categories.organizationId, organizationId),
+        isNull(categories.deletedAt)
+      ),
+      orderBy: [desc(categories.createdAt)],
+    });
+    return result;
+  }
+
+  async getCategory(id: string, organizationId: string): Promise<Category | undefined> {
+    const result = await db.query.categories.findFirst({
+      where: and(
+        eq(categories.id, id),
+        eq(categories.organizationId, organizationId),
+        isNull(categories.deletedAt)
+      ),
+    });
+    return result;
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    return this.transaction(async (tx) => {
+      const [result] = await tx.insert(categories).values(category).returning();
+      await this.recordAudit(tx, "category", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async updateCategory(id: string, organizationId: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const before = await this.getCategory(id, organizationId);
+    if (!before) return undefined;
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(categories)
+        .set(category)
+        .where(and(
+          eq(categories.id, id),
+          eq(categories.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "category", "update", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async deleteCategory(id: string, organizationId: string): Promise<boolean> {
+    const category = await this.getCategory(id, organizationId);
+    if (!category) return false;
+    if (category.isDefault) return false;
+    
+    // Moved to the trash; linked transactions keep their categoryId and show
+    // as uncategorized until it is restored or purged
+    await this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(categories)
+        .set({ deletedAt: new Date() })
+        .where(and(
+          eq(categories.id, id),
+          eq(categories.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "category", "delete", [{ before: category, after: result }]);
+    });
+    
+    return true;
+  }
+
+  async restoreCategory(id: string, organizationId: string): Promise<Category | undefined> {
+    return this.transaction(async (tx) => {
+      const [before] = await tx.select().from(categories).where(and(
+        eq(categories.id, id),
+        eq(categories.organizationId, organizationId),
+        gte(categories.deletedAt, trashCutoff())
+      ));
+      if (!before) return undefined;
+      
+      const [result] = await tx
+        .update(categories)
+        .set({ deletedAt: null })
+        .where(eq(categories.id, id))
+        .returning();
+      
+      await this.recordAudit(tx, "category", "restore", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async getBudgets(organizationId: string): Promise<Budget[]> {
+    const result = await db.query.budgets.findMany({
+      where: and(
+        eq(budgets.organizationId, organizationId),
+        inArray(budgets.categoryId, liveCategoryIds())
+      ),
+      orderBy: [desc(budgets.createdAt)],
+    });
+    return result;
+  }
+
+  async getBudget(id: string, organizationId: string): Promise<Budget | undefined> {
+    const result = await db.query.budgets.findFirst({
+      where: and(
+        eq(budgets.id, id),
+        eq(budgets.organizationId, organizationId)
+      ),
+    });
+    return result;
+  }
+
+  async createBudget(budget: InsertBudget): Promise<Budget> {
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(budgets)
+        .values({
+          ...budget,
+          amount: budget.amount.toString(),
+        })
+        .returning();
+      
+      await this.recordAudit(tx, "budget", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async updateBudget(id: string, organizationId: string, budget: Partial<InsertBudget>): Promise<Budget | undefined> {
+    const updateData: any = { ...budget };
+    
+    if (budget.amount !== undefined) {
+      updateData.amount = budget.amount.toString();
+    }
+    updateData.updatedAt = new Date();
+    
+    const before = await this.getBudget(id, organizationId);
+    if (!before) return undefined;
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(budgets)
+        .set(updateData)
+        .where(and(
+          eq(budgets.id, id),
+          eq(budgets.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "budget", "update", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async deleteBudget(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(budgets)
+        .where(and(
+          eq(budgets.id, id),
+          eq(budgets.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "budget", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  async getTransactions(organizationId: string, filters?: TransactionFilters): Promise<Transaction[]> {
+    const result = await db.query.transactions.findMany({
+      where: and(...this.transactionConditions(organizationId, filters)),
+      orderBy: [desc(transactions.date)],
+      with: {
+        category: true,
+      },
+    });
+    
+    return result;
+  }
+
+  async getTransactionPage(organizationId: string, query: TransactionListQuery): Promise<TransactionPage> {
+    const where = and(...this.transactionConditions(organizationId, query));
+    const sortColumn = {
+      date: sql`${transactions.date}`,
+      amount: sql`${transactions.amount}`,
+      title: sql`lower(${transactions.title})`,
+    }[query.sort];
+    const direction = query.order === "asc" ? asc : desc;
+    
+    const [items, [summary]] = await Promise.all([
+      db.select().from(transactions)
+        .where(where)
+        // Ties are broken by id so rows do not move between pages
+        .orderBy(direction(sortColumn), asc(transactions.id))
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      db
+        .select({
+          total: sql<number>`count(*)::int`,
+          // Transfers only move money between accounts
+          income: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${transactions.type} = 'income' AND ${transactions.transferId} IS NULL), 0)`,
+          expenses: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${transactions.type} = 'expense' AND ${transactions.transferId} IS NULL), 0)`,
+          paidCount: sql<number>`(count(*) FILTER (WHERE ${transactions.status} = 'paid'))::int`,
+          unpaidCount: sql<number>`(count(*) FILTER (WHERE ${transactions.status} IS DISTINCT FROM 'paid'))::int`,
+        })
+        .from(transactions)
+        .where(where),
+    ]);
+    
+    return {
+      items,
+      total: summary.total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totals: {
+        income: safeParseAmount(summary.income),
+        expenses: safeParseAmount(summary.expenses),
+        paidCount: summary.paidCount,
+        unpaidCount: summary.unpaidCount,
+      },
+    };
+  }
+
+  // WHERE shared by the transactions list, its paged version and the exports
+  private transactionConditions(organizationId: string, filters?: TransactionFilters): SQL[] {
+    const conditions = [eq(transactions.organizationId, organizationId), isNull(transactions.deletedAt)];
+    
+    if (filters?.categoryId) {
+      conditions.push(eq(transactions.categoryId, filters.categoryId));
+    }
+    if (filters?.accountId) {
+      conditions.push(eq(transactions.accountId, filters.accountId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(transactions.status, filters.status));
+    }
+    if (filters?.type) {
+      conditions.push(eq(transactions.type, filters.type));
+    }
+    const dateColumn = reportDateColumn(filters?.dateBasis);
+    if (filters?.startDate) {
+      conditions.push(gte(dateColumn, sql.param(filters.startDate, transactions.date)));
+    }
+    if (filters?.endDate) {
+      conditions.push(lte(dateColumn, sql.param(filters.endDate, transactions.date)));
+    }
+    if (filters?.minAmount !== undefined) {
+      conditions.push(gte(transactions.amount, filters.minAmount.toString()));
+    }
+    if (filters?.maxAmount !== undefined) {
+      conditions.push(lte(transactions.amount, filters.maxAmount.toString()));
+    }
+    const tsQuery = filters?.search ? toPrefixTsQuery(filters.search) : null;
+    if (tsQuery) {
+      conditions.push(sql`${transactionSearchDocument} @@ to_tsquery('portuguese', ${tsQuery})`);
+    }
+    
+    return conditions;
+  }
+
+  private async aggregateByCategory(organizationId: string, filters: TransactionFilters): Promise<CategoryAggregate[]> {
+    const rows = await db
+      .select({
+        kind: movementKind,
+        categoryId: categories.id,
+        categoryName: categories.name,
+        categoryColor: categories.color,
+        total: sql<string>`SUM(${transactions.amount})`,
+        paid: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${transactions.status} = 'paid'), 0)`,
+        unpaid: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${transactions.status} = 'unpaid'), 0)`,
+        recurring: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${isRecurringMovement}), 0)`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(transactions)
+      .leftJoin(categories, and(
+        eq(categories.id, transactions.categoryId),
+        isNull(categories.deletedAt)
+      ))
+      .where(and(
+        ...this.transactionConditions(organizationId, filters),
+        // Transfers only move money between the user's own accounts
+        isNull(transactions.transferId)
+      ))
+      .groupBy(movementKind, categories.id, categories.name, categories.color);
+    
+    return rows.map(row => ({
+      ...row,
+      total: safeParseAmount(row.total),
+      paid: safeParseAmount(row.paid),
+      unpaid: safeParseAmount(row.unpaid),
+      recurring: safeParseAmount(row.recurring),
+    }));
+  }
+  
+  // Income and expense totals per month of a range, keyed by periodKey
+  private async aggregateByMonth(organizationId: string, filters: TransactionFilters): Promise<Map<number, MonthlySeriesPoint>> {
+    const dateColumn = reportDateColumn(filters.dateBasis);
+    const year = sql<number>`EXTRACT(YEAR FROM ${dateColumn})::int`;
+    const month = sql<number>`EXTRACT(MONTH FROM ${dateColumn})::int`;
+    
+    const rows = await db
+      .select({
+        year,
+        month,
+        income: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${movementKind} = 'income'), 0)`,
+        expenses: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${movementKind} = 'expense'), 0)`,
+        paidExpenses: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${movementKind} = 'expense' AND ${transactions.status} = 'paid'), 0)`,
+        transactionCount: sql<number>`count(*)::int`,
+      })
+      .from(transactions)
+      .where(and(
+        ...this.transactionConditions(organizationId, filters),
+        isNull(transactions.transferId)
+      ))
+      .groupBy(year, month);
+    
+    return new Map(rows.map(row => {
+      const income = safeParseAmount(row.income);
+      const expenses = safeParseAmount(row.expenses);
+      return [periodKey(row.year, row.month), {
+        year: row.year,
+        month: row.month,
+        income,
+        expenses,
+        paidExpenses: safeParseAmount(row.paidExpenses),
+        netResult: income - expenses,
+        transactionCount: row.transactionCount,
+      }];
+    }));
+  }
+
+  // Category totals per calendar month, quarter or year of a range
+  private async aggregateByPeriod(organizationId: string, filters: TransactionFilters, groupBy: ReportGroupBy): Promise<PeriodAggregate[]> {
+    // groupBy is one of REPORT_GROUP_BY, and has to be inlined so the
+    // expression in SELECT and GROUP BY is the same
+    const bucket = sql`date_trunc(${sql.raw(`'${groupBy}'`)}, ${reportDateColumn(filters.dateBasis)})`;
+    const year = sql<number>`EXTRACT(YEAR FROM ${bucket})::int`;
+    const month = sql<number>`EXTRACT(MONTH FROM ${bucket})::int`;
+    
+    const rows = await db
+      .select({
+        year,
+        month,
+        kind: movementKind,
+        categoryId: categories.id,
+        categoryName: categories.name,
+        categoryColor: categories.color,
+        total: sql<string>`SUM(${transactions.amount})`,
+      })
+      .from(transactions)
+      .leftJoin(categories, and(
+        eq(categories.id, transactions.categoryId),
+        isNull(categories.deletedAt)
+      ))
+      .where(and(
+        ...this.transactionConditions(organizationId, filters),
+        isNull(transactions.transferId)
+      ))
+      .groupBy(year, month, movementKind, categories.id, categories.name, categories.color);
+    
+    return rows.map(row => ({
+      periodKey: periodKey(row.year, row.month),
+      kind: row.kind,
+      categoryId: row.categoryId,
+      categoryName: row.categoryName,
+      categoryColor: row.categoryColor,
+      total: safeParseAmount(row.total),
+    }));
+  }
+
+  async getTransaction(id: string, organizationId: string): Promise<Transaction | undefined> {
+    const result = await db.query.transactions.findFirst({
+      where: and(
+        eq(transactions.id, id),
+        eq(transactions.organizationId, organizationId),
+        isNull(transactions.deletedAt)
+      ),
+    });
+    return result;
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const [categorized] = await this.assignStatementDueDates(await this.applyCategorySuggestions([transaction]));
+    const transactionData = {
+      ...categorized,
+      date: new Date(transaction.date),
+      amount: transaction.amount.toString(),
+    };
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx.insert(transactions).values(transactionData).returning();
+      await this.recordAudit(tx, "transaction", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async updateTransaction(id: string, organizationId: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const updateData: any = { ...transaction };
+    
+    if (transaction.date) {
+      updateData.date = new Date(transaction.date);
+    }
+    if (transaction.amount !== undefined) {
+      updateData.amount = transaction.amount.toString();
+    }
+    updateData.updatedAt = new Date();
+    
+    const current = await this.getTransaction(id, organizationId);
+    if (!current) return undefined;
+    if (current.transferId) {
+      return this.updateTransferLeg(current, updateData);
+    }
+    
+    // Moving a row in time or to another account can change its card statement
+    if (transaction.date || transaction.accountId !== undefined) {
+      const [placed] = await this.assignStatementDueDates([{
+        accountId: transaction.accountId !== undefined ? transaction.accountId : current.accountId,
+        date: updateData.date ?? current.date,
+        installmentNumber: current.installmentNumber,
+      }]);
+      updateData.statementDueDate = placed.statementDueDate;
+    }
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(transactions)
+        .set(updateData)
+        .where(and(
+          eq(transactions.id, id),
+          eq(transactions.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "transaction", "update", [{ before: current, after: result }]);
+      return result;
+    });
+  }
+
+  // Moves the row to the trash. Deleting either leg of a transfer moves both.
+  async deleteTransaction(id: string, organizationId: string): Promise<boolean> {
+    const current = await this.getTransaction(id, organizationId);
+    if (!current) return false;
+    
+    const legs = and(
+      current.transferId ? eq(transactions.transferId, current.transferId) : eq(transactions.id, id),
+      eq(transactions.organizationId, organizationId),
+      isNull(transactions.deletedAt)
+    );
+    
+    return this.transaction(async (tx) => {
+      const before = await tx.select().from(transactions).where(legs);
+      const result = await tx
+        .update(transactions)
+        .set({ deletedAt: new Date() })
+        .where(legs)
+        .returning();
+      
+      await this.recordAudit(tx, "transaction", "delete", pairChanges(before, result));
+      return result.length > 0;
+    });
+  }
+
+  // Brings a trashed row (both legs for a transfer) back. A series occurrence
+  // trashed on its own gets its slot back so processing treats it as existing
+  // again; one trashed by a "following" or "all" delete brings back the whole
+  // batch and the limits the series had before it was ended.
+  async restoreTransaction(id: string, organizationId: string): Promise<Transaction | undefined> {
+    const [current] = await db.select().from(transactions).where(and(
+      eq(transactions.id, id),
+      eq(transactions.organizationId, organizationId),
+      gte(transactions.deletedAt, trashCutoff())
+    ));
+    if (!current) return undefined;
+    
+    const series = current.seriesId
+      ? await db.query.recurringSeries.findFirst({ where: eq(recurringSeries.id, current.seriesId) })
+      : undefined;
+    // Rows trashed by one delete share the same deletedAt
+    const endedBatch = !!series && current.seriesOccurrence !== null &&
+      !series.skippedOccurrences.includes(current.seriesOccurrence);
+    // An installment never comes back without its purchase
+    const purchase = current.installmentPurchaseId
+      ? await db.query.installmentPurchases.findFirst({ where: eq(installmentPurchases.id, current.installmentPurchaseId) })
+      : undefined;
+    const trashedPurchase = purchase?.deletedAt ? purchase : undefined;
+    
+    const legs = and(
+      current.transferId
+        ? eq(transactions.transferId, current.transferId)
+        : endedBatch
+          ? and(eq(transactions.seriesId, series.id), eq(transactions.deletedAt, current.deletedAt!))
+          : trashedPurchase
+            ? or(
+              eq(transactions.id, id),
+              and(
+                eq(transactions.installmentPurchaseId, trashedPurchase.id),
+                eq(transactions.deletedAt, trashedPurchase.deletedAt!)
+              )
+            )
+            : eq(transactions.id, id),
+      eq(transactions.organizationId, organizationId),
+      isNotNull(transactions.deletedAt)
+    );
+    
+    return this.transaction(async (tx) => {
+      const before = await tx.select().from(transactions).where(legs);
+      const result = await tx
+        .update(transactions)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(legs)
+        .returning();
+      
+      if (series && current.seriesOccurrence !== null && (!endedBatch || series.endedLimits)) {
+        const [seriesAfter] = await tx.update(recurringSeries)
+          .set(endedBatch && series.endedLimits
+            ? { ...series.endedLimits, endedLimits: null, updatedAt: new Date() }
+            : {
+              skippedOccurrences: sql`array_remove(${recurringSeries.skippedOccurrences}, ${current.seriesOccurrence})`,
+              updatedAt: new Date(),
+            })
+          .where(eq(recurringSeries.id, series.id))
+          .returning();
+        await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: seriesAfter }]);
+      }
+      
+      if (trashedPurchase) {
+        const [purchaseAfter] = await tx.update(installmentPurchases)
+          .set({ deletedAt: null })
+          .where(eq(installmentPurchases.id, trashedPurchase.id))
+          .returning();
+        await this.recordAudit(tx, "installment_purchase", "restore", [{ before: trashedPurchase, after: purchaseAfter }]);
+      }
+      
+      await this.recordAudit(tx, "transaction", "restore", pairChanges(before, result));
+      return result.find(row => row.id === id);
+    });
+  }
+
+  // Applies one patch to many rows in a single database transaction; nothing
+  // changes unless every id is found. The other leg of a selected transfer
+  // follows along but stays uncategorized, and trashed series occurrences get
+  // their slot skipped as with a single delete.
+  async bulkUpdateTransactions(organizationId: string, patch: BulkTransactionPatch): Promise<BulkTransactionResult | undefined> {
+    const ids = Array.from(new Set(patch.ids));
+    const selected = await db.select().from(transactions).where(and(
+      inArray(transactions.id, ids),
+      eq(transactions.organizationId, organizationId),
+      isNull(transactions.deletedAt)
+    ));
+    if (selected.length !== ids.length) return undefined;
+    
+    const rowsById = new Map(selected.map(row => [row.id, row]));
+    const transferIds = Array.from(new Set(selected.map(row => row.transferId).filter((id): id is string => !!id)));
+    if (transferIds.length > 0) {
+      const legs = await db.select().from(transactions).where(and(
+        inArray(transactions.transferId, transferIds),
+        eq(transactions.organizationId, organizationId),
+        isNull(transactions.deletedAt)
+      ));
+      for (const leg of legs) rowsById.set(leg.id, leg);
+    }
+    const rows = Array.from(rowsById.values());
+    
+    if (patch.delete) {
+      return this.transaction(async (tx) => {
+        const trashed = await tx.update(transactions)
+          .set({ deletedAt: new Date() })
+          .where(inArray(transactions.id, rows.map(row => row.id)))
+          .returning();
+        
+        const skippedBySeries = new Map<string, number[]>();
+        for (const row of rows) {
+          if (!row.seriesId || row.seriesOccurrence === null) continue;
+          skippedBySeries.set(row.seriesId, [...(skippedBySeries.get(row.seriesId) ?? []), row.seriesOccurrence]);
+        }
+        for (const [seriesId, occurrences] of Array.from(skippedBySeries)) {
+          const seriesBefore = await tx.select().from(recurringSeries).where(eq(recurringSeries.id, seriesId));
+          const seriesAfter = await tx.update(recurringSeries)
+            .set({
+              skippedOccurrences: sql`array_cat(${recurringSeries.skippedOccurrences}, ARRAY[${sql.join(occurrences.map(n => sql`${n}`), sql`, `)}]::integer[])`,
+              updatedAt: new Date(),
+            })
+            .where(eq(recurringSeries.id, seriesId))
+            .returning();
+          await this.recordAudit(tx, "recurring_series", "update", pairChanges(seriesBefore, seriesAfter));
+        }
+        
+        await this.recordAudit(tx, "transaction", "delete", pairChanges(rows, trashed));
+        return { updated: 0, deleted: trashed.length };
+      });
+    }
+    
+    // Shifted rows on a credit card may land in another statement
+    const shifted = patch.dateOffsetDays
+      ? await this.assignStatementDueDates(rows.map(row => {
+          const date = new Date(row.date);
+          date.setDate(date.getDate() + patch.dateOffsetDays!);
+          return { ...row, date };
+        }))
+      : rows;
+    
+    return this.transaction(async (tx) => {
+      const updated: Transaction[] = [];
+      for (const row of shifted) {
+        const fields: Partial<Transaction> = { updatedAt: new Date() };
+        if (patch.status !== undefined) fields.status = patch.status;
+        if (patch.categoryId !== undefined && !row.transferId) fields.categoryId = patch.categoryId;
+        if (patch.dateOffsetDays) {
+          fields.date = row.date;
+          fields.statementDueDate = row.statementDueDate;
+        }
+        
+        const [result] = await tx.update(transactions)
+          .set(fields)
+          .where(eq(transactions.id, row.id))
+          .returning();
+        updated.push(result);
+      }
+      
+      await this.recordAudit(tx, "transaction", "update", pairChanges(rows, updated));
+      return { updated: updated.length, deleted: 0 };
+    });
+  }
+
+  // A transfer leg keeps its direction and account and stays uncategorized;
+  // amount, date, status and description are mirrored to the other leg. Moving
+  // a leg could put both on one account, so a different pair means a new transfer.
+  private async updateTransferLeg(current: Transaction, updateData: any): Promise<Transaction | undefined> {
+    const {
+      type: _type,
+      categoryId: _categoryId,
+      accountId: _accountId,
+      recurrenceType: _recurrenceType,
+      recurrenceDay: _recurrenceDay,
+      isRecurring: _isRecurring,
+      ...legData
+    } = updateData;
+    
+    const otherLeg = and(
+      eq(transactions.transferId, current.transferId!),
+      ne(transactions.id, current.id)
+    );
+    
+    return this.transaction(async (tx) => {
+      const otherBefore = await tx.select().from(transactions).where(otherLeg);
+      
+      const [result] = await tx
+        .update(transactions)
+        .set(legData)
+        .where(eq(transactions.id, current.id))
+        .returning();
+      
+      const otherAfter = await tx
+        .update(transactions)
+        .set(legData)
+        .where(otherLeg)
+        .returning();
+      
+      await this.recordAudit(tx, "transaction", "update", [
+        { before: current, after: result },
+        ...pairChanges(otherBefore, otherAfter),
+      ]);
+      return result;
+    });
+  }
+
+  async createTransfer(organizationId: string, userId: string, transfer: InsertTransfer): Promise<Transaction[] | undefined> {
+    const from = await this.getFinancialAccount(transfer.fromAccountId, organizationId);
+    const to = await this.getFinancialAccount(transfer.toAccountId, organizationId);
+    if (!from || !to) return undefined;
+    
+    const transferId = randomUUID();
+    const leg = {
+      organizationId,
+      userId,
+      categoryId: null,
+      title: transfer.title,
+      amount: transfer.amount.toString(),
+      date: new Date(transfer.date),
+      status: transfer.status,
+      notes: transfer.notes || null,
+      transferId,
+    };
+    
+    return this.transaction(async (tx) => {
+      const legs = await tx.insert(transactions).values([
+        { ...leg, accountId: from.id, type: "expense" as const },
+        { ...leg, accountId: to.id, type: "income" as const },
+      ]).returning();
+      
+      await this.recordAudit(tx, "transaction", "create", asCreated(legs));
+      return legs;
+    });
+  }
+
+  async getFinancialAccounts(organizationId: string): Promise<FinancialAccountWithBalance[]> {
+    const accounts = await db.query.financialAccounts.findMany({
+      where: eq(financialAccounts.organizationId, organizationId),
+      orderBy: [asc(financialAccounts.createdAt)],
+    });
+    
+    const signedAmount = sql`CASE WHEN ${transactions.type} = 'income' THEN ${transactions.amount} ELSE -${transactions.amount} END`;
+    const totals = await db
+      .select({
+        accountId: transactions.accountId,
+        paid: sql<string>`COALESCE(SUM(${signedAmount}) FILTER (WHERE ${transactions.status} = 'paid'), 0)`,
+        pending: sql<string>`COALESCE(SUM(${signedAmount}) FILTER (WHERE ${transactions.status} IS DISTINCT FROM 'paid'), 0)`,
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.organizationId, organizationId),
+        isNull(transactions.deletedAt)
+      ))
+      .groupBy(transactions.accountId);
+    const totalsByAccount = new Map(totals.map(t => [t.accountId, t]));
+    
+    return accounts.map(account => {
+      const total = totalsByAccount.get(account.id);
+      return {
+        ...account,
+        currentBalance: safeParseAmount(account.openingBalance) + safeParseAmount(total?.paid),
+        pendingBalance: safeParseAmount(total?.pending),
+      };
+    });
+  }
+
+  async getFinancialAccount(id: string, organizationId: string): Promise<FinancialAccount | undefined> {
+    const result = await db.query.financialAccounts.findFirst({
+      where: and(
+        eq(financialAccounts.id, id),
+        eq(financialAccounts.organizationId, organizationId)
+      ),
+    });
+    return result;
+  }
+
+  async createFinancialAccount(account: InsertFinancialAccount): Promise<FinancialAccount> {
+    return this.transaction(async (tx) => {
+      const [result] = await tx.insert(financialAccounts).values({
+        ...account,
+        openingBalance: account.openingBalance.toString(),
+      }).returning();
+      
+      await this.recordAudit(tx, "financial_account", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async updateFinancialAccount(id: string, organizationId: string, account: UpdateFinancialAccount): Promise<FinancialAccount | undefined> {
+    const updateData: any = { ...account, updatedAt: new Date() };
+    if (account.openingBalance !== undefined) {
+      updateData.openingBalance = account.openingBalance.toString();
+    }
+    
+    const before = await this.getFinancialAccount(id, organizationId);
+    if (!before) return undefined;
+    
+    const result = await this.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(financialAccounts)
+        .set(updateData)
+        .where(and(
+          eq(financialAccounts.id, id),
+          eq(financialAccounts.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "financial_account", "update", [{ before, after: updated }]);
+      return updated;
+    });
+    
+    if (result && (account.type !== undefined || account.closingDay !== undefined || account.dueDay !== undefined)) {
+      await this.reassignStatementDueDates(result);
+    }
+    
+    return result;
+  }
+
+  // After the card's closing or due day changes, every row moves to its new statement
+  private async reassignStatementDueDates(account: FinancialAccount): Promise<void> {
+    const rows = await db.query.transactions.findMany({
+      where: eq(transactions.accountId, account.id),
+    });
+    
+    await this.transaction(async (tx) => {
+      for (const row of rows) {
+        const dueDate = statementDueDate(row.date, account, (row.installmentNumber ?? 1) - 1);
+        if (dueDate?.getTime() !== row.statementDueDate?.getTime()) {
+          await tx.update(transactions)
+            .set({ statementDueDate: dueDate })
+            .where(eq(transactions.id, row.id));
+        }
+      }
+    });
+    if (account.organizationId) invalidateReports(account.organizationId);
+  }
+
+  // Card rows are tagged with the due date of the statement they are billed in
+  private async assignStatementDueDates<T extends StatementRow>(rows: T[]): Promise<(T & { statementDueDate: Date | null })[]> {
+    if (rows.length === 0) return [];
+    
+    const accountIds = Array.from(new Set(rows.map(row => row.accountId).filter((id): id is string => !!id)));
+    const accounts = accountIds.length > 0
+      ? await db.query.financialAccounts.findMany({ where: inArray(financialAccounts.id, accountIds) })
+      : [];
+    const accountsById = new Map(accounts.map(a => [a.id, a]));
+    
+    return rows.map(row => {
+      const account = row.accountId ? accountsById.get(row.accountId) : undefined;
+      return {
+        ...row,
+        statementDueDate: account
+          ? statementDueDate(new Date(row.date), account, (row.installmentNumber ?? 1) - 1)
+          : null,
+      };
+    });
+  }
+
+  async getInstallmentPurchases(organizationId: string): Promise<InstallmentPurchase[]> {
+    const result = await db.query.installmentPurchases.findMany({
+      where: and(
+        eq(installmentPurchases.organizationId, organizationId),
+        isNull(installmentPurchases.deletedAt)
+      ),
+      orderBy: [desc(installmentPurchases.purchaseDate)],
+    });
+    return result;
+  }
+
+  // Splits the purchase into one row per installment, all dated on the purchase
+  // and billed in consecutive statements. The account must be a configured card.
+  async createInstallmentPurchase(
+    purchase: InsertInstallmentPurchase,
+  ): Promise<{ purchase: InstallmentPurchase; installments: Transaction[] }> {
+    const purchaseDate = new Date(purchase.purchaseDate);
+    const [categorized] = await this.applyCategorySuggestions([{
+      organizationId: purchase.organizationId,
+      userId: purchase.userId,
+      accountId: purchase.accountId,
+      categoryId: purchase.categoryId,
+      title: purchase.title,
+      amount: purchase.totalAmount,
+      type: "expense",
+      date: purchaseDate,
+    }]);
+    
+    const amounts = splitInstallments(purchase.totalAmount, purchase.installmentCount);
+    const rows = await this.assignStatementDueDates(amounts.map((_, index) => ({
+      accountId: purchase.accountId,
+      date: purchaseDate,
+      installmentNumber: index + 1,
+    })));
+    
+    return this.transaction(async (tx) => {
+      const [created] = await tx.insert(installmentPurchases).values({
+        ...purchase,
+        categoryId: categorized.categoryId || null,
+        notes: purchase.notes || null,
+        totalAmount: purchase.totalAmount.toString(),
+        purchaseDate,
+      }).returning();
+      
+      const installments = await tx.insert(transactions).values(rows.map((row, index) => ({
+        ...row,
+        organizationId: created.organizationId,
+        userId: created.userId,
+        categoryId: created.categoryId,
+        title: `${created.title} (${index + 1}/${created.installmentCount})`,
+        amount: amounts[index].toString(),
+        type: "expense" as const,
+        date: purchaseDate,
+        status: "unpaid" as const,
+        notes: created.notes,
+        installmentPurchaseId: created.id,
+      }))).returning();
+      
+      await this.recordAudit(tx, "installment_purchase", "create", [{ after: created }]);
+      await this.recordAudit(tx, "transaction", "create", asCreated(installments));
+      return { purchase: created, installments };
+    });
+  }
+
+  // The purchase and its installments go to the trash together; restoring any
+  // of those installments brings them all back
+  async deleteInstallmentPurchase(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const deletedAt = new Date();
+      const [purchaseBefore] = await tx.select().from(installmentPurchases).where(and(
+        eq(installmentPurchases.id, id),
+        eq(installmentPurchases.organizationId, organizationId),
+        isNull(installmentPurchases.deletedAt)
+      ));
+      if (!purchaseBefore) return false;
+      
+      const [purchase] = await tx.update(installmentPurchases)
+        .set({ deletedAt })
+        .where(eq(installmentPurchases.id, id))
+        .returning();
+      
+      const installments = and(
+        eq(transactions.installmentPurchaseId, id),
+        eq(transactions.organizationId, organizationId),
+        isNull(transactions.deletedAt)
+      );
+      const before = await tx.select().from(transactions).where(installments);
+      const result = await tx.update(transactions)
+        .set({ deletedAt })
+        .where(installments)
+        .returning();
+      
+      await this.recordAudit(tx, "installment_purchase", "delete", [{ before: purchaseBefore, after: purchase }]);
+      await this.recordAudit(tx, "transaction", "delete", pairChanges(before, result));
+      return true;
+    });
+  }
+
+  // Accounts with transactions, recurring series or purchases are kept; archive them instead
+  async deleteFinancialAccount(id: string, organizationId: string): Promise<boolean> {
+    const [usage] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(transactions)
+      .where(eq(transactions.accountId, id));
+    const [seriesUsage] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recurringSeries)
+      .where(eq(recurringSeries.accountId, id));
+    const [purchaseUsage] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(installmentPurchases)
+      .where(eq(installmentPurchases.accountId, id));
+    if (usage.count > 0 || seriesUsage.count > 0 || purchaseUsage.count > 0) return false;
+    
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(financialAccounts)
+        .where(and(
+          eq(financialAccounts.id, id),
+          eq(financialAccounts.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "financial_account", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  // Every organization starts with an account. Rows from before accounts existed
+  // (or series generated for them) are moved to the oldest account.
+  async ensureDefaultAccount(organizationId: string, userId: string): Promise<FinancialAccount> {
+    let account = await db.query.financialAccounts.findFirst({
+      where: eq(financialAccounts.organizationId, organizationId),
+      orderBy: [asc(financialAccounts.createdAt)],
+    });
+    
+    if (!account) {
+      account = await this.transaction(async (tx) => {
+        const [created] = await tx.insert(financialAccounts).values({
+          organizationId,
+          userId,
+          name: "Conta principal",
+          type: "checking",
+        }).returning();
+        
+        await this.recordAudit(tx, "financial_account", "create", [{ after: created }]);
+        return created;
+      });
+    }
+    
+    await db.update(transactions)
+      .set({ accountId: account.id })
+      .where(and(eq(transactions.organizationId, organizationId), isNull(transactions.accountId)));
+    await db.update(recurringSeries)
+      .set({ accountId: account.id })
+      .where(and(eq(recurringSeries.organizationId, organizationId), isNull(recurringSeries.accountId)));
+    
+    return account;
+  }
+
+  async createTransactions(list: InsertTransaction[]): Promise<Transaction[]> {
+    if (list.length === 0) return [];
+    
+    const categorized = await this.assignStatementDueDates(await this.applyCategorySuggestions(list));
+    const values = categorized.map(transaction => ({
+      ...transaction,
+      date: new Date(transaction.date),
+      amount: transaction.amount.toString(),
+    }));
+    
+    // All rows land together or not at all
+    return this.transaction(async (tx) => {
+      const result = await tx.insert(transactions).values(values).returning();
+      await this.recordAudit(tx, "transaction", "create", asCreated(result));
+      return result;
+    });
+  }
+
+  async findDuplicateTransactions(organizationId: string, candidates: DuplicateCandidate[]): Promise<Map<number, string>> {
+    const duplicates = new Map<number, string>();
+    if (candidates.length === 0) return duplicates;
+    
+    const dates = candidates.map(c => c.date).sort();
+    const existing = await this.getTransactions(organizationId, {
+      startDate: new Date(`${dates[0]}T00:00:00`),
+      endDate: new Date(`${dates[dates.length - 1]}T23:59:59`),
+    });
+    
+    const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, " ");
+    const toKey = (date: string, title: string, amount: number) =>
+      `${date}|${normalizeTitle(title)}|${Math.round(amount * 100)}`;
+    
+    const existingByKey = new Map<string, string>();
+    for (const transaction of existing) {
+      const date = new Date(transaction.date);
+      const localDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+      existingByKey.set(toKey(localDate, transaction.title, safeParseAmount(transaction.amount)), transaction.id);
+    }
+    
+    for (const candidate of candidates) {
+      const match = existingByKey.get(toKey(candidate.date, candidate.title, candidate.amount));
+      if (match) {
+        duplicates.set(candidate.index, match);
+      }
+    }
+    
+    return duplicates;
+  }
+
+  async getCategoryRules(organizationId: string): Promise<CategoryRule[]> {
+    const result = await db.query.categoryRules.findMany({
+      where: and(
+        eq(categoryRules.organizationId, organizationId),
+        inArray(categoryRules.categoryId, liveCategoryIds())
+      ),
+      orderBy: [asc(categoryRules.priority), asc(categoryRules.createdAt)],
+    });
+    return result;
+  }
+
+  async getCategoryRule(id: string, organizationId: string): Promise<CategoryRule | undefined> {
+    const result = await db.query.categoryRules.findFirst({
+      where: and(
+        eq(categoryRules.id, id),
+        eq(categoryRules.organizationId, organizationId)
+      ),
+    });
+    return result;
+  }
+
+  async createCategoryRule(rule: InsertCategoryRule): Promise<CategoryRule> {
+    const ruleData = {
+      ...rule,
+      titleContains: rule.titleContains || null,
+      minAmount: optionalAmount(rule.minAmount),
+      maxAmount: optionalAmount(rule.maxAmount),
+    };
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx.insert(categoryRules).values(ruleData).returning();
+      await this.recordAudit(tx, "category_rule", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async updateCategoryRule(id: string, organizationId: string, rule: Partial<InsertCategoryRule>): Promise<CategoryRule | undefined> {
+    const updateData: any = { ...rule };
+    
+    if (rule.titleContains !== undefined) {
+      updateData.titleContains = rule.titleContains || null;
+    }
+    if (rule.minAmount !== undefined) {
+      updateData.minAmount = optionalAmount(rule.minAmount);
+    }
+    if (rule.maxAmount !== undefined) {
+      updateData.maxAmount = optionalAmount(rule.maxAmount);
+    }
+    updateData.updatedAt = new Date();
+    
+    const before = await this.getCategoryRule(id, organizationId);
+    if (!before) return undefined;
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .update(categoryRules)
+        .set(updateData)
+        .where(and(
+          eq(categoryRules.id, id),
+          eq(categoryRules.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "category_rule", "update", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async deleteCategoryRule(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(categoryRules)
+        .where(and(
+          eq(categoryRules.id, id),
+          eq(categoryRules.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "category_rule", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  async suggestCategory(organizationId: string, candidate: CategorizationCandidate): Promise<CategorySuggestion | null> {
+    const categorize = await this.loadCategorizer(organizationId);
+    return categorize(candidate);
+  }
+
+  // Loads the user's rules and recent categorized history once, so bulk inserts
+  // can categorize every row without extra queries
+  private async loadCategorizer(organizationId: string): Promise<Categorizer> {
+    const [rules, history] = await Promise.all([
+      this.getCategoryRules(organizationId),
+      db
+        .select({
+          title: transactions.title,
+          categoryId: transactions.categoryId,
+          type: transactions.type,
+        })
+        .from(transactions)
+        .where(and(
+          eq(transactions.organizationId, organizationId),
+          isNull(transactions.deletedAt),
+          inArray(transactions.categoryId, liveCategoryIds())
+        ))
+        .orderBy(desc(transactions.date))
+        .limit(CATEGORIZATION_HISTORY_LIMIT),
+    ]);
+    
+    return createCategorizer(
+      rules,
+      history.map(entry => ({ ...entry, categoryId: entry.categoryId as string })),
+    );
+  }
+
+  // Fills categoryId on rows that came without one; explicit choices are kept
+  private async applyCategorySuggestions(list: InsertTransaction[]): Promise<InsertTransaction[]> {
+    const categorizers = new Map<string, Categorizer>();
+    const result: InsertTransaction[] = [];
+    
+    for (const transaction of list) {
+      if (transaction.categoryId) {
+        result.push(transaction);
+        continue;
+      }
+      
+      let categorize = categorizers.get(transaction.organizationId);
+      if (!categorize) {
+        categorize = await this.loadCategorizer(transaction.organizationId);
+        categorizers.set(transaction.organizationId, categorize);
+      }
+      
+      const suggestion = categorize({
+        title: transaction.title,
+        amount: safeParseAmount(transaction.amount),
+        type: transaction.type,
+      });
+      result.push({ ...transaction, categoryId: suggestion?.categoryId ?? null });
+    }
+    
+    return result;
+  }
+
+  async getImportMappings(organizationId: string): Promise<ImportMapping[]> {
+    const result = await db.query.importMappings.findMany({
+      where: eq(importMappings.organizationId, organizationId),
+      orderBy: [asc(importMappings.name)],
+    });
+    return result;
+  }
+
+  async createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping> {
+    return this.transaction(async (tx) => {
+      const [result] = await tx.insert(importMappings).values(mapping).returning();
+      await this.recordAudit(tx, "import_mapping", "create", [{ after: result }]);
+      return result;
+    });
+  }
+
+  async deleteImportMapping(id: string, organizationId: string): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const result = await tx
+        .delete(importMappings)
+        .where(and(
+          eq(importMappings.id, id),
+          eq(importMappings.organizationId, organizationId)
+        ))
+        .returning();
+      
+      await this.recordAudit(tx, "import_mapping", "delete", asDeleted(result));
+      return result.length > 0;
+    });
+  }
+
+  async getMonthlyFinancial(organizationId: string, year: number, month: number): Promise<MonthlyFinancial | undefined> {
+    const result = await db.query.monthlyFinancials.findFirst({
+      where: and(
+        eq(monthlyFinancials.organizationId, organizationId),
+        eq(monthlyFinancials.year, year),
+        eq(monthlyFinancials.month, month)
+      ),
+    });
+    return result;
+  }
+
+  async upsertMonthlyFinancial(organizationId: string, userId: string, year: number, month: number, data: UpdateMonthlyFinancial): Promise<MonthlyFinancial> {
+    const updateData: any = { updatedAt: new Date() };
+    
+    if (data.monthlyRevenue !== undefined) {
+      updateData.monthlyRevenue = data.monthlyRevenue.toString();
+    }
+    if (data.notes !== undefined) {
+      updateData.notes = data.notes;
+    }
+    if (data.accumulatedBalance !== undefined) {
+      updateData.isBalanceManual = data.accumulatedBalance !== null;
+      updateData.accumulatedBalance = data.accumulatedBalance === null ? "0" : data.accumulatedBalance.toString();
+    }
+    
+    const before = await this.getMonthlyFinancial(organizationId, year, month);
+    
+    return this.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(monthlyFinancials)
+        .values({ organizationId, userId, year, month, ...updateData })
+        .onConflictDoUpdate({
+          target: [monthlyFinancials.organizationId, monthlyFinancials.year, monthlyFinancials.month],
+          set: updateData,
+        })
+        .returning();
+      
+      await this.recordAudit(tx, "monthly_financial", before ? "update" : "create", [{ before, after: result }]);
+      return result;
+    });
+  }
+
+  async getMonthlyFinancialSummary(organizationId: string, year: number, month: number): Promise<MonthlyFinancialSummary> {
+    const targetKey = periodKey(year, month);
+    
+    const rows = await db.query.monthlyFinancials.findMany({
+      where: eq(monthlyFinancials.organizationId, organizationId),
+      orderBy: [asc(monthlyFinancials.year), asc(monthlyFinancials.month)],
+    });
+    const rowsByKey = new Map(rows.map(r => [periodKey(r.year, r.month), r]));
+    
+    // Roll forward from the latest balance typed by the user, or from the first month with any data
+    const anchor = rows.filter(r => r.isBalanceManual && periodKey(r.year, r.month) <= targetKey).pop();
+    let startKey = targetKey;
+    
+    if (anchor) {
+      startKey = periodKey(anchor.year, anchor.month);
+    } else {
+      const [first] = await db
+        .select({ firstDate: sql<string | null>`min(${transactions.date})` })
+        .from(transactions)
+        .where(and(
+          eq(transactions.organizationId, organizationId),
+          isNull(transactions.deletedAt)
+        ));
+      
+      if (rows.length > 0) {
+        startKey = Math.min(startKey, periodKey(rows[0].year, rows[0].month));
+      }
+      if (first?.firstDate) {
+        const firstDate = new Date(first.firstDate);
+        startKey = Math.min(startKey, periodKey(firstDate.getFullYear(), firstDate.getMonth() + 1));
+      }
+    }
+    
+    const totalsByKey = await this.aggregateByMonth(organizationId, {
+      startDate: new Date(Math.floor(startKey / 12), startKey % 12, 1),
+      endDate: new Date(year, month, 0, 23, 59, 59),
+    });
+    
+    let openingBalance = anchor ? safeParseAmount(anchor.accumulatedBalance) : 0;
+    for (let key = startKey; key < targetKey; key++) {
+      const totals = totalsByKey.get(key);
+      const revenue = safeParseAmount(rowsByKey.get(key)?.monthlyRevenue) + (totals?.income || 0);
+      openingBalance += revenue - (totals?.expenses || 0);
+    }
+    
+    // Computed on every read; only balances typed by the user are stored
+    const current = rowsByKey.get(targetKey);
+    
+    const monthlyRevenue = safeParseAmount(current?.monthlyRevenue);
+    const recordedIncome = totalsByKey.get(targetKey)?.income || 0;
+    const totalRevenue = monthlyRevenue + recordedIncome;
+    const totalExpenses = totalsByKey.get(targetKey)?.expenses || 0;
+    
+    return {
+      year,
+      month,
+      monthlyRevenue,
+      recordedIncome,
+      totalRevenue,
+      totalExpenses,
+      openingBalance,
+      closingBalance: openingBalance + totalRevenue - totalExpenses,
+      isBalanceManual: current?.isBalanceManual ?? false,
+      notes: current?.notes ?? null,
+    };
+  }
+
+  async getMonthlyReport(organizationId: string, year: number, month: number, dateBasis: ReportDateBasis = "purchase"): Promise<MonthlyReport> {
+    return cachedReport(organizationId, `monthly:${year}-${month}:${dateBasis}`, async () => {
+      const [currentRows, previousRows] = await Promise.all([
+        this.aggregateByCategory(organizationId, monthFilters(year, month, dateBasis)),
+        this.aggregateByCategory(organizationId, monthFilters(year, month - 1, dateBasis)),
+      ]);
+      
+      const current = totalsOf(currentRows);
+      const previous = totalsOf(previousRows);
+      
+      const byCategory = this.summarizeByCategory(currentRows.filter(r => r.kind === "expense"), current.expenses);
+      const incomeByCategory = this.summarizeByCategory(currentRows.filter(r => r.kind === "income"), current.income);
+      
+      return {
+        currentMonth: {
+          total: current.expenses,
+          paid: current.paidExpenses,
+          unpaid: current.unpaidExpenses,
+          income: current.income,
+          netResult: current.income - current.expenses,
+          transactionCount: current.expenseCount + current.incomeCount,
+          byCategory,
+          incomeByCategory,
+        },
+        previousMonth: {
+          total: previous.expenses,
+          paid: previous.paidExpenses,
+          unpaid: previous.unpaidExpenses,
+          income: previous.income,
+          netResult: previous.income - previous.expenses,
+          transactionCount: previous.expenseCount + previous.incomeCount,
+        },
+        comparison: {
+          totalChange: current.expenses - previous.expenses,
+          totalChangePercent: previous.expenses > 0 ? ((current.expenses - previous.expenses) / previous.expenses) * 100 : 0,
+          paidChange: current.paidExpenses - previous.paidExpenses,
+          unpaidChange: current.unpaidExpenses - previous.unpaidExpenses,
+          incomeChange: current.income - previous.income,
+          netResultChange: (current.income - current.expenses) - (previous.income - previous.expenses),
+        },
+      };
+    });
+  }
+
+  private summarizeByCategory(rows: CategoryAggregate[], grandTotal: number): CategorySummary[] {
+    return rows.map(row => ({
+      categoryId: row.categoryId,
+      categoryName: row.categoryName || "Sem Categoria",
+      categoryColor: row.categoryColor || "#64748B",
+      total: row.total,
+      count: row.count,
+      percentage: grandTotal > 0 ? (row.total / grandTotal) * 100 : 0,
+    })).sort((a, b) => b.total - a.total);
+  }
+
+  async getWeeklyData(organizationId: string, year: number, month: number): Promise<WeeklyData> {
+    return cachedReport(organizationId, `weekly:${year}-${month}`, async () => {
+      // Days 1-7 are week 1 and so on; the 29th onwards is week 5
+      const weekNumber = sql<number>`LEAST(CEIL(EXTRACT(DAY FROM ${transactions.date}) / 7), 5)::int`;
+      const rows = await db
+        .select({
+          weekNumber,
+          total: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${movementKind} = 'expense' AND ${transactions.transferId} IS NULL), 0)`,
+          income: sql<string>`COALESCE(SUM(${transactions.amount}) FILTER (WHERE ${movementKind} = 'income' AND ${transactions.transferId} IS NULL), 0)`,
+          transactionCount: sql<number>`count(*)::int`,
+        })
+        .from(transactions)
+        .where(and(...this.transactionConditions(organizationId, monthFilters(year, month))))
+        .groupBy(weekNumber);
+      const rowsByWeek = new Map(rows.map(row => [row.weekNumber, row]));
+      
+      const labels = ["Semana 1 (1-7)", "Semana 2 (8-14)", "Semana 3 (15-21)", "Semana 4 (22-28)", "Semana 5 (29+)"];
+      const weeks: WeekData[] = labels.map((label, index) => {
+        const row = rowsByWeek.get(index + 1);
+        return {
+          weekNumber: index + 1,
+          label,
+          total: safeParseAmount(row?.total),
+          income: safeParseAmount(row?.income),
+          transactionCount: row?.transactionCount ?? 0,
+        };
+      });
+      
+      return {
+        weeks,
+        monthTotal: weeks.reduce((sum, week) => sum + week.total, 0),
+        monthIncome: weeks.reduce((sum, week) => sum + week.income, 0),
+      };
+    });
+  }
+
+  async getMonthlySeries(organizationId: string, year: number, month: number, months: number, dateBasis: ReportDateBasis = "purchase"): Promise<MonthlySeriesPoint[]> {
+    return cachedReport(organizationId, `series:${year}-${month}:${months}:${dateBasis}`, async () => {
+      const endKey = periodKey(year, month);
+      const startKey = endKey - months + 1;
+      const totalsByKey = await this.aggregateByMonth(organizationId, {
+        startDate: new Date(Math.floor(startKey / 12), startKey % 12, 1),
+        endDate: new Date(year, month, 0, 23, 59, 59),
+        dateBasis,
+      });
+      
+      // Months without any transaction are still part of the series
+      const series: MonthlySeriesPoint[] = [];
+      for (let key = startKey; key <= endKey; key++) {
+        series.push(totalsByKey.get(key) ?? {
+          year: Math.floor(key / 12),
+          month: (key % 12) + 1,
+          income: 0,
+          expenses: 0,
+          paidExpenses: 0,
+          netResult: 0,
+          transactionCount: 0,
+        });
+      }
+      return series;
+    });
+  }
+
+  async getRangeReport(organizationId: string, query: ReportRangeQuery): Promise<RangeReport> {
+    // from/to arrive as plain dates (UTC midnight); the report covers those whole calendar days
+    const startDate = new Date(query.from.getUTCFullYear(), query.from.getUTCMonth(), query.from.getUTCDate());
+    const endDate = new Date(query.to.getUTCFullYear(), query.to.getUTCMonth(), query.to.getUTCDate(), 23, 59, 59);
+    const { groupBy, basis } = query;
     
-    for (const template of recurringTransactions) {
-      const nextDates = this.calculateNextRecurrenceDates(template, targetDate);
+    return cachedReport(organizationId, `range:${startDate.getTime()}-${endDate.getTime()}:${groupBy}:${basis}`, async () => {
+      const yearBefore = (date: Date) => new Date(date.getFullYear() - 1, date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds());
+      const [currentRows, previousRows] = await Promise.all([
+        this.aggregateByPeriod(organizationId, { startDate, endDate, dateBasis: basis }, groupBy),
+        this.aggregateByPeriod(organizationId, { startDate: yearBefore(startDate), endDate: yearBefore(endDate), dateBasis: basis }, groupBy),
+      ]);
       
-      for (const nextDate of nextDates) {
-        const nextDateStr = nextDate.toISOString().split('T')[0];
-        
-        const conditions = [
-          eq(transactions.userId, userId),
-          eq(transactions.title, template.title),
-          sql`DATE(${transactions.date}) = ${nextDateStr}`
-        ];
-        
-        if (template.categoryId) {
-          conditions.push(eq(transactions.categoryId, template.categoryId));
-        }
+      const firstKey = periodStart(periodKey(startDate.getFullYear(), startDate.getMonth() + 1), groupBy);
+      const lastKey = periodStart(periodKey(endDate.getFullYear(), endDate.getMonth() + 1), groupBy);
+      const sumKind = (rows: PeriodAggregate[], kind: "income" | "expense") =>
+        rows.filter(r => r.kind === kind).reduce((sum, r) => sum + r.total, 0);
+      
+      const periods: RangeReportPeriod[] = [];
+      for (let key = firstKey; key <= lastKey; key += PERIOD_MONTHS[groupBy]) {
+        const rows = currentRows.filter(r => r.periodKey === key);
+        // The same period a year earlier is twelve months back for every grouping
+        const previous = previousRows.filter(r => r.periodKey === key - 12);
+        const income = sumKind(rows, "income");
+        const expenses = sumKind(rows, "expense");
+        const previousIncome = sumKind(previous, "income");
+        const previousExpenses = sumKind(previous, "expense");
         
-        const existingTransaction = await db.query.transactions.findFirst({
-          where: and(...conditions),
+        periods.push({
+          key: periodName(key, groupBy),
+          year: Math.floor(key / 12),
+          month: (key % 12) + 1,
+          income,
+          expenses,
+          netResult: income - expenses,
+          byCategory: rows
+            .map(({ categoryId, kind, total }) => ({ categoryId, kind, total }))
+            .sort((a, b) => b.total - a.total),
+          previousYear: { income: previousIncome, expenses: previousExpenses },
+          incomeChangePercent: changePercent(income, previousIncome),
+          expensesChangePercent: changePercent(expenses, previousExpenses),
+          rollingAverage: { income: 0, expenses: 0 },
         });
+      }
+      
+      periods.forEach((period, index) => {
+        const recent = periods.slice(Math.max(0, index - REPORT_ROLLING_WINDOW + 1), index + 1);
+        period.rollingAverage = {
+          income: recent.reduce((sum, p) => sum + p.income, 0) / recent.length,
+          expenses: recent.reduce((sum, p) => sum + p.expenses, 0) / recent.length,
+        };
+      });
+      
+      const categoryTotals = new Map<string, RangeCategoryTotal & { categoryName: string; categoryColor: string }>();
+      for (const row of currentRows) {
+        const id = `${row.kind}:${row.categoryId || "uncategorized"}`;
+        const entry = categoryTotals.get(id) ?? {
+          categoryId: row.categoryId,
+          kind: row.kind,
+          total: 0,
+          categoryName: row.categoryName || "Sem Categoria",
+          categoryColor: row.categoryColor || "#64748B",
+        };
+        entry.total += row.total;
+        categoryTotals.set(id, entry);
+      }
+      
+      const income = sumKind(currentRows, "income");
+      const expenses = sumKind(currentRows, "expense");
+      const previousIncome = sumKind(previousRows, "income");
+      const previousExpenses = sumKind(previousRows, "expense");
+      
+      return {
+        from: query.from.toISOString().split("T")[0],
+        to: query.to.toISOString().split("T")[0],
+        groupBy,
+        basis,
+        categories: Array.from(categoryTotals.values()).sort((a, b) => b.total - a.total),
+        periods,
+        totals: { income, expenses, netResult: income - expenses },
+        previousYearTotals: {
+          income: previousIncome,
+          expenses: previousExpenses,
+          netResult: previousIncome - previousExpenses,
+        },
+      };
+    });
+  }
+
+  // Projects the balance of the active accounts: unpaid rows, occurrences the
+  // recurrence job has not created yet and the revenue typed for future months
+  async getCashFlowForecast(organizationId: string, months: number, now: Date = new Date()): Promise<CashFlowForecast> {
+    const startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const endDate = new Date(now.getFullYear(), now.getMonth() + months, now.getDate(), 23, 59, 59);
+    
+    return cachedReport(organizationId, `forecast:${months}:${startDate.getTime()}`, async () => {
+      const [accounts, unpaidRows, activeSeries, revenueRows] = await Promise.all([
+        this.getFinancialAccounts(organizationId),
+        db
+          .select({
+            date: transactions.date,
+            statementDueDate: transactions.statementDueDate,
+            amount: transactions.amount,
+            type: transactions.type,
+          })
+          .from(transactions)
+          .where(and(
+            // Card purchases leave the bank when their statement is due
+            ...this.transactionConditions(organizationId, { endDate, dateBasis: "due" }),
+            sql`${transactions.status} IS DISTINCT FROM 'paid'`,
+            isNull(transactions.transferId)
+          )),
+        db.query.recurringSeries.findMany({
+          where: and(
+            eq(recurringSeries.organizationId, organizationId),
+            eq(recurringSeries.isActive, true)
+          ),
+        }),
+        db.query.monthlyFinancials.findMany({
+          where: eq(monthlyFinancials.organizationId, organizationId),
+        }),
+      ]);
+      
+      const activeAccounts = accounts.filter(a => !a.isArchived);
+      const startingBalance = activeAccounts.reduce((sum, a) => sum + a.currentBalance, 0);
+      const accountsById = new Map<string, FinancialAccount>(accounts.map(a => [a.id, a]));
+      
+      const movements: ForecastMovement[] = unpaidRows.map(row => ({
+        date: new Date(row.statementDueDate ?? row.date),
+        amount: safeParseAmount(row.amount),
+        type: row.type === "income" ? "income" : "expense",
+        source: "unpaid",
+      }));
+      
+      // Occurrences that already have a row (or were deleted) are counted above or not at all
+      const seriesIds = activeSeries.map(series => series.id);
+      const existing = seriesIds.length > 0
+        ? await db
+          .select({ seriesId: transactions.seriesId, occurrence: transactions.seriesOccurrence })
+          .from(transactions)
+          .where(inArray(transactions.seriesId, seriesIds))
+        : [];
+      
+      for (const series of activeSeries) {
+        const taken = new Set([
+          ...existing.filter(row => row.seriesId === series.id).map(row => row.occurrence),
+          ...series.skippedOccurrences,
+        ]);
+        const account = series.accountId ? accountsById.get(series.accountId) : undefined;
+        if (account?.isArchived) continue;
         
-        if (!existingTransaction) {
-          const newTransaction = {
-            userId: template.userId,
-            categoryId: template.categoryId || null,
-            title: template.title,
-            amount: template.amount,
-            date: nextDate.toISOString(),
-            status: "unpaid" as const,
-            notes: template.notes || null,
-            recurrenceType: "none" as const,
-            recurrenceDay: null,
-            isRecurring: false,
-          };
-          
-          await db.insert(transactions).values({
-            ...newTransaction,
-            date: nextDate,
-            amount: template.amount.toString(),
+        calculateNextRecurrenceDates(series, endDate).forEach((date, index) => {
+          if (taken.has(index + 1)) return;
+          movements.push({
+            date: (account && statementDueDate(date, account)) || date,
+            amount: safeParseAmount(series.amount),
+            type: series.type === "income" ? "income" : "expense",
+            source: "recurring",
           });
-          createdCount++;
-        }
+        });
+      }
+      
+      // Revenue typed for a month is not a transaction; it is expected on the
+      // first day of each month after the current one
+      const currentKey = periodKey(now.getFullYear(), now.getMonth() + 1);
+      for (const row of revenueRows) {
+        const revenue = safeParseAmount(row.monthlyRevenue);
+        if (revenue <= 0 || periodKey(row.year, row.month) <= currentKey) continue;
+        movements.push({ date: new Date(row.year, row.month - 1, 1), amount: revenue, type: "income", source: "revenue" });
+      }
+      
+      return { months, ...projectCashFlow(startingBalance, movements, startDate, endDate) };
+    });
+  }
+
+  async getRecurringTransactions(organizationId: string): Promise<Transaction[]> {
+    const result = await db.query.transactions.findMany({
+      where: and(
+        eq(transactions.organizationId, organizationId),
+        eq(transactions.isRecurring, true),
+        isNull(transactions.deletedAt)
+      ),
+      orderBy: [desc(transactions.createdAt)],
+    });
+    return result;
+  }
+
+  async getRecurringSeries(organizationId: string): Promise<RecurringSeries[]> {
+    const result = await db.query.recurringSeries.findMany({
+      where: eq(recurringSeries.organizationId, organizationId),
+      orderBy: [asc(recurringSeries.title)],
+    });
+    return result;
+  }
+
+  async getRecurringSeriesById(id: string, organizationId: string): Promise<RecurringSeries | undefined> {
+    const result = await db.query.recurringSeries.findFirst({
+      where: and(
+        eq(recurringSeries.id, id),
+        eq(recurringSeries.organizationId, organizationId)
+      ),
+    });
+    return result;
+  }
+
+  async createRecurringTransaction(transaction: InsertTransaction, limits: RecurrenceLimits = {}): Promise<Transaction> {
+    const [categorized] = await this.assignStatementDueDates(await this.applyCategorySuggestions([transaction]));
+    const startDate = new Date(transaction.date);
+    
+    const { series, first } = await this.transaction(async (tx) => {
+      const [series] = await tx.insert(recurringSeries).values({
+        organizationId: categorized.organizationId,
+        userId: categorized.userId,
+        categoryId: categorized.categoryId || null,
+        accountId: categorized.accountId,
+        title: categorized.title,
+        amount: categorized.amount.toString(),
+        type: categorized.type,
+        notes: categorized.notes || null,
+        recurrenceType: categorized.recurrenceType as RecurringSeries["recurrenceType"],
+        recurrenceDay: categorized.recurrenceDay ?? null,
+        startDate,
+        endDate: limits.endDate ? new Date(limits.endDate) : null,
+        maxOccurrences: limits.maxOccurrences ?? null,
+      }).returning();
+      
+      // The transaction being created is the first occurrence of the series
+      const [first] = await tx.insert(transactions).values({
+        ...categorized,
+        date: startDate,
+        amount: categorized.amount.toString(),
+        recurrenceType: "none",
+        recurrenceDay: null,
+        isRecurring: false,
+        seriesId: series.id,
+        seriesOccurrence: 1,
+      }).returning();
+      
+      await this.recordAudit(tx, "recurring_series", "create", [{ after: series }]);
+      await this.recordAudit(tx, "transaction", "create", [{ after: first }]);
+      return { series, first };
+    });
+    
+    // Backdated series get their past occurrences right away
+    await this.generateSeriesOccurrences(series, new Date());
+    return first;
+  }
+
+  async updateRecurringTransaction(
+    id: string,
+    organizationId: string,
+    data: Partial<InsertTransaction>,
+    scope: RecurrenceScope,
+    limits: RecurrenceLimits = {},
+  ): Promise<Transaction | undefined> {
+    const current = await this.getTransaction(id, organizationId);
+    if (!current) return undefined;
+    
+    const { recurrenceType, recurrenceDay, isRecurring: _, ...rowData } = data;
+    // Transfers never become recurring
+    if (current.transferId) {
+      return this.updateTransaction(id, organizationId, rowData);
+    }
+    const series = current.seriesId ? await this.getRecurringSeriesById(current.seriesId, organizationId) : undefined;
+    
+    // A one-off transaction that becomes recurring starts a new series
+    if (!series) {
+      const updated = await this.updateTransaction(id, organizationId, rowData);
+      if (updated && recurrenceType && recurrenceType !== "none") {
+        const series = await this.startSeriesFromTransaction(updated, recurrenceType, recurrenceDay ?? null, limits);
+        await this.generateSeriesOccurrences(series, new Date());
+        return this.getTransaction(id, organizationId);
+      }
+      return updated;
+    }
+    
+    if (scope === "this") {
+      return this.updateTransaction(id, organizationId, rowData);
+    }
+    
+    const occurrence = current.seriesOccurrence || 1;
+    const sharedFields = seriesFieldsFrom(rowData);
+    
+    // Turning recurrence off ends the series at this occurrence
+    if (recurrenceType === "none") {
+      await this.transaction(async (tx) => {
+        const [endedSeries] = await tx.update(recurringSeries)
+          .set({ ...sharedFields, maxOccurrences: occurrence, updatedAt: new Date() })
+          .where(eq(recurringSeries.id, series.id))
+          .returning();
+        const removed = await tx.delete(transactions).where(and(
+          eq(transactions.seriesId, series.id),
+          gt(transactions.seriesOccurrence, occurrence),
+          eq(transactions.status, "unpaid")
+        )).returning();
+        await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: endedSeries }]);
+        await this.recordAudit(tx, "transaction", "delete", asDeleted(removed));
+        await this.updateSeriesRows(tx, series.id, sharedFields, scope === "all" ? 1 : occurrence);
+      });
+      return this.updateTransaction(id, organizationId, rowData);
+    }
+    
+    const schedule: Partial<RecurringSeries> = {};
+    if (recurrenceType !== undefined) schedule.recurrenceType = recurrenceType as RecurringSeries["recurrenceType"];
+    if (recurrenceDay !== undefined) schedule.recurrenceDay = recurrenceDay;
+    if (limits.endDate !== undefined) schedule.endDate = limits.endDate ? new Date(limits.endDate) : null;
+    if (limits.maxOccurrences !== undefined) schedule.maxOccurrences = limits.maxOccurrences;
+    
+    // Editing from the first occurrence on is the same as editing the whole series
+    if (scope === "all" || occurrence === 1) {
+      const updatedSeries = await this.transaction(async (tx) => {
+        const [updatedSeries] = await tx.update(recurringSeries)
+          .set({ ...sharedFields, ...schedule, updatedAt: new Date() })
+          .where(eq(recurringSeries.id, series.id))
+          .returning();
+        await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: updatedSeries }]);
+        await this.updateSeriesRows(tx, series.id, sharedFields, 1);
+        return updatedSeries;
+      });
+      
+      const updated = await this.updateTransaction(id, organizationId, rowData);
+      if (scheduleChanged(series, updatedSeries)) {
+        await this.realignSeriesOccurrences(updatedSeries);
+      }
+      return updated ? this.getTransaction(id, organizationId) : undefined;
+    }
+    
+    // "This and following": the original series ends before this occurrence and
+    // a new series, carrying the changes, takes over from here
+    const newSeries = await this.transaction(async (tx) => {
+      const [endedSeries] = await tx.update(recurringSeries)
+        .set({ maxOccurrences: occurrence - 1, updatedAt: new Date() })
+        .where(eq(recurringSeries.id, series.id))
+        .returning();
+      
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...definition } = series;
+      const [newSeries] = await tx.insert(recurringSeries).values({
+        ...definition,
+        ...sharedFields,
+        ...schedule,
+        startDate: rowData.date ? new Date(rowData.date) : current.date,
+        maxOccurrences: schedule.maxOccurrences !== undefined
+          ? schedule.maxOccurrences
+          : series.maxOccurrences !== null ? series.maxOccurrences - (occurrence - 1) : null,
+        skippedOccurrences: series.skippedOccurrences
+          .filter(n => n >= occurrence)
+          .map(n => n - occurrence + 1),
+      }).returning();
+      
+      const following = and(
+        eq(transactions.seriesId, series.id),
+        gte(transactions.seriesOccurrence, occurrence)
+      );
+      const movedBefore = await tx.select().from(transactions).where(following);
+      const moved = await tx.update(transactions)
+        .set({
+          ...sharedFields,
+          seriesId: newSeries.id,
+          seriesOccurrence: sql`${transactions.seriesOccurrence} - ${occurrence - 1}`,
+          updatedAt: new Date(),
+        })
+        .where(following)
+        .returning();
+      
+      await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: endedSeries }]);
+      await this.recordAudit(tx, "recurring_series", "create", [{ after: newSeries }]);
+      await this.recordAudit(tx, "transaction", "update", pairChanges(movedBefore, moved));
+      return newSeries;
+    });
+    
+    const updated = await this.updateTransaction(id, organizationId, rowData);
+    if (scheduleChanged(series, newSeries)) {
+      await this.realignSeriesOccurrences(newSeries);
+    }
+    return updated ? this.getTransaction(id, organizationId) : undefined;
+  }
+
+  async deleteRecurringTransaction(id: string, organizationId: string, scope: RecurrenceScope): Promise<boolean> {
+    const current = await this.getTransaction(id, organizationId);
+    if (!current) return false;
+    if (!current.seriesId) {
+      return this.deleteTransaction(id, organizationId);
+    }
+    
+    const seriesId = current.seriesId;
+    const occurrence = current.seriesOccurrence || 1;
+    
+    await this.transaction(async (tx) => {
+      const [series] = await tx.select().from(recurringSeries).where(eq(recurringSeries.id, seriesId));
+      
+      if (scope === "all" || scope === "following") {
+        // The occurrences go to the trash together and the series ends before
+        // them; restoring any of them brings the batch and the limits back
+        const fromOccurrence = scope === "all" ? 1 : occurrence;
+        const affected = and(
+          eq(transactions.seriesId, seriesId),
+          scope === "all" ? undefined : gte(transactions.seriesOccurrence, occurrence),
+          isNull(transactions.deletedAt)
+        );
+        const before = await tx.select().from(transactions).where(affected);
+        const removed = await tx.update(transactions)
+          .set({ deletedAt: new Date() })
+          .where(affected)
+          .returning();
+        const [updatedSeries] = await tx.update(recurringSeries)
+          .set({
+            maxOccurrences: fromOccurrence - 1,
+            isActive: fromOccurrence > 1,
+            // A series cut short twice keeps the limits it had before the first cut
+            endedLimits: series.endedLimits ?? { maxOccurrences: series.maxOccurrences, isActive: series.isActive },
+            updatedAt: new Date(),
+          })
+          .where(eq(recurringSeries.id, seriesId))
+          .returning();
+        await this.recordAudit(tx, "transaction", "delete", pairChanges(before, removed));
+        await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: updatedSeries }]);
+      } else {
+        // Trash the row and remember the cancelled slot so processing does not
+        // bring it back; restoring the row frees the slot again
+        const [removed] = await tx.update(transactions)
+          .set({ deletedAt: new Date() })
+          .where(eq(transactions.id, id))
+          .returning();
+        const [updatedSeries] = await tx.update(recurringSeries)
+          .set({
+            skippedOccurrences: sql`array_append(${recurringSeries.skippedOccurrences}, ${occurrence})`,
+            updatedAt: new Date(),
+          })
+          .where(eq(recurringSeries.id, seriesId))
+          .returning();
+        await this.recordAudit(tx, "transaction", "delete", [{ before: current, after: removed }]);
+        await this.recordAudit(tx, "recurring_series", "update", [{ before: series, after: updatedSeries }]);
       }
+    });
+    
+    return true;
+  }
+
+  async processRecurringTransactions(organizationId: string, targetDate: Date = new Date()): Promise<number> {
+    await this.migrateLegacyRecurringTemplates(organizationId);
+    
+    const activeSeries = await db.query.recurringSeries.findMany({
+      where: and(
+        eq(recurringSeries.organizationId, organizationId),
+        eq(recurringSeries.isActive, true)
+      ),
+    });
+    
+    let createdCount = 0;
+    for (const series of activeSeries) {
+      createdCount += await this.generateSeriesOccurrences(series, targetDate);
     }
     
     return createdCount;
   }
 
-  private calculateNextRecurrenceDates(template: Transaction, targetDate: Date): Date[] {
-    const dates: Date[] = [];
-    const templateDate = new Date(template.date);
+  // Inserts the occurrences scheduled up to targetDate that have no row yet.
+  // Rows are matched by occurrence number, so renamed or moved rows still count.
+  private async generateSeriesOccurrences(series: RecurringSeries, targetDate: Date): Promise<number> {
+    const dates = calculateNextRecurrenceDates(series, targetDate);
+    if (dates.length === 0) return 0;
+    
+    const existing = await db
+      .select({ occurrence: transactions.seriesOccurrence })
+      .from(transactions)
+      .where(eq(transactions.seriesId, series.id));
+    const taken = new Set([
+      ...existing.map(row => row.occurrence),
+      ...series.skippedOccurrences,
+    ]);
+    
+    const account = series.accountId
+      ? await db.query.financialAccounts.findFirst({ where: eq(financialAccounts.id, series.accountId) })
+      : undefined;
+    const newRows = dates
+      .map((date, index) => ({ date, occurrence: index + 1 }))
+      .filter(({ occurrence }) => !taken.has(occurrence))
+      .map(({ date, occurrence }) => ({
+        organizationId: series.organizationId,
+        userId: series.userId,
+        categoryId: series.categoryId,
+        accountId: series.accountId,
+        title: series.title,
+        amount: series.amount,
+        type: series.type,
+        date,
+        status: "unpaid" as const,
+        notes: series.notes,
+        recurrenceType: "none" as const,
+        recurrenceDay: null,
+        isRecurring: false,
+        seriesId: series.id,
+        seriesOccurrence: occurrence,
+        statementDueDate: account ? statementDueDate(date, account) : null,
+      }));
+    
+    if (newRows.length === 0) return 0;
+    await this.transaction(async (tx) => {
+      const inserted = await tx.insert(transactions).values(newRows).returning();
+      await this.recordAudit(tx, "transaction", "create", asCreated(inserted));
+    });
+    return newRows.length;
+  }
+
+  // Links an existing row as occurrence 1 of a new series; occurrences are
+  // generated by the caller
+  private async startSeriesFromTransaction(
+    transaction: Transaction,
+    recurrenceType: NonNullable<InsertTransaction["recurrenceType"]>,
+    recurrenceDay: number | null,
+    limits: RecurrenceLimits,
+  ): Promise<RecurringSeries> {
+    return this.transaction(async (tx) => {
+      const [series] = await tx.insert(recurringSeries).values({
+        organizationId: transaction.organizationId,
+        userId: transaction.userId,
+        categoryId: transaction.categoryId,
+        accountId: transaction.accountId,
+        title: transaction.title,
+        amount: transaction.amount,
+        type: transaction.type,
+        notes: transaction.notes,
+        recurrenceType: recurrenceType as RecurringSeries["recurrenceType"],
+        recurrenceDay,
+        startDate: transaction.date,
+        endDate: limits.endDate ? new Date(limits.endDate) : null,
+        maxOccurrences: limits.maxOccurrences ?? null,
+      }).returning();
+    
+      const [linked] = await tx.update(transactions)
+        .set({
+          seriesId: series.id,
+          seriesOccurrence: 1,
+          recurrenceType: "none",
+          recurrenceDay: null,
+          isRecurring: false,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, transaction.id))
+        .returning();
     
-    const startMonth = templateDate.getMonth();
-    const startYear = templateDate.getFullYear();
-    const targetMonth = targetDate.getMonth();
-    const targetYear = targetDate.getFullYear();
+      await this.recordAudit(tx, "recurring_series", "create", [{ after: series }]);
+      await this.recordAudit(tx, "transaction", "update", [{ before: transaction, after: linked }]);
+      return series;
+    });
+  }
+
+  private async updateSeriesRows(tx: DbTransaction, seriesId: string, fields: SeriesFields, fromOccurrence: number) {
+    if (Object.keys(fields).length === 0) return;
+    const rows = and(
+      eq(transactions.seriesId, seriesId),
+      gte(transactions.seriesOccurrence, fromOccurrence)
+    );
+    const before = await tx.select().from(transactions).where(rows);
+    const after = await tx.update(transactions)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(rows)
+      .returning();
+    await this.recordAudit(tx, "transaction", "update", pairChanges(before, after));
+  }
+
+  // After a schedule change, unpaid occurrences move to their new dates and
+  // the ones past the new end are removed. Paid rows are history and stay put.
+  private async realignSeriesOccurrences(series: RecurringSeries): Promise<void> {
+    const rows = await db.query.transactions.findMany({
+      where: eq(transactions.seriesId, series.id),
+    });
     
-    const monthsDiff = (targetYear - startYear) * 12 + (targetMonth - startMonth);
+    const horizon = new Date(Math.max(Date.now(), ...rows.map(row => new Date(row.date).getTime())));
+    horizon.setFullYear(horizon.getFullYear() + 1);
+    const dates = calculateNextRecurrenceDates(series, horizon);
     
-    switch (template.recurrenceType) {
-      case "monthly":
-      case "monthly_variable":
-        const dayOfMonth = template.recurrenceDay || templateDate.getDate();
+    await this.transaction(async (tx) => {
+      for (const row of rows) {
+        if (row.status === "paid" || row.seriesOccurrence === null || row.deletedAt) continue;
         
-        for (let monthOffset = 0; monthOffset <= monthsDiff; monthOffset++) {
-          const date = new Date(startYear, startMonth + monthOffset, 1);
-          const year = date.getFullYear();
-          const month = date.getMonth();
-          const lastDay = new Date(year, month + 1, 0).getDate();
-          const actualDay = Math.min(dayOfMonth, lastDay);
-          const occurrenceDate = new Date(year, month, actualDay);
-          
-          if (occurrenceDate >= templateDate && occurrenceDate <= targetDate) {
-            dates.push(occurrenceDate);
-          }
+        const scheduled = dates[row.seriesOccurrence - 1];
+        if (!scheduled) {
+          await tx.delete(transactions).where(eq(transactions.id, row.id));
+          await this.recordAudit(tx, "transaction", "delete", [{ before: row }]);
+        } else if (scheduled.toDateString() !== new Date(row.date).toDateString()) {
+          const [moved] = await tx.update(transactions)
+            .set({ date: scheduled, updatedAt: new Date() })
+            .where(eq(transactions.id, row.id))
+            .returning();
+          await this.recordAudit(tx, "transaction", "update", [{ before: row, after: moved }]);
         }
-        break;
-        
-      case "weekly":
-        const dayOfWeek = template.recurrenceDay !== null ? template.recurrenceDay : templateDate.getDay();
-        let currentDate = new Date(templateDate);
-        currentDate.setDate(templateDate.getDate() + ((dayOfWeek - templateDate.getDay() + 7) % 7));
-        
-        while (currentDate <= targetDate) {
-          if (currentDate >= templateDate) {
-            dates.push(new Date(currentDate));
-          }
-          currentDate.setDate(currentDate.getDate() + 7);
+      }
+    });
+  }
+
+  // Before series existed the first row doubled as the series definition and
+  // occurrences were recognised by title/category/date. Convert those templates
+  // once, linking the occurrences that were generated the old way.
+  private async migrateLegacyRecurringTemplates(organizationId: string): Promise<void> {
+    const templates = (await this.getRecurringTransactions(organizationId))
+      .filter(t => !t.seriesId && t.recurrenceType && t.recurrenceType !== "none");
+    
+    for (const template of templates) {
+      const series = await this.startSeriesFromTransaction(template, template.recurrenceType!, template.recurrenceDay, {});
+      const dates = calculateNextRecurrenceDates(series, new Date());
+      
+      for (let index = 1; index < dates.length; index++) {
+        const dateStr = dates[index].toISOString().split('T')[0];
+        const conditions = [
+          eq(transactions.organizationId, organizationId),
+          eq(transactions.title, template.title),
+          isNull(transactions.seriesId),
+          sql`DATE(${transactions.date}) = ${dateStr}`
+        ];
+        if (template.categoryId) {
+          conditions.push(eq(transactions.categoryId, template.categoryId));
         }
-        break;
-        
-      case "biweekly":
-        const biweeklyDay = template.recurrenceDay !== null ? template.recurrenceDay : templateDate.getDay();
-        let biweeklyDate = new Date(templateDate);
-        biweeklyDate.setDate(templateDate.getDate() + ((biweeklyDay - templateDate.getDay() + 7) % 7));
         
-        while (biweeklyDate <= targetDate) {
-          if (biweeklyDate >= templateDate) {
-            dates.push(new Date(biweeklyDate));
-          }
-          biweeklyDate.setDate(biweeklyDate.getDate() + 14);
+        const match = await db.query.transactions.findFirst({ where: and(...conditions) });
+        if (match) {
+          await db.update(transactions)
+            .set({ seriesId: series.id, seriesOccurrence: index + 1 })
+            .where(eq(transactions.id, match.id));
         }
-        break;
+      }
+    }
+  }
+
+  async getTrash(organizationId: string): Promise<TrashContents> {
+    const cutoff = trashCutoff();
+    const [trashedTransactions, trashedCategories] = await Promise.all([
+      db.query.transactions.findMany({
+        where: and(
+          eq(transactions.organizationId, organizationId),
+          gte(transactions.deletedAt, cutoff)
+        ),
+        orderBy: [desc(transactions.deletedAt)],
+      }),
+      db.query.categories.findMany({
+        where: and(
+          eq(categories.organizationId, organizationId),
+          gte(categories.deletedAt, cutoff)
+        ),
+        orderBy: [desc(categories.deletedAt)],
+      }),
+    ]);
+    return { transactions: trashedTransactions, categories: trashedCategories };
+  }
+
+  // Permanently removes what has been in the trash longer than the retention
+  // period, across all organizations. Transactions of a purged category become
+  // uncategorized through the foreign key; installment purchases go once their
+  // installments, trashed with them, are gone.
+  async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    const cutoff = trashCutoff(now);
+    return this.transaction(async (tx) => {
+      const purgedTransactions = await tx
+        .delete(transactions)
+        .where(lt(transactions.deletedAt, cutoff))
+        .returning();
+      const purgedPurchases = await tx
+        .delete(installmentPurchases)
+        .where(lt(installmentPurchases.deletedAt, cutoff))
+        .returning();
+      const purgedCategories = await tx
+        .delete(categories)
+        .where(lt(categories.deletedAt, cutoff))
+        .returning();
       
-      case "quarterly":
-        const quarterlyDay = template.recurrenceDay || templateDate.getDate();
-        
-        for (let quarterOffset = 0; quarterOffset * 3 <= monthsDiff; quarterOffset++) {
-          const date = new Date(startYear, startMonth + (quarterOffset * 3), 1);
-          const year = date.getFullYear();
-          const month = date.getMonth();
-          const lastDay = new Date(year, month + 1, 0).getDate();
-          const actualDay = Math.min(quarterlyDay, lastDay);
-          const occurrenceDate = new Date(year, month, actualDay);
-          
-          if (occurrenceDate >= templateDate && occurrenceDate <= targetDate) {
-            dates.push(occurrenceDate);
-          }
-        }
-        break;
+      await this.recordAudit(tx, "transaction", "delete", asDeleted(purgedTransactions));
+      await this.recordAudit(tx, "installment_purchase", "delete", asDeleted(purgedPurchases));
+      await this.recordAudit(tx, "category", "delete", asDeleted(purgedCategories));
+      return purgedTransactions.length + purgedPurchases.length + purgedCategories.length;
+    });
+  }
+
+  async getAuditLogs(organizationId: string, query: AuditQuery): Promise<AuditLogWithUser[]> {
+    const conditions = [eq(auditLogs.organizationId, organizationId)];
+    if (query.entityType) conditions.push(eq(auditLogs.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditLogs.entityId, query.entityId));
+    if (query.userId) conditions.push(eq(auditLogs.userId, query.userId));
+    if (query.action) conditions.push(eq(auditLogs.action, query.action));
+    if (query.startDate) conditions.push(gte(auditLogs.createdAt, query.startDate));
+    if (query.endDate) conditions.push(lte(auditLogs.createdAt, query.endDate));
+    
+    const result = await db.query.auditLogs.findMany({
+      where: and(...conditions),
+      orderBy: [desc(auditLogs.createdAt)],
+      limit: query.limit,
+      with: {
+        user: {
+          columns: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+    });
+    return result;
+  }
+
+  // Creates the reminders due today for every bookkeeper and above of the
+  // workspace: unpaid expenses due within the member's reminder window, and
+  // those already past due. Existing reminders are left alone.
+  async syncBillNotifications(organizationId: string, now: Date = new Date()): Promise<number> {
+    const members = await db
+      .select({
+        userId: organizationMembers.userId,
+        role: organizationMembers.role,
+        reminderDays: notificationPreferences.reminderDays,
+      })
+      .from(organizationMembers)
+      .leftJoin(notificationPreferences, eq(notificationPreferences.userId, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId));
+    const recipients = members.filter(member => hasOrganizationRole(member.role, "bookkeeper"));
+    if (recipients.length === 0) return 0;
+    
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + MAX_REMINDER_DAYS, 23, 59, 59);
+    const bills = await db
+      .select({ id: transactions.id, date: transactions.date, statementDueDate: transactions.statementDueDate })
+      .from(transactions)
+      .where(and(
+        ...this.transactionConditions(organizationId, { type: "expense", endDate: horizon, dateBasis: "due" }),
+        sql`${transactions.status} IS DISTINCT FROM 'paid'`,
+        isNull(transactions.transferId)
+      ));
+    
+    const rows: Array<typeof notifications.$inferInsert> = [];
+    for (const recipient of recipients) {
+      const reminderDays = recipient.reminderDays ?? DEFAULT_REMINDER_DAYS;
+      const lastReminderDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + reminderDays, 23, 59, 59);
+      
+      for (const bill of bills) {
+        const dueDate = bill.statementDueDate ?? bill.date;
+        let kind: NotificationKind;
+        if (dueDate < startOfToday) kind = "bill_overdue";
+        else if (dueDate <= lastReminderDay) kind = "bill_due_soon";
+        else continue;
+        rows.push({ userId: recipient.userId, organizationId, transactionId: bill.id, kind, dueDate });
+      }
     }
+    if (rows.length === 0) return 0;
+    
+    const created = await db
+      .insert(notifications)
+      .values(rows)
+      .onConflictDoNothing()
+      .returning({ id: notifications.id });
+    return created.length;
+  }
+
+  async getNotifications(userId: string): Promise<NotificationList> {
+    const conditions = [
+      eq(notifications.userId, userId),
+      inArray(notifications.organizationId, memberOrganizationIds(userId)),
+      inArray(notifications.transactionId, openBillIds()),
+    ];
     
-    return dates;
+    const [items, [unread]] = await Promise.all([
+      db.query.notifications.findMany({
+        where: and(...conditions),
+        orderBy: [desc(notifications.createdAt), asc(notifications.dueDate)],
+        limit: NOTIFICATION_LIST_LIMIT,
+        with: {
+          transaction: {
+            columns: { id: true, title: true, amount: true, status: true },
+          },
+          organization: {
+            columns: { id: true, name: true },
+          },
+        },
+      }),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(notifications)
+        .where(and(...conditions, isNull(notifications.readAt))),
+    ]);
+    return { items, unreadCount: unread.count };
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [result] = await db
+      .update(notifications)
+      .set({ readAt: sql`COALESCE(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return result;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const result = await db.query.notificationPreferences.findFirst({
+      where: eq(notificationPreferences.userId, userId),
+    });
+    return result ?? { userId, reminderDays: DEFAULT_REMINDER_DAYS, emailDigest: true, updatedAt: null };
+  }
+
+  async updateNotificationPreferences(userId: string, data: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const [result] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...data })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
   }
 
-  async getAdvancedReport(userId: string, year: number, month: number): Promise<AdvancedReport> {
-    const currentMonthStart = new Date(year, month - 1, 1);
-    const currentMonthEnd = new Date(year, month, 0, 23, 59, 59);
-    const previousMonthStart = new Date(year, month - 2, 1);
-    const previousMonthEnd = new Date(year, month - 1, 0, 23, 59, 59);
+  // Reminders not emailed yet, of bills still open, for users who keep the
+  // daily digest on
+  async getDigestNotifications(): Promise<DigestNotification[]> {
+    const optedOut = db
+      .select({ userId: notificationPreferences.userId })
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.emailDigest, false));
+    const members = db
+      .select({ userId: organizationMembers.userId, organizationId: organizationMembers.organizationId })
+      .from(organizationMembers);
     
-    const currentTransactions = await this.getTransactions(userId, {
-      startDate: currentMonthStart,
-      endDate: currentMonthEnd,
+    const result = await db.query.notifications.findMany({
+      where: and(
+        isNull(notifications.emailedAt),
+        sql`${notifications.userId} NOT IN ${optedOut}`,
+        sql`(${notifications.userId}, ${notifications.organizationId}) IN ${members}`,
+        inArray(notifications.transactionId, openBillIds())
+      ),
+      orderBy: [asc(notifications.userId), asc(notifications.dueDate)],
+      with: {
+        transaction: {
+          columns: { id: true, title: true, amount: true, status: true },
+        },
+        organization: {
+          columns: { id: true, name: true },
+        },
+        user: {
+          columns: { id: true, email: true, firstName: true },
+        },
+      },
+    });
+    return result;
+  }
+
+  async markNotificationsEmailed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(notifications)
+      .set({ emailedAt: new Date() })
+      .where(inArray(notifications.id, ids));
+  }
+
+  // db.transaction that drops the cached reports of the workspaces it changed
+  // once it commits. Dropping them earlier would let a report read before the
+  // commit be cached with the old figures.
+  private async transaction<T>(run: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    const changedOrganizationIds = new Set<string>();
+    const result = await db.transaction(async (tx) => {
+      pendingReportInvalidations.set(tx, changedOrganizationIds);
+      return run(tx);
     });
+    changedOrganizationIds.forEach(invalidateReports);
+    return result;
+  }
+
+  // Appends entries with the user, route and IP of the current request (see
+  // server/auditContext.ts). Pass the transaction so entries commit with the change.
+  private async recordAudit(executor: DbExecutor, entityType: AuditEntityType, action: AuditAction, changes: AuditChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const context = getAuditContext();
+    const organizationIds = new Set<string>();
+    
+    await executor.insert(auditLogs).values(changes.map(({ before, after }) => {
+      const row = (after ?? before)!;
+      const organizationId = entityType === "organization" ? row.id : row.organizationId ?? null;
+      if (organizationId) organizationIds.add(organizationId);
+      return {
+        organizationId,
+        userId: context?.userId ?? null,
+        entityType,
+        entityId: row.id,
+        action,
+        before: toAuditJson(before),
+        after: toAuditJson(after),
+        route: context?.route ?? null,
+        ipAddress: context?.ipAddress ?? null,
+      };
+    }));
     
-    const previousTransactions = await this.getTransactions(userId, {
-      startDate: previousMonthStart,
-      endDate: previousMonthEnd,
+    // Every audited write can change a figure in the workspace's reports.
+    // Inside a transaction the cache is dropped on commit (see transaction).
+    const pending = pendingReportInvalidations.get(executor);
+    if (pending) {
+      organizationIds.forEach(id => pending.add(id));
+    } else {
+      organizationIds.forEach(invalidateReports);
+    }
+  }
+
+  async startJobRun(jobName: string): Promise<JobRun> {
+    const [run] = await db.insert(jobRuns).values({ jobName }).returning();
+    return run;
+  }
+
+  // Starts a run unless one already started since the given time. Servers
+  // sharing the database check and insert under a per-job advisory lock; the
+  // one that does not get the lock skips the run.
+  async startJobRunIfDue(jobName: string, since: Date): Promise<JobRun | undefined> {
+    return db.transaction(async (tx) => {
+      const { rows: [lock] } = await tx.execute<{ locked: boolean }>(
+        sql`SELECT pg_try_advisory_xact_lock(hashtext(${`job:${jobName}`})) AS locked`
+      );
+      if (!lock?.locked) return undefined;
+      
+      const lastRun = await tx.query.jobRuns.findFirst({
+        where: and(eq(jobRuns.jobName, jobName), gte(jobRuns.startedAt, since)),
+      });
+      if (lastRun) return undefined;
+      
+      const [run] = await tx.insert(jobRuns).values({ jobName }).returning();
+      return run;
+    });
+  }
+
+  async finishJobRun(
+    id: string,
+    result: JobRunResult,
+  ): Promise<JobRun | undefined> {
+    const [run] = await db
+      .update(jobRuns)
+      .set({
+        ...result,
+        status: result.errors.length > 0 ? "failed" : "succeeded",
+        finishedAt: new Date(),
+      })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getJobRuns(jobName?: string, limit: number = 50): Promise<JobRun[]> {
+    return await db.query.jobRuns.findMany({
+      where: jobName ? eq(jobRuns.jobName, jobName) : undefined,
+      orderBy: [desc(jobRuns.startedAt)],
+      limit,
     });
+  }
+
+  async getAdvancedReport(organizationId: string, year: number, month: number, dateBasis: ReportDateBasis = "purchase"): Promise<AdvancedReport> {
+    return cachedReport(organizationId, `advanced:${year}-${month}:${dateBasis}`, () =>
+      this.buildAdvancedReport(organizationId, year, month, dateBasis)
+    );
+  }
+
+  private async buildAdvancedReport(organizationId: string, year: number, month: number, dateBasis: ReportDateBasis): Promise<AdvancedReport> {
+    const [currentRows, previousRows] = await Promise.all([
+      this.aggregateByCategory(organizationId, monthFilters(year, month, dateBasis)),
+      this.aggregateByCategory(organizationId, monthFilters(year, month - 1, dateBasis)),
+    ]);
+    const current = totalsOf(currentRows);
     
-    const totalExpenses = currentTransactions.reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const paidExpenses = currentTransactions.filter(t => t.status === "paid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const unpaidExpenses = currentTransactions.filter(t => t.status === "unpaid").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
-    const recurringExpenses = currentTransactions.filter(t => t.isRecurring || t.recurrenceType !== "none").reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
+    const totalExpenses = current.expenses;
+    const paidExpenses = current.paidExpenses;
+    const unpaidExpenses = current.unpaidExpenses;
+    const recurringExpenses = current.recurringExpenses;
     const oneTimeExpenses = totalExpenses - recurringExpenses;
-    const averageTransactionValue = currentTransactions.length > 0 ? totalExpenses / currentTransactions.length : 0;
+    const averageTransactionValue = current.expenseCount > 0 ? totalExpenses / current.expenseCount : 0;
     
-    const previousTotal = previousTransactions.reduce((sum, t) => sum + safeParseAmount(t.amount), 0);
+    const totalIncome = current.income;
+    const receivedIncome = current.receivedIncome;
+    const pendingIncome = totalIncome - receivedIncome;
+    const netResult = totalIncome - totalExpenses;
+    const savingsRate = totalIncome > 0 ? (netResult / totalIncome) * 100 : 0;
     
-    const userCategories = await this.getCategories(userId);
+    const previousTotal = totalsOf(previousRows).expenses;
+    
+    const userCategories = await this.getCategories(organizationId);
     const categoryLookup = new Map(userCategories.map(c => [c.id, c]));
     
     const currentCategoryMap = new Map<string, { total: number; count: number; categoryId: string | null; name: string; color: string }>();
     const previousCategoryMap = new Map<string, number>();
     
-    for (const transaction of currentTransactions) {
-      const catId = transaction.categoryId || "uncategorized";
-      const category = transaction.categoryId ? categoryLookup.get(transaction.categoryId) : null;
-      
-      if (!currentCategoryMap.has(catId)) {
-        currentCategoryMap.set(catId, {
-          total: 0,
-          count: 0,
-          categoryId: transaction.categoryId,
-          name: category?.name || "Sem Categoria",
-          color: category?.color || "#64748B",
-        });
-      }
-      
-      const summary = currentCategoryMap.get(catId)!;
-      summary.total += safeParseAmount(transaction.amount);
-      summary.count += 1;
+    for (const row of currentRows.filter(r => r.kind === "expense")) {
+      currentCategoryMap.set(row.categoryId || "uncategorized", {
+        total: row.total,
+        count: row.count,
+        categoryId: row.categoryId,
+        name: row.categoryName || "Sem Categoria",
+        color: row.categoryColor || "#64748B",
+      });
     }
     
-    for (const transaction of previousTransactions) {
-      const catId = transaction.categoryId || "uncategorized";
-      const current = previousCategoryMap.get(catId) || 0;
-      previousCategoryMap.set(catId, current + safeParseAmount(transaction.amount));
+    for (const row of previousRows.filter(r => r.kind === "expense")) {
+      previousCategoryMap.set(row.categoryId || "uncategorized", row.total);
     }
     
+    const userBudgets = await this.getBudgets(organizationId);
+    
+    const budgetProgress: BudgetProgress[] = userBudgets.map(budget => {
+      const category = categoryLookup.get(budget.categoryId);
+      const amount = safeParseAmount(budget.amount);
+      const spent = currentCategoryMap.get(budget.categoryId)?.total || 0;
+      const previousSpent = previousCategoryMap.get(budget.categoryId) || 0;
+      const rolloverAmount = budget.rollover ? Math.max(0, amount - previousSpent) : 0;
+      const available = amount + rolloverAmount;
+      const projectedTotal = projectMonthlyTotal(spent, year, month);
+      
+      return {
+        budgetId: budget.id,
+        categoryId: budget.categoryId,
+        categoryName: category?.name || "Sem Categoria",
+        categoryColor: category?.color || "#64748B",
+        amount,
+        rollover: budget.rollover ?? false,
+        rolloverAmount,
+        available,
+        spent,
+        remaining: available - spent,
+        usedPercent: available > 0 ? (spent / available) * 100 : 0,
+        projectedTotal,
+        isOverBudget: spent > available,
+        isProjectedOverBudget: projectedTotal > available,
+      };
+    }).sort((a, b) => b.usedPercent - a.usedPercent);
+    const progressByCategory = new Map(budgetProgress.map(p => [p.categoryId, p]));
+    
     const categoryRankings: CategoryRanking[] = Array.from(currentCategoryMap.entries()).map(([catId, data], index) => {
       const previousAmount = previousCategoryMap.get(catId) || 0;
       const change = data.total - previousAmount;
@@ -671,6 +3741,9 @@ export class DatabaseStorage implements IStorage {
         averageValue: data.count > 0 ? data.total / data.count : 0,
         trend,
         trendPercent: changePercent,
+        budget: progressByCategory.get(catId)?.available ?? null,
+        projectedTotal: projectMonthlyTotal(data.total, year, month),
+        isProjectedOverBudget: progressByCategory.get(catId)?.isProjectedOverBudget ?? false,
       };
     }).sort((a, b) => b.total - a.total);
     
@@ -684,10 +3757,9 @@ export class DatabaseStorage implements IStorage {
     const paymentComplianceRate = totalExpenses > 0 ? (paidExpenses / totalExpenses) * 100 : 0;
     const recurringVsOneTimeRatio = oneTimeExpenses > 0 ? recurringExpenses / oneTimeExpenses : 0;
     const categoryDiversity = currentCategoryMap.size;
+    const incomeByCategory = this.summarizeByCategory(currentRows.filter(r => r.kind === "income"), totalIncome);
     
-    const daysInMonth = new Date(year, month, 0).getDate();
-    const currentDay = new Date().getDate();
-    const projectedMonthlyTotal = currentDay > 0 ? (totalExpenses / currentDay) * daysInMonth : totalExpenses;
+    const projectedMonthlyTotal = projectMonthlyTotal(totalExpenses, year, month);
     
     return {
       overview: {
@@ -699,6 +3771,15 @@ export class DatabaseStorage implements IStorage {
         averageTransactionValue,
       },
       categoryRankings,
+      budgets: budgetProgress,
+      cashFlow: {
+        totalIncome,
+        receivedIncome,
+        pendingIncome,
+        netResult,
+        savingsRate,
+      },
+      incomeByCategory,
       trends: {
         monthOverMonthChange,
         monthOverMonthChangePercent,
@@ -713,6 +3794,46 @@ export class DatabaseStorage implements IStorage {
       },
     };
   }
+
+  async getConsolidatedReport(userId: string, year: number, month: number): Promise<ConsolidatedReport> {
+    const organizationsWithRole = await this.getUserOrganizations(userId);
+    
+    const workspaces = await Promise.all(organizationsWithRole.map(async (organization) => {
+      const [monthRows, accounts] = await Promise.all([
+        this.aggregateByCategory(organization.id, monthFilters(year, month)),
+        this.getFinancialAccounts(organization.id),
+      ]);
+      const { income: totalIncome, expenses: totalExpenses } = totalsOf(monthRows);
+      
+      return {
+        organizationId: organization.id,
+        name: organization.name,
+        kind: organization.kind,
+        role: organization.role,
+        income: totalIncome,
+        expenses: totalExpenses,
+        netResult: totalIncome - totalExpenses,
+        accountsBalance: accounts
+          .filter(a => !a.isArchived)
+          .reduce((sum, a) => sum + a.currentBalance, 0),
+      };
+    }));
+    
+    const total = (key: "income" | "expenses" | "netResult" | "accountsBalance") =>
+      workspaces.reduce((sum, w) => sum + w[key], 0);
+    
+    return {
+      year,
+      month,
+      workspaces,
+      totals: {
+        income: total("income"),
+        expenses: total("expenses"),
+        netResult: total("netResult"),
+        accountsBalance: total("accountsBalance"),
+      },
+    };
+  }
 }
 
 export const storage = new DatabaseStorage();
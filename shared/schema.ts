@@ -3,6 +3,7 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -11,6 +12,7 @@ import {
   decimal,
   boolean,
   integer,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -34,73 +36,580 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  // Legacy account mode, superseded by organizations.kind. Only read when the
+  // user's first organization is created from their existing data.
   accountType: varchar("account_type", { enum: ["personal", "business"] }).default("personal"),
   companyName: varchar("company_name"),
   cnpj: varchar("cnpj"),
+  isAdmin: boolean("is_admin").notNull().default(false), // Set directly in the database
+  // Set once the user opens the link sent to their email (or resets their password through it)
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Two-factor authentication: the secret is saved when setup starts and only
+  // required at login once totpEnabledAt is set
+  totpSecret: varchar("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One-time codes that replace the authenticator app when it is lost. Stored
+// hashed, like auth tokens; a used code stays with usedAt set.
+export const recoveryCodes = pgTable(
+  "recovery_codes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    codeHash: varchar("code_hash").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_recovery_codes_user_code").on(table.userId, table.codeHash)],
+);
+
+// Every local sign-in attempt, kept to throttle guessing and to show users
+// who tried to get into their account. Attempts refused while throttled are
+// stored as "blocked" and do not extend the lockout.
+export const LOGIN_ATTEMPT_RESULTS = ["success", "invalid_password", "invalid_code", "blocked"] as const;
+export type LoginAttemptResult = typeof LOGIN_ATTEMPT_RESULTS[number];
+
+export const loginAttempts = pgTable(
+  "login_attempts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    // Null when the email has no account
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+    email: varchar("email").notNull(),
+    ipAddress: varchar("ip_address"),
+    userAgent: text("user_agent"),
+    result: varchar("result", { enum: LOGIN_ATTEMPT_RESULTS }).notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_login_attempts_email_created").on(table.email, table.createdAt),
+    index("IDX_login_attempts_ip_created").on(table.ipAddress, table.createdAt),
+    index("IDX_login_attempts_user_created").on(table.userId, table.createdAt),
+  ],
+);
+
+// Single-use links sent by email for local accounts. Only a SHA-256 hash of
+// the token is stored; the token itself exists only in the email.
+export const AUTH_TOKEN_PURPOSES = ["password_reset", "email_verification"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    purpose: varchar("purpose", { enum: AUTH_TOKEN_PURPOSES }).notNull(),
+    tokenHash: varchar("token_hash").unique().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_auth_tokens_user_purpose").on(table.userId, table.purpose)],
+);
+
+// Personal access tokens for scripts and BI tools (Authorization: Bearer on
+// /api/v1). Each one acts as its user inside a single organization, limited
+// to the resources in scopes; write access includes read. Only a SHA-256
+// hash is stored, the token is shown once when created.
+export const API_TOKEN_RESOURCES = ["transactions", "categories", "accounts", "budgets", "reports"] as const;
+export type ApiTokenResource = typeof API_TOKEN_RESOURCES[number];
+
+export const API_TOKEN_ACCESS_LEVELS = ["read", "write"] as const;
+export type ApiTokenAccess = typeof API_TOKEN_ACCESS_LEVELS[number];
+
+export type ApiTokenScopes = Partial<Record<ApiTokenResource, ApiTokenAccess>>;
+
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    organizationId: varchar("organization_id").notNull().references((): AnyPgColumn => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    // First characters of the token, so users can tell their tokens apart
+    tokenPrefix: varchar("token_prefix").notNull(),
+    tokenHash: varchar("token_hash").unique().notNull(),
+    scopes: jsonb("scopes").$type<ApiTokenScopes>().notNull(),
+    // Null for tokens that never expire
+    expiresAt: timestamp("expires_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_api_tokens_user").on(table.userId)],
+);
+
+// Organization roles, from least to most privileged. Viewers only read,
+// bookkeepers record data, admins also manage members and owners manage admins.
+export const ORGANIZATION_ROLES = ["viewer", "bookkeeper", "admin", "owner"] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export function hasOrganizationRole(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ORGANIZATION_ROLES.indexOf(role) >= ORGANIZATION_ROLES.indexOf(required);
+}
+
+// A personal ledger or a company (PJ) one; the same user can own both
+export const WORKSPACE_KINDS = ["personal", "business"] as const;
+export type WorkspaceKind = typeof WORKSPACE_KINDS[number];
+
+// Organizations (workspaces) own the financial data below. Every user gets one
+// on first access and can invite others into it. In the data tables userId is
+// the member who created the row; organizationId is only null on rows from
+// before organizations existed, until they are adopted on first access.
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  kind: varchar("kind", { enum: WORKSPACE_KINDS }).notNull().default("personal"),
+  companyName: varchar("company_name"), // Business only
+  cnpj: varchar("cnpj"), // Business only, digits only
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role", { enum: ORGANIZATION_ROLES }).notNull().default("viewer"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_organization_members_user").on(table.organizationId, table.userId)],
+);
+
+// Invitations are accepted by the user signed in with the invited email
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull(),
+  role: varchar("role", { enum: ORGANIZATION_ROLES }).notNull(),
+  // sha256 of the token in the link; the token itself is only shown on creation
+  tokenHash: varchar("token_hash").unique().notNull(),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Categories table - user-created and default categories
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name").notNull(),
   color: varchar("color").default("#10B981"), // Default green
   icon: varchar("icon"), // Optional icon name from lucide-react
   isDefault: boolean("is_default").default(false), // Default categories can't be deleted
+  // Set while the category is in the trash; transactions keep pointing to it
+  // so restoring brings the links back
+  deletedAt: timestamp("deleted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Financial accounts - where the money is: bank accounts, cards and cash.
+// The current balance is the opening balance plus the account's paid transactions.
+export const financialAccounts = pgTable("financial_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  type: varchar("type", { enum: ["checking", "savings", "credit_card", "cash"] }).notNull().default("checking"),
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).notNull().default("0"),
+  color: varchar("color").default("#3B82F6"),
+  isArchived: boolean("is_archived").notNull().default(false), // Hidden from pickers, balance still counted
+  // Credit cards only - statement closing and payment days (1-31)
+  closingDay: integer("closing_day"),
+  dueDay: integer("due_day"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Credit card purchase paid in installments ("parcelado em 10x"). Each
+// installment is a transaction row billed in a later statement.
+export const installmentPurchases = pgTable("installment_purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").notNull().references(() => financialAccounts.id, { onDelete: "restrict" }),
+  categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
+  title: varchar("title").notNull(),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  installmentCount: integer("installment_count").notNull(),
+  purchaseDate: timestamp("purchase_date").notNull(),
+  notes: text("notes"),
+  // Set while the purchase and its installments are in the trash
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Transactions table - all financial transactions
-export const transactions = pgTable("transactions", {
+export const transactions = pgTable(
+  "transactions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
+    // Required by the API; rows from before accounts existed are moved to the
+    // user's default account on first access
+    accountId: varchar("account_id").references(() => financialAccounts.id, { onDelete: "restrict" }),
+    title: varchar("title").notNull(),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    // Direction of the money flow - expenses go out, income comes in
+    type: varchar("type", { enum: ["expense", "income"] }).notNull().default("expense"),
+    date: timestamp("date").notNull(),
+    status: varchar("status", { enum: ["paid", "unpaid"] }).default("unpaid"),
+    notes: text("notes"),
+    // Recurrence settings
+    recurrenceType: varchar("recurrence_type", { 
+      enum: ["none", "monthly", "weekly", "biweekly", "monthly_variable", "quarterly"] 
+    }).default("none"),
+    recurrenceDay: integer("recurrence_day"), // Day of month (1-31) or day of week (0-6)
+    isRecurring: boolean("is_recurring").default(false),
+    // Occurrences of a recurring series point back to it; the 1-based occurrence
+    // number identifies the scheduled slot even after the row is renamed or moved
+    seriesId: varchar("series_id").references((): AnyPgColumn => recurringSeries.id, { onDelete: "set null" }),
+    seriesOccurrence: integer("series_occurrence"),
+    // Both legs of a transfer between accounts share this id: an expense on the
+    // source account and an income on the destination. Reports ignore them.
+    transferId: varchar("transfer_id"),
+    // Installment rows keep the purchase date; the statement they are billed in
+    // is given by statementDueDate (set for every row on a credit card)
+    installmentPurchaseId: varchar("installment_purchase_id").references(() => installmentPurchases.id, { onDelete: "cascade" }),
+    installmentNumber: integer("installment_number"),
+    statementDueDate: timestamp("statement_due_date"),
+    deletedAt: timestamp("deleted_at"), // Set while the row is in the trash
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    // Full-text search over title and notes; the expression must match the one
+    // used by the transactions list query
+    index("IDX_transactions_search").using(
+      "gin",
+      sql`to_tsvector('portuguese', ${table.title} || ' ' || coalesce(${table.notes}, ''))`,
+    ),
+  ],
+);
+
+// Deleted transactions and categories stay in the trash this long before the
+// daily purge removes them for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// Recurring series - the definition that occurrences are generated from
+export const recurringSeries = pgTable("recurring_series", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
+  accountId: varchar("account_id").references(() => financialAccounts.id, { onDelete: "restrict" }),
   title: varchar("title").notNull(),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
-  date: timestamp("date").notNull(),
-  status: varchar("status", { enum: ["paid", "unpaid"] }).default("unpaid"),
+  type: varchar("type", { enum: ["expense", "income"] }).notNull().default("expense"),
   notes: text("notes"),
-  // Recurrence settings
-  recurrenceType: varchar("recurrence_type", { 
-    enum: ["none", "monthly", "weekly", "biweekly", "monthly_variable", "quarterly"] 
-  }).default("none"),
+  recurrenceType: varchar("recurrence_type", {
+    enum: ["monthly", "weekly", "biweekly", "monthly_variable", "quarterly"]
+  }).notNull(),
   recurrenceDay: integer("recurrence_day"), // Day of month (1-31) or day of week (0-6)
-  isRecurring: boolean("is_recurring").default(false),
+  startDate: timestamp("start_date").notNull(),
+  // Optional limits - the series stops at whichever comes first
+  endDate: timestamp("end_date"),
+  maxOccurrences: integer("max_occurrences"),
+  // Occurrence numbers cancelled individually, so they are not generated again
+  skippedOccurrences: integer("skipped_occurrences").array().notNull().default(sql`'{}'::integer[]`),
+  isActive: boolean("is_active").notNull().default(true),
+  // Limits the series had before a "following" or "all" delete ended it;
+  // restoring the occurrences trashed by that delete puts them back
+  endedLimits: jsonb("ended_limits").$type<SeriesLimits>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Monthly financial settings - revenue, accumulated balance
-export const monthlyFinancials = pgTable("monthly_financials", {
+export const monthlyFinancials = pgTable(
+  "monthly_financials",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    year: integer("year").notNull(),
+    month: integer("month").notNull(), // 1-12
+    monthlyRevenue: decimal("monthly_revenue", { precision: 12, scale: 2 }).default("0"),
+    // Opening balance typed by the user; when not manual it is computed from
+    // the previous months on read and this column is ignored
+    accumulatedBalance: decimal("accumulated_balance", { precision: 12, scale: 2 }).default("0"),
+    // When true the opening balance was typed by the user and is not rolled forward
+    isBalanceManual: boolean("is_balance_manual").default(false),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_monthly_financials_period").on(table.organizationId, table.year, table.month)],
+);
+
+// Budgets table - monthly spending limit per category
+export const budgets = pgTable(
+  "budgets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    categoryId: varchar("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+    // Unused budget from the previous month is added to the current month
+    rollover: boolean("rollover").default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_budgets_category").on(table.organizationId, table.categoryId)],
+);
+
+// Saved column mappings for bank CSV exports, reused across imports
+export const importMappings = pgTable("import_mappings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  year: integer("year").notNull(),
-  month: integer("month").notNull(), // 1-12
-  monthlyRevenue: decimal("monthly_revenue", { precision: 12, scale: 2 }).default("0"),
-  accumulatedBalance: decimal("accumulated_balance", { precision: 12, scale: 2 }).default("0"),
-  notes: text("notes"),
+  name: varchar("name").notNull(), // e.g. "Nubank - Cartão"
+  delimiter: varchar("delimiter").notNull().default(","),
+  hasHeader: boolean("has_header").notNull().default(true),
+  // Zero-based column positions in the CSV
+  dateColumn: integer("date_column").notNull(),
+  titleColumn: integer("title_column").notNull(),
+  amountColumn: integer("amount_column").notNull(),
+  dateFormat: varchar("date_format", { enum: ["dd/MM/yyyy", "yyyy-MM-dd", "MM/dd/yyyy"] }).notNull().default("dd/MM/yyyy"),
+  decimalSeparator: varchar("decimal_separator", { enum: [",", "."] }).notNull().default(","),
+  // Checking account exports use negative values for debits, card exports list purchases as positive
+  amountSign: varchar("amount_sign", { enum: ["negative_is_expense", "positive_is_expense"] }).notNull().default("negative_is_expense"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// User-defined rules that pick a category for new transactions.
+// All filled conditions must match; the lowest priority number wins.
+export const categoryRules = pgTable("category_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  categoryId: varchar("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+  titleContains: varchar("title_contains"), // case and accent insensitive, e.g. "UBER"
+  minAmount: decimal("min_amount", { precision: 12, scale: 2 }),
+  maxAmount: decimal("max_amount", { precision: 12, scale: 2 }),
+  type: varchar("type", { enum: ["expense", "income"] }), // null matches both
+  priority: integer("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Background job runs (e.g. the daily recurrence generation), kept as history
+export const jobRuns = pgTable(
+  "job_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobName: varchar("job_name").notNull(),
+    status: varchar("status", { enum: ["running", "succeeded", "failed"] }).notNull().default("running"),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    finishedAt: timestamp("finished_at"),
+    organizationsProcessed: integer("organizations_processed").notNull().default(0),
+    rowsCreated: integer("rows_created").notNull().default(0),
+    rowsDeleted: integer("rows_deleted").notNull().default(0),
+    errors: jsonb("errors").$type<JobRunError[]>().notNull().default([]),
+  },
+  (table) => [index("IDX_job_runs_name_started").on(table.jobName, table.startedAt)],
+);
+
+// Append-only history of every create/update/delete made through the storage
+// layer: who (userId), what (before/after snapshots), where (route, IP), when.
+// userId is null for background jobs.
+export const AUDIT_ENTITY_TYPES = [
+  "organization",
+  "organization_member",
+  "organization_invitation",
+  "category",
+  "budget",
+  "category_rule",
+  "financial_account",
+  "transaction",
+  "recurring_series",
+  "installment_purchase",
+  "import_mapping",
+  "monthly_financial",
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+    entityType: varchar("entity_type", { enum: AUDIT_ENTITY_TYPES }).notNull(),
+    entityId: varchar("entity_id").notNull(),
+    action: varchar("action", { enum: AUDIT_ACTIONS }).notNull(),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    route: varchar("route"), // e.g. "PATCH /api/transactions/<id>", or "job:<name>" for background jobs
+    ipAddress: varchar("ip_address"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_audit_logs_organization_created").on(table.organizationId, table.createdAt),
+    index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  ],
+);
+
+// Reminders of unpaid bills. Each bill gets at most one notification of each
+// kind per user, so the daily job can run again without repeating itself.
+export const NOTIFICATION_KINDS = ["bill_due_soon", "bill_overdue"] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const DEFAULT_REMINDER_DAYS = 3;
+export const MAX_REMINDER_DAYS = 30;
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    transactionId: varchar("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+    kind: varchar("kind", { enum: NOTIFICATION_KINDS }).notNull(),
+    // When the bill is due: the statement due date for card purchases
+    dueDate: timestamp("due_date").notNull(),
+    readAt: timestamp("read_at"),
+    // Set once the notification went out in a daily email digest
+    emailedAt: timestamp("emailed_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_notifications_bill").on(table.userId, table.transactionId, table.kind),
+    index("IDX_notifications_user_created").on(table.userId, table.createdAt),
+  ],
+);
+
+// Per-user reminder settings; users without a row get the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  // Bills due within this many days are announced as upcoming
+  reminderDays: integer("reminder_days").notNull().default(DEFAULT_REMINDER_DAYS),
+  emailDigest: boolean("email_digest").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
+  organizationMemberships: many(organizationMembers),
   categories: many(categories),
   transactions: many(transactions),
   monthlyFinancials: many(monthlyFinancials),
+  budgets: many(budgets),
+  importMappings: many(importMappings),
+  categoryRules: many(categoryRules),
+  recurringSeries: many(recurringSeries),
+  financialAccounts: many(financialAccounts),
+  installmentPurchases: many(installmentPurchases),
+  auditLogs: many(auditLogs),
+  notifications: many(notifications),
+  authTokens: many(authTokens),
+  recoveryCodes: many(recoveryCodes),
+  loginAttempts: many(loginAttempts),
+  apiTokens: many(apiTokens),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [loginAttempts.userId],
+    references: [users.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [apiTokens.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+  invitations: many(organizationInvitations),
+  categories: many(categories),
+  transactions: many(transactions),
+  monthlyFinancials: many(monthlyFinancials),
+  budgets: many(budgets),
+  importMappings: many(importMappings),
+  categoryRules: many(categoryRules),
+  recurringSeries: many(recurringSeries),
+  financialAccounts: many(financialAccounts),
+  installmentPurchases: many(installmentPurchases),
+  auditLogs: many(auditLogs),
+  apiTokens: many(apiTokens),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvitations.organizationId],
+    references: [organizations.id],
+  }),
+  inviter: one(users, {
+    fields: [organizationInvitations.invitedBy],
+    references: [users.id],
+  }),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [categories.organizationId],
+    references: [organizations.id],
+  }),
   user: one(users, {
     fields: [categories.userId],
     references: [users.id],
   }),
   transactions: many(transactions),
+  budgets: many(budgets),
+  categoryRules: many(categoryRules),
 }));
 
 export const transactionsRelations = relations(transactions, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [transactions.organizationId],
+    references: [organizations.id],
+  }),
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
@@ -109,28 +618,191 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
     fields: [transactions.categoryId],
     references: [categories.id],
   }),
+  series: one(recurringSeries, {
+    fields: [transactions.seriesId],
+    references: [recurringSeries.id],
+  }),
+  account: one(financialAccounts, {
+    fields: [transactions.accountId],
+    references: [financialAccounts.id],
+  }),
+  installmentPurchase: one(installmentPurchases, {
+    fields: [transactions.installmentPurchaseId],
+    references: [installmentPurchases.id],
+  }),
+}));
+
+export const financialAccountsRelations = relations(financialAccounts, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [financialAccounts.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [financialAccounts.userId],
+    references: [users.id],
+  }),
+  transactions: many(transactions),
+  installmentPurchases: many(installmentPurchases),
+}));
+
+export const installmentPurchasesRelations = relations(installmentPurchases, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [installmentPurchases.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [installmentPurchases.userId],
+    references: [users.id],
+  }),
+  account: one(financialAccounts, {
+    fields: [installmentPurchases.accountId],
+    references: [financialAccounts.id],
+  }),
+  category: one(categories, {
+    fields: [installmentPurchases.categoryId],
+    references: [categories.id],
+  }),
+  installments: many(transactions),
+}));
+
+export const recurringSeriesRelations = relations(recurringSeries, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [recurringSeries.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [recurringSeries.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [recurringSeries.categoryId],
+    references: [categories.id],
+  }),
+  account: one(financialAccounts, {
+    fields: [recurringSeries.accountId],
+    references: [financialAccounts.id],
+  }),
+  occurrences: many(transactions),
 }));
 
 export const monthlyFinancialsRelations = relations(monthlyFinancials, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [monthlyFinancials.organizationId],
+    references: [organizations.id],
+  }),
   user: one(users, {
     fields: [monthlyFinancials.userId],
     references: [users.id],
   }),
 }));
 
+export const budgetsRelations = relations(budgets, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [budgets.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [budgets.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [budgets.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const importMappingsRelations = relations(importMappings, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [importMappings.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [importMappings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const categoryRulesRelations = relations(categoryRules, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [categoryRules.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [categoryRules.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categoryRules.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [auditLogs.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [auditLogs.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [notifications.organizationId],
+    references: [organizations.id],
+  }),
+  transaction: one(transactions, {
+    fields: [notifications.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
   firstName: true,
   lastName: true,
   profileImageUrl: true,
-  accountType: true,
-  companyName: true,
-  cnpj: true,
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  kind: z.enum(WORKSPACE_KINDS).default("personal"),
+  companyName: z.string().trim().nullable().optional(),
+  // Accepts formatted input (00.000.000/0000-00) and stores the digits
+  cnpj: z.string()
+    .transform(value => value.replace(/\D/g, ""))
+    .refine(value => value.length === 14, "CNPJ deve ter 14 dígitos")
+    .nullable()
+    .optional(),
+});
+
+export const updateOrganizationSchema = insertOrganizationSchema.partial();
+
+export const organizationRoleSchema = z.enum(ORGANIZATION_ROLES);
+
+export const insertOrganizationInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Email inválido"),
+  role: organizationRoleSchema,
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: organizationRoleSchema,
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
+  deletedAt: true,
   createdAt: true,
 });
 
@@ -138,15 +810,261 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  // Series links are managed by the recurrence processing only
+  seriesId: true,
+  seriesOccurrence: true,
+  // Transfers and installments have their own endpoints; the statement is derived
+  transferId: true,
+  installmentPurchaseId: true,
+  installmentNumber: true,
+  statementDueDate: true,
+  deletedAt: true,
 }).extend({
+  organizationId: z.string(),
+  accountId: z.string({ required_error: "Selecione uma conta" }).min(1, "Selecione uma conta"),
   amount: z.string().or(z.number()),
   date: z.string().or(z.date()),
+  type: z.enum(["expense", "income"]).default("expense"),
+});
+
+export const insertFinancialAccountSchema = createInsertSchema(financialAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Nome é obrigatório"),
+  openingBalance: z.string().or(z.number()).default(0),
+  closingDay: z.number().int().min(1).max(31).nullable().optional(),
+  dueDay: z.number().int().min(1).max(31).nullable().optional(),
+});
+
+export const updateFinancialAccountSchema = insertFinancialAccountSchema.omit({ userId: true, organizationId: true }).partial();
+
+export const insertInstallmentPurchaseSchema = createInsertSchema(installmentPurchases).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  organizationId: z.string(),
+  accountId: z.string().min(1, "Selecione um cartão"),
+  title: z.string().min(1, "Digite uma descrição"),
+  totalAmount: z.coerce.number().positive("O valor deve ser maior que zero"),
+  installmentCount: z.coerce.number().int().min(2, "Mínimo de 2 parcelas").max(48, "Máximo de 48 parcelas"),
+  purchaseDate: z.string().or(z.date()),
+});
+
+// Reports group card spending by purchase date (default) or by statement due date
+export const reportDateBasisSchema = z.enum(["purchase", "due"]).catch("purchase");
+
+// Months ending at year/month (default: the current month), oldest first
+export const REPORT_SERIES_MAX_MONTHS = 36;
+
+export const reportSeriesQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+  months: z.coerce.number().int().min(1).max(REPORT_SERIES_MAX_MONTHS).default(6),
+  basis: reportDateBasisSchema,
+});
+
+// Custom ranges are split into calendar months, quarters or years
+export const REPORT_GROUP_BY = ["month", "quarter", "year"] as const;
+export const REPORT_RANGE_MAX_YEARS = 10;
+// Rolling averages cover the period itself and the ones before it
+export const REPORT_ROLLING_WINDOW = 3;
+
+export const reportRangeQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  groupBy: z.enum(REPORT_GROUP_BY).default("month"),
+  basis: reportDateBasisSchema,
+}).refine((query) => query.from <= query.to, {
+  message: "A data inicial deve ser anterior à final",
+  path: ["to"],
+}).refine((query) => query.to.getTime() - query.from.getTime() <= REPORT_RANGE_MAX_YEARS * 366 * 24 * 60 * 60 * 1000, {
+  message: `O período pode ter no máximo ${REPORT_RANGE_MAX_YEARS} anos`,
+  path: ["to"],
+});
+
+// Cash-flow forecast horizon, in months from today
+export const FORECAST_MIN_MONTHS = 3;
+export const FORECAST_MAX_MONTHS = 12;
+
+export const forecastQuerySchema = z.object({
+  months: z.coerce.number().int().min(FORECAST_MIN_MONTHS).max(FORECAST_MAX_MONTHS).default(FORECAST_MIN_MONTHS),
+});
+
+export const insertTransferSchema = z.object({
+  fromAccountId: z.string().min(1, "Selecione a conta de origem"),
+  toAccountId: z.string().min(1, "Selecione a conta de destino"),
+  amount: z.coerce.number().positive("O valor deve ser maior que zero"),
+  date: z.string().or(z.date()),
+  title: z.string().min(1).default("Transferência"),
+  notes: z.string().nullable().optional(),
+  status: z.enum(["paid", "unpaid"]).default("paid"),
+}).refine(data => data.fromAccountId !== data.toAccountId, {
+  message: "As contas de origem e destino devem ser diferentes",
+  path: ["toAccountId"],
+});
+
+// End conditions sent alongside a recurring transaction
+export const recurrenceLimitsSchema = z.object({
+  endDate: z.string().or(z.date()).nullable().optional(),
+  maxOccurrences: z.number().int().positive().nullable().optional(),
+});
+
+// Which occurrences of a series an edit or cancellation applies to
+export const recurrenceScopeSchema = z.enum(["this", "following", "all"]).default("this");
+
+export const TRANSACTION_SORT_FIELDS = ["date", "amount", "title"] as const;
+export const TRANSACTION_PAGE_SIZE_MAX = 1000;
+
+// Query string of GET /api/transactions: filters, full-text search, sorting and paging
+export const transactionListQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  categoryId: z.string().optional(),
+  accountId: z.string().optional(),
+  status: z.enum(["paid", "unpaid"]).optional(),
+  type: z.enum(["expense", "income"]).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  sort: z.enum(TRANSACTION_SORT_FIELDS).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(TRANSACTION_PAGE_SIZE_MAX).default(50),
+});
+
+export const BULK_TRANSACTION_LIMIT = 500;
+
+// One patch applied to every selected row: any mix of status, category and a
+// date shift in days, or moving them all to the trash
+export const bulkTransactionSchema = z.object({
+  ids: z.array(z.string().min(1))
+    .min(1, "Selecione ao menos uma transação")
+    .max(BULK_TRANSACTION_LIMIT, `Selecione no máximo ${BULK_TRANSACTION_LIMIT} transações`),
+  status: z.enum(["paid", "unpaid"]).optional(),
+  categoryId: z.string().min(1).nullable().optional(),
+  dateOffsetDays: z.number().int().min(-366).max(366).optional(),
+  delete: z.boolean().optional(),
+}).refine(data => data.status !== undefined || data.categoryId !== undefined || !!data.dateOffsetDays || data.delete, {
+  message: "Escolha uma ação",
+}).refine(data => !data.delete || (data.status === undefined && data.categoryId === undefined && !data.dateOffsetDays), {
+  message: "A exclusão não pode ser combinada com outras alterações",
+  path: ["delete"],
+});
+
+export const insertBudgetSchema = createInsertSchema(budgets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  amount: z.string().or(z.number()).refine((value) => Number(value) > 0, "O orçamento deve ser maior que zero"),
+});
+
+export const insertImportMappingSchema = createInsertSchema(importMappings).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Dê um nome para o mapeamento"),
+  delimiter: z.string().length(1, "Separador deve ter um caractere"),
+  hasHeader: z.boolean().default(true),
+  dateFormat: z.enum(["dd/MM/yyyy", "yyyy-MM-dd", "MM/dd/yyyy"]).default("dd/MM/yyyy"),
+  decimalSeparator: z.enum([",", "."]).default(","),
+  amountSign: z.enum(["negative_is_expense", "positive_is_expense"]).default("negative_is_expense"),
+  dateColumn: z.number().int().min(0),
+  titleColumn: z.number().int().min(0),
+  amountColumn: z.number().int().min(0),
+});
+
+const categoryRuleFieldsSchema = createInsertSchema(categoryRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  titleContains: z.string().trim().max(100).nullable().optional(),
+  minAmount: z.string().or(z.number()).nullable().optional(),
+  maxAmount: z.string().or(z.number()).nullable().optional(),
+  type: z.enum(["expense", "income"]).nullable().optional(),
+});
+
+type RuleConditions = { titleContains?: string | null; minAmount?: string | number | null; maxAmount?: string | number | null };
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+
+const hasRuleCondition = (rule: RuleConditions) =>
+  !isBlank(rule.titleContains) || !isBlank(rule.minAmount) || !isBlank(rule.maxAmount);
+
+const hasValidAmountRange = (rule: RuleConditions) =>
+  isBlank(rule.minAmount) || isBlank(rule.maxAmount) || Number(rule.minAmount) <= Number(rule.maxAmount);
+
+export const insertCategoryRuleSchema = categoryRuleFieldsSchema
+  .refine(hasRuleCondition, "Informe um texto ou uma faixa de valor para a regra")
+  .refine(hasValidAmountRange, "O valor mínimo deve ser menor que o máximo");
+
+export const updateCategoryRuleSchema = categoryRuleFieldsSchema
+  .omit({ userId: true, organizationId: true })
+  .partial()
+  .refine(hasValidAmountRange, "O valor mínimo deve ser menor que o máximo");
+
+export const categorySuggestionQuerySchema = z.object({
+  title: z.string().min(1),
+  amount: z.coerce.number().optional(),
+  type: z.enum(["expense", "income"]).default("expense"),
+});
+
+// GET /api/audit filters; dates bound createdAt, newest entries first
+export const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  userId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const updateNotificationPreferencesSchema = z.object({
+  reminderDays: z.number().int().min(0).max(MAX_REMINDER_DAYS).optional(),
+  emailDigest: z.boolean().optional(),
+});
+
+// Tokens expire after expiresInDays, or never when it is null
+export const API_TOKEN_MAX_DAYS = 365;
+
+export const insertApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Dê um nome para o token").max(100),
+  scopes: z.record(z.enum(API_TOKEN_RESOURCES), z.enum(API_TOKEN_ACCESS_LEVELS))
+    .refine(scopes => Object.keys(scopes).length > 0, "Escolha ao menos um recurso"),
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_DAYS).nullable().default(90),
 });
 
-export const updateAccountTypeSchema = z.object({
-  accountType: z.enum(["personal", "business"]),
-  companyName: z.string().optional(),
-  cnpj: z.string().optional(),
+export const csvMappingSchema = insertImportMappingSchema.omit({ userId: true, organizationId: true, name: true });
+
+export const importPreviewSchema = z.object({
+  format: z.enum(["ofx", "csv"]),
+  content: z.string().min(1, "Arquivo vazio"),
+  mapping: csvMappingSchema.optional(),
+});
+
+// Calendar date as YYYY-MM-DD that actually exists (no 2024-02-30)
+const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato AAAA-MM-DD")
+  .refine(value => {
+    const [year, month, day] = value.split("-").map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }, "Data inválida");
+
+export const importCommitSchema = z.object({
+  accountId: z.string().min(1, "Selecione uma conta"),
+  rows: z.array(z.object({
+    date: isoDateSchema,
+    title: z.string().min(1),
+    amount: z.number().positive(),
+    type: z.enum(["expense", "income"]),
+    categoryId: z.string().nullable().optional(),
+    status: z.enum(["paid", "unpaid"]).default("paid"),
+  })).min(1, "Nenhuma linha selecionada").max(2000, "Importe no máximo 2000 linhas por vez"),
 });
 
 export const insertMonthlyFinancialSchema = createInsertSchema(monthlyFinancials).omit({
@@ -160,7 +1078,8 @@ export const insertMonthlyFinancialSchema = createInsertSchema(monthlyFinancials
 
 export const updateMonthlyFinancialSchema = z.object({
   monthlyRevenue: z.string().or(z.number()).optional(),
-  accumulatedBalance: z.string().or(z.number()).optional(),
+  // null switches the opening balance back to the automatic roll-forward
+  accumulatedBalance: z.string().or(z.number()).nullable().optional(),
   notes: z.string().optional(),
 });
 
@@ -168,6 +1087,79 @@ export const updateMonthlyFinancialSchema = z.object({
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+// What the API returns for the signed-in user; credentials never leave the server
+export type PublicUser = Omit<User, "password" | "totpSecret">;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+
+// A signed-in browser of the user, from the sessions table. The id is derived
+// from the session id, which works as a credential and is never sent.
+export interface UserSession {
+  id: string;
+  current: boolean;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+// What the tokens list shows; the hash never leaves the server
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash"> & { organizationName: string };
+// Returned once, right after creation
+export interface CreatedApiToken {
+  token: string;
+  apiToken: ApiTokenSummary;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type UpdateOrganization = z.infer<typeof updateOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
+
+// An organization as seen by one of its members
+export type OrganizationWithRole = Organization & { role: OrganizationRole; isActive: boolean };
+
+export type OrganizationMemberWithUser = OrganizationMember & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName" | "profileImageUrl">;
+};
+
+// What the invitations list shows; the hash never leaves the server
+export type InvitationSummary = Omit<OrganizationInvitation, "tokenHash">;
+// Returned once, right after creation; emailSent is false when the invite
+// email could not go out
+export interface CreatedInvitation {
+  token: string;
+  invitation: InvitationSummary;
+  emailSent: boolean;
+}
+
+// What an invitee sees before accepting
+export interface InvitationPreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  isExpired: boolean;
+  isAccepted: boolean;
+}
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
@@ -175,11 +1167,66 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
+export type FinancialAccount = typeof financialAccounts.$inferSelect;
+export type InsertFinancialAccount = z.infer<typeof insertFinancialAccountSchema>;
+export type UpdateFinancialAccount = z.infer<typeof updateFinancialAccountSchema>;
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+
+export type InstallmentPurchase = typeof installmentPurchases.$inferSelect;
+export type InsertInstallmentPurchase = z.infer<typeof insertInstallmentPurchaseSchema>;
+export type ReportDateBasis = z.infer<typeof reportDateBasisSchema>;
+export type ReportSeriesQuery = z.infer<typeof reportSeriesQuerySchema>;
+export type ReportRangeQuery = z.infer<typeof reportRangeQuerySchema>;
+export type ReportGroupBy = typeof REPORT_GROUP_BY[number];
+export type ForecastQuery = z.infer<typeof forecastQuerySchema>;
+
+export type RecurringSeries = typeof recurringSeries.$inferSelect;
+export type RecurrenceLimits = z.infer<typeof recurrenceLimitsSchema>;
+export type RecurrenceScope = z.infer<typeof recurrenceScopeSchema>;
+export type BulkTransactionPatch = z.infer<typeof bulkTransactionSchema>;
+export type TransactionListQuery = z.infer<typeof transactionListQuerySchema>;
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+
+export type CategoryRule = typeof categoryRules.$inferSelect;
+export type InsertCategoryRule = z.infer<typeof insertCategoryRuleSchema>;
+export type CategorySuggestionQuery = z.infer<typeof categorySuggestionQuerySchema>;
+export type ImportPreviewRequest = z.infer<typeof importPreviewSchema>;
+export type ImportCommitRequest = z.infer<typeof importCommitSchema>;
+
 export type MonthlyFinancial = typeof monthlyFinancials.$inferSelect;
 export type InsertMonthlyFinancial = z.infer<typeof insertMonthlyFinancialSchema>;
 export type UpdateMonthlyFinancial = z.infer<typeof updateMonthlyFinancialSchema>;
 
-export type UpdateAccountType = z.infer<typeof updateAccountTypeSchema>;
+
+export type JobRun = typeof jobRuns.$inferSelect;
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditLogWithUser = AuditLog & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+};
+
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type NotificationWithBill = Notification & {
+  transaction: Pick<Transaction, "id" | "title" | "amount" | "status">;
+  organization: Pick<Organization, "id" | "name">;
+};
+
+export interface NotificationList {
+  items: NotificationWithBill[];
+  unreadCount: number;
+}
+
+export type TransactionType = Transaction["type"];
 
 // Report types
 export interface CategoryRanking {
@@ -192,6 +1239,26 @@ export interface CategoryRanking {
   trend: "up" | "down" | "stable";
   previousMonthTotal: number;
   changePercent: number;
+  budget: number | null;
+  projectedTotal: number;
+  isProjectedOverBudget: boolean;
+}
+
+export interface BudgetProgress {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  categoryColor: string;
+  amount: number;
+  rollover: boolean;
+  rolloverAmount: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  usedPercent: number;
+  projectedTotal: number;
+  isOverBudget: boolean;
+  isProjectedOverBudget: boolean;
 }
 
 export interface AdvancedReport {
@@ -204,6 +1271,22 @@ export interface AdvancedReport {
     averageTransactionValue: number;
   };
   categoryRankings: CategoryRanking[];
+  budgets: BudgetProgress[];
+  cashFlow: {
+    totalIncome: number;
+    receivedIncome: number;
+    pendingIncome: number;
+    netResult: number;
+    savingsRate: number;
+  };
+  incomeByCategory: {
+    categoryId: string | null;
+    categoryName: string;
+    categoryColor: string;
+    total: number;
+    count: number;
+    percentage: number;
+  }[];
   trends: {
     monthOverMonthChange: number;
     monthOverMonthChangePercent: number;
@@ -221,6 +1304,8 @@ export interface AdvancedReport {
 export interface MonthlyReport {
   currentMonthTotal: number;
   previousMonthTotal: number;
+  currentMonthIncome: number;
+  netResult: number;
   monthOverMonthChange: number;
   monthOverMonthChangePercent: number;
   paidCount: number;
@@ -234,29 +1319,236 @@ export interface MonthlyReport {
   }[];
 }
 
+export interface MonthlyFinancialSummary {
+  year: number;
+  month: number;
+  monthlyRevenue: number;
+  recordedIncome: number;
+  totalRevenue: number;
+  totalExpenses: number;
+  openingBalance: number;
+  closingBalance: number;
+  isBalanceManual: boolean;
+  notes: string | null;
+}
+
+export interface ParsedStatementRow {
+  index: number;
+  date: string; // ISO date (YYYY-MM-DD)
+  title: string;
+  amount: number; // Always positive, direction is in type
+  type: "expense" | "income";
+  duplicateOfId: string | null;
+}
+
+export interface CategorySuggestion {
+  categoryId: string;
+  source: "rule" | "history";
+  ruleId: string | null;
+}
+
+export interface FinancialAccountWithBalance extends FinancialAccount {
+  currentBalance: number; // Opening balance + paid income - paid expenses
+  pendingBalance: number; // Unpaid income - unpaid expenses, not yet in the balance
+}
+
+export interface SeriesLimits {
+  maxOccurrences: number | null;
+  isActive: boolean;
+}
+
+export interface JobRunError {
+  organizationId: string | null; // null when the whole run failed
+  message: string;
+}
+
+export interface ImportPreview {
+  rows: ParsedStatementRow[];
+  headers: string[];
+  skippedLines: number;
+}
+
 export interface WeeklyData {
   weeks: {
     weekNumber: number;
-    startDate: string;
-    endDate: string;
+    label: string;
     total: number;
+    income: number;
     transactionCount: number;
-    transactions: Transaction[];
   }[];
   monthTotal: number;
-  averageWeeklySpending: number;
+  monthIncome: number;
+}
+
+// Transfers between the user's own accounts are left out of every figure
+export interface MonthlySeriesPoint {
+  year: number;
+  month: number;
+  income: number;
+  expenses: number;
+  paidExpenses: number;
+  netResult: number;
+  transactionCount: number;
+}
+
+export interface CashFlowForecastDay {
+  // YYYY-MM-DD
+  date: string;
+  income: number;
+  expenses: number;
+  // Balance at the end of the day
+  balance: number;
+}
+
+export interface CashFlowForecast {
+  months: number;
+  startDate: string;
+  endDate: string;
+  // Paid balance of the active accounts today
+  startingBalance: number;
+  endingBalance: number;
+  lowestBalance: number;
+  lowestBalanceDate: string;
+  // First day the projected balance drops below zero, if any
+  firstNegativeDate: string | null;
+  // What the projection is made of
+  sources: {
+    unpaidIncome: number;
+    unpaidExpenses: number;
+    recurringIncome: number;
+    recurringExpenses: number;
+    expectedRevenue: number;
+  };
+  days: CashFlowForecastDay[];
+}
+
+export interface RangeCategoryTotal {
+  // null for uncategorized rows
+  categoryId: string | null;
+  kind: "income" | "expense";
+  total: number;
+}
+
+export interface RangeReportPeriod {
+  // "2025-03", "2025-Q1" or "2025"
+  key: string;
+  year: number;
+  // First month of the period
+  month: number;
+  income: number;
+  expenses: number;
+  netResult: number;
+  byCategory: RangeCategoryTotal[];
+  // Same period one year earlier
+  previousYear: {
+    income: number;
+    expenses: number;
+  };
+  incomeChangePercent: number;
+  expensesChangePercent: number;
+  // Mean of this period and up to REPORT_ROLLING_WINDOW - 1 periods before it in the range
+  rollingAverage: {
+    income: number;
+    expenses: number;
+  };
+}
+
+export interface RangeReport {
+  from: string;
+  to: string;
+  groupBy: ReportGroupBy;
+  basis: ReportDateBasis;
+  // Every category with movement in the range, largest first
+  categories: (RangeCategoryTotal & { categoryName: string; categoryColor: string })[];
+  periods: RangeReportPeriod[];
+  totals: {
+    income: number;
+    expenses: number;
+    netResult: number;
+  };
+  previousYearTotals: {
+    income: number;
+    expenses: number;
+    netResult: number;
+  };
+}
+
+// Month totals of every workspace the user belongs to, side by side.
+// Workspaces stay separate ledgers: money moved between them (such as
+// pró-labore) counts as an expense in one and income in the other.
+// One page of the transactions list; totals cover every row matching the filters
+export interface TransactionPage {
+  items: Transaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totals: {
+    income: number;
+    expenses: number;
+    paidCount: number;
+    unpaidCount: number;
+  };
+}
+
+export interface BulkTransactionResult {
+  updated: number;
+  deleted: number;
+}
+
+export interface TrashContents {
+  transactions: Transaction[];
+  categories: Category[];
+}
+
+export interface ConsolidatedWorkspaceSummary {
+  organizationId: string;
+  name: string;
+  kind: WorkspaceKind;
+  role: OrganizationRole;
+  income: number;
+  expenses: number;
+  netResult: number;
+  accountsBalance: number;
+}
+
+export interface ConsolidatedReport {
+  year: number;
+  month: number;
+  workspaces: ConsolidatedWorkspaceSummary[];
+  totals: {
+    income: number;
+    expenses: number;
+    netResult: number;
+    accountsBalance: number;
+  };
 }
 
-// Default categories for new users
-export const defaultCategories = [
-  { name: "Gasto Fixo", color: "#3B82F6", icon: "Home" },
-  { name: "Folha de Pagamento", color: "#8B5CF6", icon: "Users" },
-  { name: "Assinaturas", color: "#EC4899", icon: "CreditCard" },
-  { name: "Contas Recorrentes", color: "#F59E0B", icon: "Calendar" },
-  { name: "Alimentação", color: "#10B981", icon: "UtensilsCrossed" },
-  { name: "Transporte", color: "#06B6D4", icon: "Car" },
-  { name: "Saúde", color: "#EF4444", icon: "Heart" },
-  { name: "Educação", color: "#6366F1", icon: "GraduationCap" },
-  { name: "Lazer", color: "#F97316", icon: "Smile" },
-  { name: "Outros", color: "#64748B", icon: "MoreHorizontal" },
-];
+// Default categories for new workspaces. Business ledgers book the owner's
+// pró-labore apart from company costs; personal ones receive it as income.
+export const defaultCategories: Record<WorkspaceKind, { name: string; color: string; icon: string }[]> = {
+  personal: [
+    { name: "Salário", color: "#10B981", icon: "DollarSign" },
+    { name: "Pró-labore", color: "#14B8A6", icon: "Briefcase" },
+    { name: "Alimentação", color: "#F59E0B", icon: "UtensilsCrossed" },
+    { name: "Transporte", color: "#3B82F6", icon: "Car" },
+    { name: "Moradia", color: "#8B5CF6", icon: "Home" },
+    { name: "Saúde", color: "#EF4444", icon: "Heart" },
+    { name: "Educação", color: "#06B6D4", icon: "GraduationCap" },
+    { name: "Lazer", color: "#EC4899", icon: "Gamepad2" },
+    { name: "Gastos Fixos", color: "#6366F1", icon: "Receipt" },
+    { name: "Outros", color: "#64748B", icon: "MoreHorizontal" },
+  ],
+  business: [
+    { name: "Gasto Fixo", color: "#3B82F6", icon: "Home" },
+    { name: "Folha de Pagamento", color: "#8B5CF6", icon: "Users" },
+    { name: "Pró-labore", color: "#14B8A6", icon: "Briefcase" },
+    { name: "Assinaturas", color: "#EC4899", icon: "CreditCard" },
+    { name: "Contas Recorrentes", color: "#F59E0B", icon: "Calendar" },
+    { name: "Alimentação", color: "#10B981", icon: "UtensilsCrossed" },
+    { name: "Transporte", color: "#06B6D4", icon: "Car" },
+    { name: "Saúde", color: "#EF4444", icon: "Heart" },
+    { name: "Educação", color: "#6366F1", icon: "GraduationCap" },
+    { name: "Lazer", color: "#F97316", icon: "Smile" },
+    { name: "Outros", color: "#64748B", icon: "MoreHorizontal" },
+  ],
+};